@@ -0,0 +1,126 @@
+import { Keypair, PublicKey } from "@solana/web3.js"
+import { describe, expect, it, vi } from "vitest"
+import { TransactionBuildError, UnsignedTransaction } from "@/lib/solana/unsigned-transactions"
+import { amountSchema, createTransactionRoute, publicKeySchema } from "../shared"
+import { POST as transfer } from "../transfer/route"
+
+const mint = Keypair.generate().publicKey.toBase58()
+const owner = Keypair.generate().publicKey.toBase58()
+
+const unsigned: UnsignedTransaction = {
+  transaction: "AA==",
+  summary: "Test",
+  feePayer: owner,
+  signers: [owner],
+  accounts: {},
+  blockhash: "11111111111111111111111111111111",
+  lastValidBlockHeight: 1,
+}
+
+function post(body: unknown): Request {
+  return new Request("http://localhost/api/tx/test", {
+    method: "POST",
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  })
+}
+
+describe("publicKeySchema", () => {
+  it("trims and converts valid addresses", () => {
+    const parsed = publicKeySchema.parse(` ${mint} `)
+
+    expect(parsed).toBeInstanceOf(PublicKey)
+    expect(parsed.toBase58()).toBe(mint)
+  })
+
+  it("rejects invalid addresses", () => {
+    expect(publicKeySchema.safeParse("not-a-key").success).toBe(false)
+  })
+})
+
+describe("amountSchema", () => {
+  it("accepts positive decimal strings", () => {
+    expect(amountSchema.parse(" 1.5 ")).toBe("1.5")
+    expect(amountSchema.parse("100")).toBe("100")
+  })
+
+  it("rejects numbers, signs, exponents and empty strings", () => {
+    for (const value of [1.5, "-1", "1e3", "", ".5"]) {
+      expect(amountSchema.safeParse(value).success).toBe(false)
+    }
+  })
+})
+
+describe("createTransactionRoute", () => {
+  const route = (build = vi.fn(async () => unsigned)) => ({
+    build,
+    POST: createTransactionRoute({ mint: publicKeySchema, amount: amountSchema }, build),
+  })
+
+  it("passes parsed parameters and the default cluster to the builder", async () => {
+    const { build, POST } = route()
+
+    const response = await POST(post({ mint, amount: "2" }))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ cluster: "devnet", ...unsigned })
+    const [, params] = build.mock.calls[0] as unknown as [unknown, { mint: PublicKey; amount: string; cluster: string }]
+    expect(params.mint.toBase58()).toBe(mint)
+    expect(params).toMatchObject({ amount: "2", cluster: "devnet" })
+  })
+
+  it("rejects bodies that are not JSON", async () => {
+    const response = await route().POST(post("{"))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "The request body must be JSON" })
+  })
+
+  it("reports each invalid field", async () => {
+    const { build, POST } = route()
+
+    const response = await POST(post({ mint: "nope", amount: 2 }))
+    const body = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(Object.keys(body.issues.fieldErrors).sort()).toEqual(["amount", "mint"])
+    expect(build).not.toHaveBeenCalled()
+  })
+
+  it("rejects unknown fields", async () => {
+    const response = await route().POST(post({ mint, amount: "1", ammount: "1" }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).issues.formErrors[0]).toMatch(/ammount/)
+  })
+
+  it("only accepts the preset clusters", async () => {
+    const { POST } = route()
+
+    expect((await POST(post({ mint, amount: "1", cluster: "custom" }))).status).toBe(400)
+    expect((await POST(post({ mint, amount: "1", cluster: "https://evil.example.com" }))).status).toBe(400)
+    expect((await POST(post({ mint, amount: "1", cluster: "mainnet-beta" }))).status).toBe(200)
+  })
+
+  it("maps build errors to 422 and other failures to 502", async () => {
+    const invalid = route(vi.fn(async () => Promise.reject(new TransactionBuildError("Insufficient balance"))))
+    const rpc = route(vi.fn(async () => Promise.reject(new Error("fetch failed"))))
+    vi.spyOn(console, "error").mockImplementation(() => {})
+
+    const invalidResponse = await invalid.POST(post({ mint, amount: "1" }))
+    const rpcResponse = await rpc.POST(post({ mint, amount: "1" }))
+
+    expect(invalidResponse.status).toBe(422)
+    expect(await invalidResponse.json()).toEqual({ error: "Insufficient balance" })
+    expect(rpcResponse.status).toBe(502)
+  })
+})
+
+describe("POST /api/tx/transfer", () => {
+  it("requires the owner and recipient before touching the network", async () => {
+    const response = await transfer(post({ mint, amount: "1" }))
+    const body = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(Object.keys(body.issues.fieldErrors).sort()).toEqual(["owner", "recipient"])
+  })
+})
@@ -0,0 +1,13 @@
+import { buildBurnTransaction } from "@/lib/solana/unsigned-transactions"
+import { amountSchema, createTransactionRoute, publicKeySchema } from "../shared"
+
+// POST /api/tx/burn
+export const POST = createTransactionRoute(
+  {
+    mint: publicKeySchema,
+    owner: publicKeySchema,
+    amount: amountSchema,
+    payer: publicKeySchema.optional(),
+  },
+  buildBurnTransaction
+)
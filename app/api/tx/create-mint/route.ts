@@ -0,0 +1,17 @@
+import { z } from "zod"
+import { MAX_MINT_DECIMALS } from "@/lib/solana/token-program"
+import { buildCreateMintTransaction } from "@/lib/solana/unsigned-transactions"
+import { createTransactionRoute, publicKeySchema } from "../shared"
+
+// POST /api/tx/create-mint
+export const POST = createTransactionRoute(
+  {
+    payer: publicKeySchema,
+    decimals: z.number().int().min(0).max(MAX_MINT_DECIMALS),
+    tokenProgram: z.enum(["spl-token", "token-2022"]).default("spl-token"),
+    mintAuthority: publicKeySchema.optional(),
+    freezeAuthority: publicKeySchema.nullable().optional(),
+    mint: publicKeySchema.optional(),
+  },
+  buildCreateMintTransaction
+)
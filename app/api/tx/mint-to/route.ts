@@ -0,0 +1,14 @@
+import { buildMintToTransaction } from "@/lib/solana/unsigned-transactions"
+import { amountSchema, createTransactionRoute, publicKeySchema } from "../shared"
+
+// POST /api/tx/mint-to
+export const POST = createTransactionRoute(
+  {
+    payer: publicKeySchema,
+    mint: publicKeySchema,
+    owner: publicKeySchema,
+    amount: amountSchema,
+    mintAuthority: publicKeySchema.optional(),
+  },
+  buildMintToTransaction
+)
@@ -0,0 +1,16 @@
+import { z } from "zod"
+import { buildSetAuthorityTransaction } from "@/lib/solana/unsigned-transactions"
+import { createTransactionRoute, publicKeySchema } from "../shared"
+
+// POST /api/tx/set-authority
+export const POST = createTransactionRoute(
+  {
+    mint: publicKeySchema,
+    authorityType: z.enum(["mint", "freeze"]),
+    currentAuthority: publicKeySchema,
+    // null revokes the authority for good
+    newAuthority: publicKeySchema.nullable(),
+    payer: publicKeySchema.optional(),
+  },
+  buildSetAuthorityTransaction
+)
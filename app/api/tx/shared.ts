@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server"
+import { Connection, PublicKey } from "@solana/web3.js"
+import { z } from "zod"
+import { ClusterName, resolveCluster } from "@/lib/solana/cluster"
+import { getCachedConnection, isValidPublicKey } from "@/lib/solana/connection-helper"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+import { TransactionBuildError, UnsignedTransaction } from "@/lib/solana/unsigned-transactions"
+
+// Custom RPC URLs are not accepted, so callers can't make the server fetch arbitrary hosts
+const SERVER_CLUSTERS = ["devnet", "testnet", "mainnet-beta", "localnet"] as const satisfies readonly ClusterName[]
+
+export const publicKeySchema = z
+  .string()
+  .trim()
+  .refine(isValidPublicKey, "Invalid Solana address")
+  .transform((value) => new PublicKey(value))
+
+// UI amounts are strings so large or precise values don't lose digits as JSON numbers
+export const amountSchema = z
+  .string()
+  .trim()
+  .regex(/^\d+(\.\d+)?$/, 'Use a positive decimal string such as "1.5"')
+
+const clusterSchema = z.enum(SERVER_CLUSTERS).default("devnet")
+
+/**
+ * Build a POST handler that validates the JSON body, builds the transaction
+ * on the requested cluster and maps failures to status codes: 400 for invalid
+ * parameters, 422 when the transaction can't be built, 502 for RPC errors.
+ */
+export function createTransactionRoute<Shape extends z.ZodRawShape>(
+  shape: Shape,
+  build: (connection: Connection, params: z.output<z.ZodObject<Shape>>) => Promise<UnsignedTransaction>
+) {
+  // Unknown fields are rejected so misspelled optional parameters don't go unnoticed
+  const schema = z.object(shape).extend({ cluster: clusterSchema }).strict()
+
+  return async function POST(request: Request) {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "The request body must be JSON" }, { status: 400 })
+    }
+
+    const parsed = schema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid parameters", issues: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const params = parsed.data as z.output<z.ZodObject<Shape>> & { cluster: ClusterName }
+    const cluster = resolveCluster({ name: params.cluster })
+
+    try {
+      const connection = getCachedConnection(cluster.endpoint, "confirmed", cluster.wsEndpoint)
+      const result = await build(connection, params)
+      return NextResponse.json({ cluster: cluster.name, ...result })
+    } catch (error) {
+      if (error instanceof TransactionBuildError) {
+        return NextResponse.json({ error: error.message }, { status: 422 })
+      }
+      console.error("Error building transaction:", error)
+      return NextResponse.json({ error: getErrorMessage(error) }, { status: 502 })
+    }
+  }
+}
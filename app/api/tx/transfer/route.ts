@@ -0,0 +1,14 @@
+import { buildTransferTransaction } from "@/lib/solana/unsigned-transactions"
+import { amountSchema, createTransactionRoute, publicKeySchema } from "../shared"
+
+// POST /api/tx/transfer
+export const POST = createTransactionRoute(
+  {
+    mint: publicKeySchema,
+    owner: publicKeySchema,
+    recipient: publicKeySchema,
+    amount: amountSchema,
+    payer: publicKeySchema.optional(),
+  },
+  buildTransferTransaction
+)
@@ -3,6 +3,10 @@ import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import "./globals.css"
 import WalletContextProvider from "@/components/wallet/wallet-provider"
+import { ClusterProvider } from "@/components/wallet/cluster-provider"
+import TransactionReconciler from "@/components/transaction-reconciler"
+import TransactionToasts from "@/components/transaction-toasts"
+import { TransactionReviewProvider } from "@/components/transaction-review-provider"
 import { ThemeProvider } from "@/components/theme-provider"
 import Script from 'next/script'
 import { CustomToaster } from "@/components/ui/toast"
@@ -36,10 +40,16 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <WalletContextProvider>
-            <CustomToaster />
-            {children}
-          </WalletContextProvider>
+          <ClusterProvider>
+            <WalletContextProvider>
+              <TransactionReviewProvider>
+                <CustomToaster />
+                <TransactionReconciler />
+                <TransactionToasts />
+                {children}
+              </TransactionReviewProvider>
+            </WalletContextProvider>
+          </ClusterProvider>
         </ThemeProvider>
       </body>
     </html>
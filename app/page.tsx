@@ -1,16 +1,35 @@
 "use client"
+import { useState } from "react"
 import Header from "@/components/header"
 import WalletConnect from "@/components/wallet/wallet-connect"
 import { useWallet } from "@solana/wallet-adapter-react"
 import TokenCreator from "@/components/token/token-creator"
 import { TokenMinter } from "@/components/token/token-minter"
 import TokenSender from "@/components/token/token-sender"
+import TokenAuthorityManager from "@/components/token/token-authority-manager"
+import TokenFreezer from "@/components/token/token-freezer"
+import TokenBurner from "@/components/token/token-burner"
+import TokenMultisig from "@/components/token/token-multisig"
+import LookupTableManager from "@/components/lookup-table-manager"
+import NonceManager from "@/components/nonce-manager"
 import TransactionHistory from "@/components/transaction-history"
+import Portfolio, { PortfolioAction } from "@/components/portfolio"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 
 export default function Home() {
   const { connected } = useWallet()
+  const [activeTab, setActiveTab] = useState("create")
+  const [prefill, setPrefill] = useState<{ action: PortfolioAction; mintAddress: string } | null>(null)
+
+  // Jump to the matching form with the mint filled in
+  const handleQuickAction = (action: PortfolioAction, mintAddress: string) => {
+    setPrefill({ action, mintAddress })
+    setActiveTab(action)
+  }
+
+  const prefillFor = (action: PortfolioAction) =>
+    prefill?.action === action ? prefill.mintAddress : undefined
 
   return (
     <main className="min-h-screen flex flex-col">
@@ -22,23 +41,49 @@ export default function Home() {
           </div>
         ) : (
           <div className="space-y-8">
-            <Tabs defaultValue="create" className="w-full">
-              <TabsList className="grid grid-cols-3 mb-8">
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+              <TabsList className="grid grid-cols-9 mb-8">
                 <TabsTrigger value="create">Create Token</TabsTrigger>
                 <TabsTrigger value="mint">Mint Token</TabsTrigger>
                 <TabsTrigger value="send">Send Token</TabsTrigger>
+                <TabsTrigger value="burn">Burn</TabsTrigger>
+                <TabsTrigger value="authorities">Authorities</TabsTrigger>
+                <TabsTrigger value="freeze">Freeze</TabsTrigger>
+                <TabsTrigger value="multisig">Multisig</TabsTrigger>
+                <TabsTrigger value="tables">Lookup Tables</TabsTrigger>
+                <TabsTrigger value="nonces">Nonces</TabsTrigger>
               </TabsList>
               <TabsContent value="create">
                 <TokenCreator />
               </TabsContent>
               <TabsContent value="mint">
-                <TokenMinter />
+                <TokenMinter prefillMint={prefillFor("mint")} />
               </TabsContent>
               <TabsContent value="send">
-                <TokenSender />
+                <TokenSender prefillMint={prefillFor("send")} />
+              </TabsContent>
+              <TabsContent value="burn">
+                <TokenBurner prefillMint={prefillFor("burn")} />
+              </TabsContent>
+              <TabsContent value="authorities">
+                <TokenAuthorityManager />
+              </TabsContent>
+              <TabsContent value="freeze">
+                <TokenFreezer />
+              </TabsContent>
+              <TabsContent value="multisig">
+                <TokenMultisig />
+              </TabsContent>
+              <TabsContent value="tables">
+                <LookupTableManager />
+              </TabsContent>
+              <TabsContent value="nonces">
+                <NonceManager />
               </TabsContent>
             </Tabs>
 
+            <Portfolio onQuickAction={handleQuickAction} />
+
             <TransactionHistory />
           </div>
         )}
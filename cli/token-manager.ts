@@ -0,0 +1,464 @@
+#!/usr/bin/env node
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, Transaction } from '@solana/web3.js';
+import { buildAirdropChunks, parseAirdropCsv } from '../lib/solana/airdrop';
+import { CLUSTERS, ClusterName, resolveCluster } from '../lib/solana/cluster';
+import { isValidPublicKey } from '../lib/solana/connection-helper';
+import { parseKeypairFile } from '../lib/solana/local-keypair';
+import { getErrorMessage } from '../lib/solana/program-errors';
+import { KeypairSigner, createKeypairSigner } from '../lib/solana/signer';
+import { DryRunError, SimulationPreview, setDryRun } from '../lib/solana/simulation';
+import { getMintAuthorities, toRawTokenAmount } from '../lib/solana/token-helper';
+import {
+  burnTokens,
+  createTokenWithMetadata,
+  getTokenBalance,
+  mintTokens,
+  setTokenAuthority,
+  transferTokens
+} from '../lib/solana/token-operations';
+import { MAX_MINT_DECIMALS, getMintWithProgram } from '../lib/solana/token-program';
+import { TokenMetadataInput, validateTokenMetadata } from '../lib/solana/token-metadata';
+import { sendTransactionWithRetry } from '../lib/solana/transaction-utility';
+
+const EXIT_OK = 0;
+// The command ran but failed, e.g. a rejected transaction or a failed simulation
+const EXIT_FAILURE = 1;
+// Bad arguments or input files; nothing was sent
+const EXIT_USAGE = 2;
+
+const DEFAULT_KEYPAIR = '~/.config/solana/id.json';
+
+const USAGE = `Usage: token-manager <command> [options]
+
+Commands:
+  create     --name <name> --symbol <symbol> [--uri <uri>] [--decimals <n>] [--token-2022]
+  mint       --mint <address> --amount <amount>
+  send       --mint <address> --to <address> --amount <amount>
+  burn       --mint <address> --amount <amount>
+  balance    [--mint <address>] [--owner <address>]
+  authority  --mint <address> [--type mint|freeze] [--new <address> | --revoke]
+  airdrop    --mint <address> --csv <file>
+
+Options:
+  --keypair <path>    Solana CLI keypair file that signs and pays (default ${DEFAULT_KEYPAIR})
+  --cluster <name>    ${Object.keys(CLUSTERS).filter((name) => name !== 'custom').join(', ')} (default devnet)
+  --url <rpc>         Custom RPC endpoint, overrides --cluster
+  --json              Print the result as JSON
+  --simulate          Simulate the transactions without sending them
+  --verbose           Print library logs to stderr
+  --help              Show this help
+
+Amounts are UI amounts, e.g. 1.5. The airdrop CSV has address,amount lines.
+Exit codes: 0 success, 1 failure, 2 invalid usage.`;
+
+/**
+ * Invalid arguments or input; reported with the usage exit code
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type Options = ReturnType<typeof parseOptions>['values'];
+
+interface CommandContext {
+  connection: Connection;
+  signer: KeypairSigner;
+  options: Options;
+}
+
+type CommandResult = Record<string, unknown> & { ok: boolean };
+
+function parseOptions(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      keypair: { type: 'string', default: DEFAULT_KEYPAIR },
+      cluster: { type: 'string', default: 'devnet' },
+      url: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      simulate: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+      name: { type: 'string' },
+      symbol: { type: 'string' },
+      uri: { type: 'string', default: '' },
+      decimals: { type: 'string', default: '9' },
+      'token-2022': { type: 'boolean', default: false },
+      mint: { type: 'string' },
+      amount: { type: 'string' },
+      to: { type: 'string' },
+      owner: { type: 'string' },
+      type: { type: 'string', default: 'mint' },
+      new: { type: 'string' },
+      revoke: { type: 'boolean', default: false },
+      csv: { type: 'string' },
+    },
+  });
+}
+
+function requireOption(options: Options, name: 'name' | 'symbol' | 'mint' | 'amount' | 'to' | 'csv'): string {
+  const value = options[name];
+  if (!value) throw new UsageError(`Missing --${name}`);
+  return value;
+}
+
+function requireAddress(options: Options, name: 'mint' | 'to' | 'owner' | 'new'): string {
+  const value = options[name];
+  if (!value) throw new UsageError(`Missing --${name}`);
+  if (!isValidPublicKey(value)) throw new UsageError(`--${name} is not a valid address: ${value}`);
+  return value;
+}
+
+function readInputFile(path: string): string {
+  try {
+    return readFileSync(resolve(path.replace(/^~(?=$|\/)/, homedir())), 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${getErrorMessage(error)}`);
+  }
+}
+
+function loadKeypair(path: string): Keypair {
+  try {
+    return parseKeypairFile(readInputFile(path));
+  } catch (error) {
+    throw error instanceof UsageError ? error : new UsageError(`${path}: ${getErrorMessage(error)}`);
+  }
+}
+
+function createConnection(options: Options): Connection {
+  if (options.url) {
+    const cluster = resolveCluster({ name: 'custom', customEndpoint: options.url });
+    if (cluster.endpoint !== options.url) throw new UsageError(`Invalid RPC URL: ${options.url}`);
+    return new Connection(cluster.endpoint, { commitment: 'confirmed', wsEndpoint: cluster.wsEndpoint });
+  }
+
+  const name = options.cluster as ClusterName;
+  if (!(name in CLUSTERS) || name === 'custom') {
+    throw new UsageError(`Unknown cluster "${options.cluster}". Use --url for a custom RPC endpoint`);
+  }
+  const cluster = resolveCluster({ name });
+  return new Connection(cluster.endpoint, { commitment: 'confirmed', wsEndpoint: cluster.wsEndpoint });
+}
+
+function summarizePreview(preview: SimulationPreview) {
+  return {
+    success: preview.success,
+    error: preview.error,
+    unitsConsumed: preview.unitsConsumed,
+    fee: preview.fee,
+    rentLocked: preview.rentLocked,
+    solChanges: preview.solChanges,
+    // Raw amounts are bigints, which JSON can't carry
+    tokenChanges: preview.tokenChanges.map((change) => ({
+      ...change,
+      before: change.before.toString(),
+      after: change.after.toString(),
+    })),
+    logs: preview.logs,
+  };
+}
+
+/**
+ * Run one send. In simulate mode the engine stops after simulating and the
+ * preview becomes the result.
+ */
+async function send<T extends Record<string, unknown>>(action: () => Promise<T>): Promise<CommandResult> {
+  try {
+    return { ok: true, ...(await action()) };
+  } catch (error) {
+    if (error instanceof DryRunError) {
+      return { ok: error.preview.success, simulated: true, simulation: summarizePreview(error.preview) };
+    }
+    throw error;
+  }
+}
+
+async function getMintDecimals(connection: Connection, mint: string): Promise<number> {
+  const { mintInfo } = await getMintWithProgram(connection, new PublicKey(mint));
+  return mintInfo.decimals;
+}
+
+function toRawAmount(amount: string, decimals: number): bigint {
+  const raw = toRawTokenAmount(amount, decimals);
+  if (raw === null || raw <= BigInt(0)) {
+    throw new UsageError(`Invalid amount "${amount}": use a positive number with at most ${decimals} decimals`);
+  }
+  return raw;
+}
+
+async function create({ connection, signer, options }: CommandContext): Promise<CommandResult> {
+  const metadata: TokenMetadataInput = {
+    name: requireOption(options, 'name'),
+    symbol: requireOption(options, 'symbol'),
+    uri: options.uri,
+    sellerFeeBasisPoints: 0,
+    creators: null,
+  };
+  const metadataError = validateTokenMetadata(metadata);
+  if (metadataError) throw new UsageError(metadataError);
+
+  const decimals = Number(options.decimals);
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_MINT_DECIMALS) {
+    throw new UsageError(`--decimals must be a whole number between 0 and ${MAX_MINT_DECIMALS}`);
+  }
+  const programId = options['token-2022'] ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+
+  return send(async () => {
+    const { mintKeypair, metadataAddress, signature } = await createTokenWithMetadata(
+      connection,
+      signer,
+      metadata,
+      decimals,
+      programId
+    );
+    return {
+      mint: mintKeypair.publicKey.toBase58(),
+      metadata: metadataAddress.toBase58(),
+      programId: programId.toBase58(),
+      decimals,
+      signature,
+    };
+  });
+}
+
+async function mint({ connection, signer, options }: CommandContext): Promise<CommandResult> {
+  const mintAddress = requireAddress(options, 'mint');
+  const amount = requireOption(options, 'amount');
+  const raw = toRawAmount(amount, await getMintDecimals(connection, mintAddress));
+
+  return send(async () => ({
+    mint: mintAddress,
+    amount,
+    signature: await mintTokens(connection, signer, mintAddress, raw.toString()),
+  }));
+}
+
+async function sendTokens({ connection, signer, options }: CommandContext): Promise<CommandResult> {
+  const mintAddress = requireAddress(options, 'mint');
+  const recipient = requireAddress(options, 'to');
+  const amount = requireOption(options, 'amount');
+  const raw = toRawAmount(amount, await getMintDecimals(connection, mintAddress));
+
+  return send(async () => ({
+    mint: mintAddress,
+    to: recipient,
+    amount,
+    signature: await transferTokens(connection, signer, mintAddress, recipient, raw),
+  }));
+}
+
+async function burn({ connection, signer, options }: CommandContext): Promise<CommandResult> {
+  const mintAddress = requireAddress(options, 'mint');
+  const amount = requireOption(options, 'amount');
+  toRawAmount(amount, await getMintDecimals(connection, mintAddress));
+
+  return send(async () => {
+    const { signature, supplyBefore, supplyAfter } = await burnTokens(connection, signer, mintAddress, amount);
+    return {
+      mint: mintAddress,
+      amount,
+      supplyBefore: supplyBefore.toString(),
+      supplyAfter: supplyAfter.toString(),
+      signature,
+    };
+  });
+}
+
+async function balance({ connection, signer, options }: CommandContext): Promise<CommandResult> {
+  const owner = options.owner ? new PublicKey(requireAddress(options, 'owner')) : signer.publicKey;
+
+  if (!options.mint) {
+    const lamports = await connection.getBalance(owner);
+    return { ok: true, owner: owner.toBase58(), lamports, sol: lamports / LAMPORTS_PER_SOL };
+  }
+
+  const mintAddress = requireAddress(options, 'mint');
+  return {
+    ok: true,
+    owner: owner.toBase58(),
+    mint: mintAddress,
+    balance: await getTokenBalance(connection, owner, mintAddress),
+  };
+}
+
+async function authority({ connection, signer, options }: CommandContext): Promise<CommandResult> {
+  const mintAddress = requireAddress(options, 'mint');
+  const kind = options.type;
+  if (kind !== 'mint' && kind !== 'freeze') {
+    throw new UsageError('--type must be mint or freeze');
+  }
+  if (options.new && options.revoke) {
+    throw new UsageError('Pass either --new or --revoke, not both');
+  }
+
+  // Without a change, show the current authorities
+  if (!options.new && !options.revoke) {
+    const { mintAuthority, freezeAuthority, programId } = await getMintAuthorities(connection, mintAddress);
+    return {
+      ok: true,
+      mint: mintAddress,
+      programId: programId.toBase58(),
+      mintAuthority: mintAuthority?.toBase58() ?? null,
+      freezeAuthority: freezeAuthority?.toBase58() ?? null,
+    };
+  }
+
+  const newAuthority = options.revoke ? null : requireAddress(options, 'new');
+  return send(async () => ({
+    mint: mintAddress,
+    type: kind,
+    newAuthority,
+    signature: await setTokenAuthority(connection, signer, mintAddress, kind, newAuthority),
+  }));
+}
+
+async function airdrop({ connection, signer, options }: CommandContext): Promise<CommandResult> {
+  const mintAddress = requireAddress(options, 'mint');
+  const csv = readInputFile(requireOption(options, 'csv'));
+  const mintPublicKey = new PublicKey(mintAddress);
+  const { mintInfo, programId } = await getMintWithProgram(connection, mintPublicKey);
+
+  const { rows, issues } = parseAirdropCsv(csv, mintInfo.decimals);
+  if (issues.length > 0) {
+    throw new UsageError(
+      `The CSV has ${issues.length} invalid line(s):\n` +
+        issues.map((issue) => `  line ${issue.line}: ${issue.message}`).join('\n')
+    );
+  }
+  if (rows.length === 0) {
+    throw new UsageError('The CSV has no recipients');
+  }
+
+  const chunks = await buildAirdropChunks(
+    connection,
+    signer.publicKey,
+    mintPublicKey,
+    programId,
+    mintInfo.decimals,
+    rows,
+    rows.map((_, index) => index)
+  );
+
+  const simulations: ReturnType<typeof summarizePreview>[] = [];
+
+  // Keep going after a failed chunk so one bad recipient doesn't stop the rest
+  for (const chunk of chunks) {
+    chunk.rowIndexes.forEach((index) => (rows[index].status = 'sending'));
+    try {
+      const signature = await sendTransactionWithRetry(
+        connection,
+        signer,
+        new Transaction().add(...chunk.instructions),
+        [],
+        {
+          maxRetries: 3,
+          skipPreflight: false,
+          preflightCommitment: 'confirmed',
+          confirmCommitment: 'confirmed',
+          label: `Airdrop ${chunk.rowIndexes.length} recipients`,
+        }
+      );
+      chunk.rowIndexes.forEach((index) => Object.assign(rows[index], { status: 'success', signature }));
+    } catch (error) {
+      if (error instanceof DryRunError) {
+        simulations.push(summarizePreview(error.preview));
+        const status = error.preview.success ? 'pending' : 'error';
+        chunk.rowIndexes.forEach((index) => Object.assign(rows[index], { status, error: error.preview.error }));
+        continue;
+      }
+      const message = getErrorMessage(error);
+      chunk.rowIndexes.forEach((index) => Object.assign(rows[index], { status: 'error', error: message }));
+    }
+  }
+
+  const failed = rows.filter((row) => row.status === 'error').length;
+  return {
+    ok: failed === 0,
+    mint: mintAddress,
+    recipients: rows.length,
+    transactions: chunks.length,
+    failed,
+    ...(options.simulate ? { simulated: true, simulations } : {}),
+    rows: rows.map(({ address, amount, status, signature, error }) => ({ address, amount, status, signature, error })),
+  };
+}
+
+const COMMANDS: Record<string, (context: CommandContext) => Promise<CommandResult>> = {
+  create,
+  mint,
+  send: sendTokens,
+  burn,
+  balance,
+  authority,
+  airdrop,
+};
+
+function formatText(result: CommandResult): string {
+  return Object.entries(result)
+    .filter(([key]) => key !== 'ok')
+    .map(([key, value]) => `${key}: ${typeof value === 'object' && value !== null ? JSON.stringify(value, null, 2) : value}`)
+    .join('\n');
+}
+
+async function main(argv: string[]): Promise<number> {
+  let json = argv.includes('--json');
+
+  const print = (result: CommandResult) => {
+    if (json) {
+      process.stdout.write(`${JSON.stringify(result)}\n`);
+    } else if (result.ok) {
+      process.stdout.write(`${formatText(result)}\n`);
+    } else {
+      process.stderr.write(`${formatText(result)}\n`);
+    }
+  };
+
+  try {
+    const { values: options, positionals } = parseOptions(argv);
+    json = options.json;
+
+    // Library progress logs would mix into the output
+    if (!options.verbose) {
+      console.log = () => {};
+      console.info = () => {};
+      console.warn = () => {};
+      console.error = () => {};
+    } else {
+      console.log = console.error;
+    }
+
+    const [commandName] = positionals;
+    if (options.help || !commandName) {
+      process.stdout.write(`${USAGE}\n`);
+      return options.help ? EXIT_OK : EXIT_USAGE;
+    }
+
+    const command = COMMANDS[commandName];
+    if (!command) throw new UsageError(`Unknown command "${commandName}"`);
+
+    const connection = createConnection(options);
+    const keypair = loadKeypair(options.keypair);
+    setDryRun(options.simulate);
+
+    const result = await command({ connection, signer: createKeypairSigner(keypair), options });
+    print(result);
+    return result.ok ? EXIT_OK : EXIT_FAILURE;
+  } catch (error) {
+    const usage = error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS');
+    print({ ok: false, error: getErrorMessage(error) });
+    if (usage && !json) process.stderr.write(`\nRun token-manager --help for usage.\n`);
+    return usage ? EXIT_USAGE : EXIT_FAILURE;
+  }
+}
+
+// Exit explicitly: finalization polling and websockets would otherwise keep the process alive
+main(process.argv.slice(2)).then((code) => process.exit(code));
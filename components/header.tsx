@@ -4,18 +4,27 @@ import { Sun, Moon } from "lucide-react"
 import Link from "next/link"
 import { useState, useEffect } from "react"
 import { useWallet } from "@solana/wallet-adapter-react"
-import { useConnection } from "@solana/wallet-adapter-react"
 import { LAMPORTS_PER_SOL } from "@solana/web3.js"
 import { Button } from "@/components/ui/button"
 import WalletButton from "@/components/wallet/wallet-button"
+import ClusterSelect from "@/components/wallet/cluster-select"
+import RpcStatus from "@/components/wallet/rpc-status"
+import PriorityFeeSelect from "@/components/wallet/priority-fee-select"
+import DurableNonceIndicator from "@/components/wallet/durable-nonce-indicator"
+import LocalKeypairDialog from "@/components/wallet/local-keypair-dialog"
+import { useTransactionReview } from "@/components/transaction-review-provider"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
 import { useTheme } from "next-themes"
 import { Card } from "@/components/ui/card"
+import { useSolBalance } from "@/lib/hooks/useAccountSubscription"
 
 export default function Header() {
   const { publicKey, connected } = useWallet()
-  const { connection } = useConnection()
   const { theme, setTheme } = useTheme()
-  const [balance, setBalance] = useState<number | null>(null)
+  const { dryRun, setDryRun } = useTransactionReview()
+  const lamports = useSolBalance(publicKey)
+  const balance = lamports !== null ? lamports / LAMPORTS_PER_SOL : null
   const [mounted, setMounted] = useState(false)
 
   // After mounting, we can safely show the theme toggle
@@ -23,27 +32,6 @@ export default function Header() {
     setMounted(true)
   }, [])
 
-  useEffect(() => {
-    if (publicKey) {
-      const fetchBalance = async () => {
-        try {
-          const bal = await connection.getBalance(publicKey)
-          setBalance(bal / LAMPORTS_PER_SOL)
-        } catch (error) {
-          console.error("Error fetching balance:", error)
-          setBalance(null)
-        }
-      }
-
-      fetchBalance()
-
-      // Set up interval to refresh balance
-      const intervalId = setInterval(fetchBalance, 10000)
-
-      return () => clearInterval(intervalId)
-    }
-  }, [publicKey, connection])
-
   const toggleTheme = () => {
     setTheme(theme === "dark" ? "light" : "dark")
   }
@@ -66,6 +54,23 @@ export default function Header() {
             </Card>
           )}
 
+          {mounted && (
+            <div className="flex items-center gap-2" title="Simulate transactions without sending them">
+              <Switch id="dryRun" checked={dryRun} onCheckedChange={setDryRun} />
+              <Label htmlFor="dryRun" className="text-sm">Dry run</Label>
+            </div>
+          )}
+
+          {mounted && <PriorityFeeSelect />}
+
+          {mounted && <DurableNonceIndicator />}
+
+          {mounted && <ClusterSelect />}
+
+          {mounted && <RpcStatus />}
+
+          {mounted && <LocalKeypairDialog />}
+
           {mounted && (
             <Button variant="ghost" size="icon" className="rounded-full" onClick={toggleTheme}>
               {theme === "dark" ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
@@ -0,0 +1,315 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { PublicKey } from "@solana/web3.js"
+import { Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { TransactionLink } from "@/components/transaction-link"
+import { toastSuccess, toastError } from "@/components/ui/toast"
+import { isValidPublicKey } from "@/lib/solana/connection-helper"
+import { LookupTableInfo, LookupTableStatus, MAX_LOOKUP_TABLE_ADDRESSES } from "@/lib/solana/lookup-tables"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+
+const STATUS_LABELS: Record<LookupTableStatus, string> = {
+  active: "Active",
+  deactivating: "Deactivating",
+  closable: "Ready to close",
+}
+
+const STATUS_VARIANTS: Record<LookupTableStatus, "success" | "secondary" | "outline"> = {
+  active: "success",
+  deactivating: "secondary",
+  closable: "outline",
+}
+
+function shorten(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-6)}`
+}
+
+export default function LookupTableManager() {
+  const { connection } = useConnection()
+  const { publicKey, sendTransaction } = useWallet()
+
+  const [tables, setTables] = useState<LookupTableInfo[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [selectedTable, setSelectedTable] = useState<string | null>(null)
+  const [addressesInput, setAddressesInput] = useState("")
+  const [deactivateTarget, setDeactivateTarget] = useState<string | null>(null)
+  const [signatures, setSignatures] = useState<string[]>([])
+
+  const loadTables = useCallback(async () => {
+    if (!publicKey) {
+      setTables([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const { getOwnedLookupTables } = await import("@/lib/solana/lookup-tables")
+      setTables(await getOwnedLookupTables(connection, publicKey))
+    } catch (error) {
+      console.error("Error loading lookup tables:", error)
+      toastError("Failed to load lookup tables", { id: "load-tables-error" })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [connection, publicKey])
+
+  useEffect(() => {
+    loadTables()
+  }, [loadTables])
+
+  // Run a table action, show its signatures and refresh the list afterwards
+  async function runAction(key: string, successMessage: string, action: () => Promise<string[]>) {
+    setBusyAction(key)
+    setSignatures([])
+
+    try {
+      const result = await action()
+      setSignatures(result)
+      toastSuccess(successMessage, { id: `table-action-success-${Date.now()}` })
+      await loadTables()
+    } catch (error) {
+      console.error("Error updating lookup table:", error)
+      toastError(
+        getErrorMessage(error),
+        { id: `table-action-error-${Date.now()}` }
+      )
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  function createTable() {
+    if (!publicKey) return
+    runAction("create", "Lookup table created", async () => {
+      const { createLookupTable } = await import("@/lib/solana/lookup-tables")
+      const { address, signature } = await createLookupTable(connection, { publicKey, sendTransaction })
+      setSelectedTable(address.toString())
+      return [signature]
+    })
+  }
+
+  function extendTable() {
+    if (!publicKey || !selectedTable) return
+
+    const addresses = Array.from(new Set(addressesInput.split(/[\s,]+/).filter(Boolean)))
+    const invalid = addresses.find((address) => !isValidPublicKey(address))
+    if (invalid) {
+      toastError(`Invalid address: ${invalid}`, { id: "extend-address-error" })
+      return
+    }
+    if (addresses.length === 0) {
+      toastError("Please enter at least one address", { id: "extend-address-error" })
+      return
+    }
+
+    runAction("extend", "Addresses added to the lookup table", async () => {
+      const { extendLookupTable } = await import("@/lib/solana/lookup-tables")
+      const { signatures } = await extendLookupTable(
+        connection,
+        { publicKey, sendTransaction },
+        new PublicKey(selectedTable),
+        addresses.map((address) => new PublicKey(address))
+      )
+      setAddressesInput("")
+      return signatures
+    })
+  }
+
+  function deactivateTable(address: string) {
+    if (!publicKey) return
+    runAction(`deactivate-${address}`, "Lookup table deactivated", async () => {
+      const { deactivateLookupTable } = await import("@/lib/solana/lookup-tables")
+      return [await deactivateLookupTable(connection, { publicKey, sendTransaction }, new PublicKey(address))]
+    })
+  }
+
+  function closeTable(address: string) {
+    if (!publicKey) return
+    runAction(`close-${address}`, "Lookup table closed and rent recovered", async () => {
+      const { closeLookupTable } = await import("@/lib/solana/lookup-tables")
+      const signature = await closeLookupTable(connection, { publicKey, sendTransaction }, new PublicKey(address))
+      if (selectedTable === address) setSelectedTable(null)
+      return [signature]
+    })
+  }
+
+  const selected = tables.find((table) => table.address.toString() === selectedTable)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Address Lookup Tables</CardTitle>
+          <CardDescription>
+            Tables let versioned transactions reference up to {MAX_LOOKUP_TABLE_ADDRESSES} accounts by index
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={loadTables} disabled={isLoading}>
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          <span className="sr-only">Refresh</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button className="w-full" onClick={createTable} disabled={!publicKey || busyAction !== null}>
+          {busyAction === "create" ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Creating...
+            </>
+          ) : (
+            "Create Lookup Table"
+          )}
+        </Button>
+
+        {tables.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground">
+            {isLoading ? "Loading lookup tables..." : "No lookup tables owned by this wallet"}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Addresses</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tables.map((table) => {
+                  const address = table.address.toString()
+                  return (
+                    <TableRow key={address} className={selectedTable === address ? "bg-muted/50" : undefined}>
+                      <TableCell className="font-mono text-xs">{shorten(address)}</TableCell>
+                      <TableCell>{table.account.state.addresses.length}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={STATUS_VARIANTS[table.status]}
+                          title={
+                            table.status === "deactivating"
+                              ? `Closable in about ${table.slotsUntilClosable} slots`
+                              : undefined
+                          }
+                        >
+                          {STATUS_LABELS[table.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {table.status === "active" && (
+                            <>
+                              <Button variant="outline" size="sm" onClick={() => setSelectedTable(address)}>
+                                Extend
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setDeactivateTarget(address)}
+                                disabled={busyAction !== null}
+                              >
+                                Deactivate
+                              </Button>
+                            </>
+                          )}
+                          {table.status !== "active" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => closeTable(address)}
+                              disabled={table.status !== "closable" || busyAction !== null}
+                            >
+                              {busyAction === `close-${address}` ? <Loader2 className="h-4 w-4 animate-spin" /> : "Close"}
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {selected && selected.status === "active" && (
+          <div className="space-y-2 rounded-md border p-3">
+            <Label htmlFor="lookupTableAddresses">Add addresses to {shorten(selected.address.toString())}</Label>
+            <Textarea
+              id="lookupTableAddresses"
+              placeholder="One address per line"
+              rows={4}
+              className="font-mono text-xs"
+              value={addressesInput}
+              onChange={(e) => setAddressesInput(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {MAX_LOOKUP_TABLE_ADDRESSES - selected.account.state.addresses.length} slots left. New addresses can be
+              used from the next slot.
+            </p>
+            <Button className="w-full" onClick={extendTable} disabled={busyAction !== null || !addressesInput.trim()}>
+              {busyAction === "extend" ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Extending...
+                </>
+              ) : (
+                "Extend Table"
+              )}
+            </Button>
+          </div>
+        )}
+
+        {signatures.length > 0 && (
+          <div className="p-3 border rounded-md bg-green-50 dark:bg-green-900 dark:border-green-800 text-xs space-y-1">
+            {signatures.map((sig) => (
+              <TransactionLink key={sig} signature={sig} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={deactivateTarget !== null} onOpenChange={(open) => !open && setDeactivateTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate lookup table?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A deactivated table can no longer be extended or used by new transactions. It can be closed to recover
+              its rent after a cooldown of about 513 slots.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deactivateTarget) deactivateTable(deactivateTarget)
+                setDeactivateTarget(null)
+              }}
+            >
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
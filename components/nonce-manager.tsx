@@ -0,0 +1,292 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js"
+import { Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { TransactionLink } from "@/components/transaction-link"
+import { toastSuccess, toastError } from "@/components/ui/toast"
+import {
+  NonceAccountInfo,
+  getActiveNonceAccount,
+  setActiveNonceAccount,
+  subscribeToActiveNonceAccount,
+} from "@/lib/solana/durable-nonce"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+
+function shorten(value: string) {
+  return `${value.slice(0, 6)}...${value.slice(-6)}`
+}
+
+export default function NonceManager() {
+  const { connection } = useConnection()
+  const { publicKey, sendTransaction } = useWallet()
+
+  const [accounts, setAccounts] = useState<NonceAccountInfo[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [activeAccount, setActiveAccount] = useState<PublicKey | null>(getActiveNonceAccount)
+  const [withdrawTarget, setWithdrawTarget] = useState<string | null>(null)
+  const [withdrawAmount, setWithdrawAmount] = useState("")
+  const [closeTarget, setCloseTarget] = useState<string | null>(null)
+  const [signature, setSignature] = useState<string | null>(null)
+
+  useEffect(() => subscribeToActiveNonceAccount(setActiveAccount), [])
+
+  const loadAccounts = useCallback(async () => {
+    if (!publicKey) {
+      setAccounts([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const { getOwnedNonceAccounts } = await import("@/lib/solana/nonce-accounts")
+      const { getNonceAccountInfo } = await import("@/lib/solana/durable-nonce")
+      const addresses = await getOwnedNonceAccounts(connection, publicKey)
+      setAccounts(await Promise.all(addresses.map((address) => getNonceAccountInfo(connection, address))))
+    } catch (error) {
+      console.error("Error loading nonce accounts:", error)
+      toastError("Failed to load nonce accounts", { id: "load-nonces-error" })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [connection, publicKey])
+
+  useEffect(() => {
+    loadAccounts()
+  }, [loadAccounts])
+
+  // Run a nonce action, show its signature and refresh the list afterwards
+  async function runAction(key: string, successMessage: string, action: () => Promise<string>) {
+    setBusyAction(key)
+    setSignature(null)
+
+    try {
+      setSignature(await action())
+      toastSuccess(successMessage, { id: `nonce-action-success-${Date.now()}` })
+      await loadAccounts()
+    } catch (error) {
+      console.error("Error updating nonce account:", error)
+      toastError(
+        getErrorMessage(error),
+        { id: `nonce-action-error-${Date.now()}` }
+      )
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  function createAccount() {
+    if (!publicKey) return
+    runAction("create", "Nonce account created", async () => {
+      const { createNonceAccount } = await import("@/lib/solana/nonce-accounts")
+      const { signature } = await createNonceAccount(connection, { publicKey, sendTransaction })
+      return signature
+    })
+  }
+
+  function advanceAccount(address: string) {
+    if (!publicKey) return
+    runAction(`advance-${address}`, "Nonce advanced", async () => {
+      const { advanceNonceAccount } = await import("@/lib/solana/nonce-accounts")
+      return advanceNonceAccount(connection, { publicKey, sendTransaction }, new PublicKey(address))
+    })
+  }
+
+  function withdraw(address: string) {
+    if (!publicKey) return
+    const lamports = Math.round(parseFloat(withdrawAmount) * LAMPORTS_PER_SOL)
+    runAction(`withdraw-${address}`, "SOL withdrawn from the nonce account", async () => {
+      const { withdrawFromNonceAccount } = await import("@/lib/solana/nonce-accounts")
+      const sig = await withdrawFromNonceAccount(connection, { publicKey, sendTransaction }, new PublicKey(address), lamports)
+      setWithdrawAmount("")
+      return sig
+    })
+  }
+
+  function closeAccount(address: string) {
+    if (!publicKey) return
+    runAction(`close-${address}`, "Nonce account closed and rent recovered", async () => {
+      const { closeNonceAccount } = await import("@/lib/solana/nonce-accounts")
+      const sig = await closeNonceAccount(connection, { publicKey, sendTransaction }, new PublicKey(address))
+      if (activeAccount?.toString() === address) setActiveNonceAccount(null)
+      return sig
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Durable Nonces</CardTitle>
+          <CardDescription>
+            Transactions built against a nonce stay valid until it is advanced, instead of expiring in about 90
+            seconds. Use one for co-signed or offline-signed transactions.
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={loadAccounts} disabled={isLoading}>
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          <span className="sr-only">Refresh</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button className="w-full" onClick={createAccount} disabled={!publicKey || busyAction !== null}>
+          {busyAction === "create" ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Creating...
+            </>
+          ) : (
+            "Create Nonce Account"
+          )}
+        </Button>
+
+        {accounts.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground">
+            {isLoading ? "Loading nonce accounts..." : "No nonce accounts owned by this wallet"}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Current nonce</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accounts.map((account) => {
+                  const address = account.address.toString()
+                  const isActive = activeAccount?.toString() === address
+                  return (
+                    <TableRow key={address} className={isActive ? "bg-muted/50" : undefined}>
+                      <TableCell className="font-mono text-xs">
+                        {shorten(address)}
+                        {isActive && <Badge variant="success" className="ml-2">In use</Badge>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs" title={account.nonce}>{shorten(account.nonce)}</TableCell>
+                      <TableCell>{(account.lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setActiveNonceAccount(isActive ? null : account.address)}
+                          >
+                            {isActive ? "Stop Using" : "Use"}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => advanceAccount(address)}
+                            disabled={busyAction !== null}
+                          >
+                            {busyAction === `advance-${address}` ? <Loader2 className="h-4 w-4 animate-spin" /> : "Advance"}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setWithdrawTarget(withdrawTarget === address ? null : address)}
+                            disabled={busyAction !== null}
+                          >
+                            Withdraw
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setCloseTarget(address)}
+                            disabled={busyAction !== null}
+                          >
+                            {busyAction === `close-${address}` ? <Loader2 className="h-4 w-4 animate-spin" /> : "Close"}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {withdrawTarget && (
+          <div className="space-y-2 rounded-md border p-3">
+            <Label htmlFor="nonceWithdrawAmount">Withdraw SOL from {shorten(withdrawTarget)}</Label>
+            <div className="flex gap-2">
+              <Input
+                id="nonceWithdrawAmount"
+                type="number"
+                step="any"
+                min="0"
+                placeholder="0.001"
+                value={withdrawAmount}
+                onChange={(e) => setWithdrawAmount(e.target.value)}
+              />
+              <Button
+                onClick={() => withdraw(withdrawTarget)}
+                disabled={busyAction !== null || !withdrawAmount || parseFloat(withdrawAmount) <= 0}
+              >
+                {busyAction === `withdraw-${withdrawTarget}` ? <Loader2 className="h-4 w-4 animate-spin" /> : "Withdraw"}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">The account must stay rent exempt. Close it to withdraw everything.</p>
+          </div>
+        )}
+
+        {activeAccount && (
+          <p className="text-xs text-muted-foreground">
+            New transactions use the nonce in {shorten(activeAccount.toString())} and start by advancing it. Your
+            wallet must be its authority.
+          </p>
+        )}
+
+        {signature && (
+          <div className="p-3 border rounded-md bg-green-50 dark:bg-green-900 dark:border-green-800 text-xs space-y-1">
+            <TransactionLink signature={signature} />
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={closeTarget !== null} onOpenChange={(open) => !open && setCloseTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close nonce account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its balance is returned to your wallet. Transactions signed against its current nonce can no longer land.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (closeTarget) closeAccount(closeTarget)
+                setCloseTarget(null)
+              }}
+            >
+              Close Account
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
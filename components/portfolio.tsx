@@ -0,0 +1,169 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { Loader2, RefreshCw } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { PublicKey } from "@solana/web3.js"
+import { getWalletTokenHoldings, TokenHolding } from "@/lib/solana/portfolio"
+import { decodeTokenAccountBalance, getAccountSubscriptionManager } from "@/lib/solana/account-subscriptions"
+import { formatTokenAmount } from "@/lib/solana/token-helper"
+import { getTokenProgramKind, TOKEN_PROGRAMS } from "@/lib/solana/token-program"
+
+export type PortfolioAction = "mint" | "send" | "burn"
+
+interface PortfolioProps {
+  onQuickAction?: (action: PortfolioAction, mintAddress: string) => void
+}
+
+export default function Portfolio({ onQuickAction }: PortfolioProps) {
+  const { connection } = useConnection()
+  const { publicKey } = useWallet()
+  const [holdings, setHoldings] = useState<TokenHolding[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadHoldings = useCallback(async () => {
+    if (!publicKey) {
+      setHoldings([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      setHoldings(await getWalletTokenHoldings(connection, publicKey))
+    } catch (error) {
+      console.error("Error loading token holdings:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [connection, publicKey])
+
+  useEffect(() => {
+    loadHoldings()
+  }, [loadHoldings])
+
+  // Keep balances and frozen state live; a closed account drops out on the next full load
+  const holdingAccounts = holdings.map((holding) => holding.tokenAccount.toString()).join(",")
+  useEffect(() => {
+    if (!holdingAccounts) return
+
+    const manager = getAccountSubscriptionManager(connection)
+    const unsubscribes = holdingAccounts.split(",").map((address) =>
+      manager.subscribe(new PublicKey(address), (account) => {
+        const balance = account ? decodeTokenAccountBalance(account.data) : null
+        if (!balance) {
+          loadHoldings()
+          return
+        }
+
+        setHoldings((current) =>
+          current.map((holding) =>
+            holding.tokenAccount.toString() === address
+              ? {
+                  ...holding,
+                  amount: balance.amount.toString(),
+                  uiAmount: formatTokenAmount(balance.amount, holding.decimals),
+                  frozen: balance.frozen,
+                }
+              : holding
+          )
+        )
+      })
+    )
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [connection, holdingAccounts, loadHoldings])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Portfolio</CardTitle>
+          <CardDescription>SPL and Token-2022 tokens held by your wallet</CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={loadHoldings} disabled={isLoading}>
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          <span className="sr-only">Refresh</span>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {holdings.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">
+            {isLoading ? "Loading token accounts..." : "No token accounts found"}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Token</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Decimals</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holdings.map((holding) => {
+                  const mintAddress = holding.mint.toString()
+                  return (
+                    <TableRow key={holding.tokenAccount.toString()}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span>{holding.name || "Unknown"}</span>
+                          <span className="text-xs text-muted-foreground">{holding.symbol || "Unknown"}</span>
+                          <span className="font-mono text-xs text-muted-foreground">
+                            {mintAddress.slice(0, 6)}...{mintAddress.slice(-6)}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{holding.uiAmount}</TableCell>
+                      <TableCell>{holding.decimals}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {getTokenProgramKind(holding.programId) === "token-2022" && (
+                            <Badge variant="outline">{TOKEN_PROGRAMS["token-2022"].label}</Badge>
+                          )}
+                          {holding.frozen && <Badge variant="destructive">Frozen</Badge>}
+                          {holding.isMintAuthority && <Badge variant="secondary">Mint Authority</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {holding.isMintAuthority && (
+                            <Button variant="outline" size="sm" onClick={() => onQuickAction?.("mint", mintAddress)}>
+                              Mint
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={holding.amount === "0" || holding.frozen}
+                            onClick={() => onQuickAction?.("send", mintAddress)}
+                          >
+                            Send
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={holding.amount === "0" || holding.frozen}
+                            onClick={() => onQuickAction?.("burn", mintAddress)}
+                          >
+                            Burn
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,253 @@
+"use client"
+
+import { AccountState } from "@solana/spl-token"
+import { PublicKey } from "@solana/web3.js"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { isValidPublicKey } from "@/lib/solana/connection-helper"
+import { toRawTokenAmount } from "@/lib/solana/token-helper"
+import { MintExtensionConfig } from "@/lib/solana/token-extensions"
+
+export interface MintExtensionFormState {
+  transferFeeEnabled: boolean
+  transferFeeBasisPoints: string
+  transferFeeMax: string
+  interestEnabled: boolean
+  interestRate: string
+  nonTransferable: boolean
+  permanentDelegateEnabled: boolean
+  permanentDelegate: string
+  defaultStateEnabled: boolean
+  defaultState: "initialized" | "frozen"
+  closeAuthorityEnabled: boolean
+  closeAuthority: string
+  embeddedMetadata: boolean
+}
+
+export const DEFAULT_MINT_EXTENSION_FORM: MintExtensionFormState = {
+  transferFeeEnabled: false,
+  transferFeeBasisPoints: "50",
+  transferFeeMax: "1000",
+  interestEnabled: false,
+  interestRate: "500",
+  nonTransferable: false,
+  permanentDelegateEnabled: false,
+  permanentDelegate: "",
+  defaultStateEnabled: false,
+  defaultState: "initialized",
+  closeAuthorityEnabled: false,
+  closeAuthority: "",
+  embeddedMetadata: true,
+}
+
+/**
+ * Turn the form state into an extension config, or an error message
+ */
+export function toMintExtensionConfig(
+  form: MintExtensionFormState,
+  decimals: number,
+  metadata: { name: string; symbol: string; uri: string }
+): MintExtensionConfig | string {
+  const config: MintExtensionConfig = {}
+
+  if (form.transferFeeEnabled) {
+    const basisPoints = Number(form.transferFeeBasisPoints)
+    const maxFee = toRawTokenAmount(form.transferFeeMax, decimals)
+    if (maxFee === null) {
+      return `Maximum transfer fee must be a positive amount with at most ${decimals} decimals`
+    }
+    config.transferFee = { basisPoints, maxFee }
+  }
+
+  if (form.interestEnabled) {
+    config.interestBearing = { rate: Number(form.interestRate) }
+  }
+
+  if (form.nonTransferable) {
+    config.nonTransferable = true
+  }
+
+  if (form.permanentDelegateEnabled) {
+    if (!isValidPublicKey(form.permanentDelegate.trim())) {
+      return "Invalid permanent delegate address"
+    }
+    config.permanentDelegate = new PublicKey(form.permanentDelegate.trim())
+  }
+
+  if (form.defaultStateEnabled) {
+    config.defaultAccountState = form.defaultState === "frozen" ? AccountState.Frozen : AccountState.Initialized
+  }
+
+  if (form.closeAuthorityEnabled) {
+    if (!isValidPublicKey(form.closeAuthority.trim())) {
+      return "Invalid mint close authority address"
+    }
+    config.mintCloseAuthority = new PublicKey(form.closeAuthority.trim())
+  }
+
+  if (form.embeddedMetadata) {
+    config.embeddedMetadata = { ...metadata }
+  }
+
+  return config
+}
+
+interface MintExtensionsFormProps {
+  value: MintExtensionFormState
+  onChange: (value: MintExtensionFormState) => void
+  walletAddress?: string
+}
+
+export default function MintExtensionsForm({ value, onChange, walletAddress }: MintExtensionsFormProps) {
+  const update = (patch: Partial<MintExtensionFormState>) => onChange({ ...value, ...patch })
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <p className="text-sm font-medium">Token-2022 Extensions</p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="ext-transfer-fee">Transfer fee</Label>
+          <Switch
+            id="ext-transfer-fee"
+            checked={value.transferFeeEnabled}
+            onCheckedChange={(checked) => update({ transferFeeEnabled: checked })}
+          />
+        </div>
+        {value.transferFeeEnabled && (
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              min="0"
+              max="10000"
+              placeholder="Basis points"
+              value={value.transferFeeBasisPoints}
+              onChange={(e) => update({ transferFeeBasisPoints: e.target.value })}
+            />
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="Max fee (tokens)"
+              value={value.transferFeeMax}
+              onChange={(e) => update({ transferFeeMax: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="ext-interest">Interest-bearing</Label>
+          <Switch
+            id="ext-interest"
+            checked={value.interestEnabled}
+            onCheckedChange={(checked) => update({ interestEnabled: checked })}
+          />
+        </div>
+        {value.interestEnabled && (
+          <Input
+            type="number"
+            placeholder="Rate (basis points per year)"
+            value={value.interestRate}
+            onChange={(e) => update({ interestRate: e.target.value })}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="ext-non-transferable">Non-transferable</Label>
+        <Switch
+          id="ext-non-transferable"
+          checked={value.nonTransferable}
+          onCheckedChange={(checked) => update({ nonTransferable: checked })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="ext-permanent-delegate">Permanent delegate</Label>
+          <Switch
+            id="ext-permanent-delegate"
+            checked={value.permanentDelegateEnabled}
+            onCheckedChange={(checked) =>
+              update({
+                permanentDelegateEnabled: checked,
+                permanentDelegate: value.permanentDelegate || walletAddress || "",
+              })
+            }
+          />
+        </div>
+        {value.permanentDelegateEnabled && (
+          <Input
+            placeholder="Delegate address"
+            value={value.permanentDelegate}
+            onChange={(e) => update({ permanentDelegate: e.target.value })}
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="ext-default-state">Default account state</Label>
+          <Switch
+            id="ext-default-state"
+            checked={value.defaultStateEnabled}
+            onCheckedChange={(checked) => update({ defaultStateEnabled: checked })}
+          />
+        </div>
+        {value.defaultStateEnabled && (
+          <Select
+            value={value.defaultState}
+            onValueChange={(state) => update({ defaultState: state as MintExtensionFormState["defaultState"] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="initialized">Initialized</SelectItem>
+              <SelectItem value="frozen">Frozen</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="ext-close-authority">Mint close authority</Label>
+          <Switch
+            id="ext-close-authority"
+            checked={value.closeAuthorityEnabled}
+            onCheckedChange={(checked) =>
+              update({
+                closeAuthorityEnabled: checked,
+                closeAuthority: value.closeAuthority || walletAddress || "",
+              })
+            }
+          />
+        </div>
+        {value.closeAuthorityEnabled && (
+          <Input
+            placeholder="Close authority address"
+            value={value.closeAuthority}
+            onChange={(e) => update({ closeAuthority: e.target.value })}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="ext-metadata">Metadata pointer with embedded metadata</Label>
+          <p className="text-xs text-muted-foreground">Stores name, symbol and URI in the mint account itself</p>
+        </div>
+        <Switch
+          id="ext-metadata"
+          checked={value.embeddedMetadata}
+          onCheckedChange={(checked) => update({ embeddedMetadata: checked })}
+        />
+      </div>
+    </div>
+  )
+}
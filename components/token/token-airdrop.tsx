@@ -0,0 +1,546 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { PublicKey, Transaction } from "@solana/web3.js"
+import { Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { TransactionLink } from "@/components/transaction-link"
+import { toastSuccess, toastError } from "@/components/ui/toast"
+import { useLocalStorage } from "@/lib/hooks/useLocalStorage"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { useTransactionStore } from "@/lib/stores/transaction-store"
+import { isValidPublicKey } from "@/lib/solana/connection-helper"
+import { getMintWithProgram } from "@/lib/solana/token-program"
+import { getActiveNonceAccount } from "@/lib/solana/durable-nonce"
+import { sendTransactionWithRetry } from "@/lib/solana/transaction-utility"
+import { LookupTableInfo } from "@/lib/solana/lookup-tables"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+import { DryRunError, ReviewCancelledError } from "@/lib/solana/simulation"
+import { reconcileSignatures } from "@/lib/solana/transaction-reconciler"
+import {
+  buildAirdropChunks,
+  getAirdropLookupAddresses,
+  parseAirdropCsv,
+  AirdropParseIssue,
+  AirdropRow,
+  AirdropRowStatus,
+} from "@/lib/solana/airdrop"
+
+// Progress is persisted so an interrupted airdrop can be resumed after a reload
+interface AirdropProgress {
+  mintAddress: string
+  rows: AirdropRow[]
+}
+
+const STATUS_VARIANTS: Record<AirdropRowStatus, "outline" | "secondary" | "success" | "destructive"> = {
+  pending: "outline",
+  sending: "secondary",
+  success: "success",
+  error: "destructive",
+}
+
+// Select value for sending without a lookup table
+const NO_LOOKUP_TABLE = "none"
+
+export default function TokenAirdrop() {
+  const { connection } = useConnection()
+  const { publicKey, sendTransaction } = useWallet()
+  const { cluster } = useCluster()
+  const { addTransaction } = useTransactionStore()
+
+  const [mintAddress, setMintAddress] = useState("")
+  const [csvText, setCsvText] = useState("")
+  const [mintDetails, setMintDetails] = useState<{ decimals: number; programId: PublicKey } | null>(null)
+  const [issues, setIssues] = useState<AirdropParseIssue[]>([])
+  const [progress, setProgress] = useLocalStorage<AirdropProgress | null>("airdropProgress", null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [lookupTables, setLookupTables] = useState<LookupTableInfo[]>([])
+  const [lookupTableAddress, setLookupTableAddress] = useState(NO_LOOKUP_TABLE)
+  const [isExtendingTable, setIsExtendingTable] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Only active tables can be referenced by new transactions
+  const loadLookupTables = useCallback(async () => {
+    if (!publicKey) {
+      setLookupTables([])
+      return
+    }
+
+    try {
+      const { getOwnedLookupTables } = await import("@/lib/solana/lookup-tables")
+      const tables = await getOwnedLookupTables(connection, publicKey)
+      setLookupTables(tables.filter((table) => table.status === "active"))
+    } catch (error) {
+      console.error("Error loading lookup tables:", error)
+    }
+  }, [connection, publicKey])
+
+  useEffect(() => {
+    loadLookupTables()
+  }, [loadLookupTables])
+
+  // Restore the mint of a saved airdrop once so it can be resumed; later
+  // progress updates come from this form and must not override the input
+  const restoredMint = useRef(false)
+  useEffect(() => {
+    if (restoredMint.current || !progress) return
+    restoredMint.current = true
+    setMintAddress(progress.mintAddress)
+  }, [progress])
+
+  useEffect(() => {
+    async function loadMint() {
+      if (!isValidPublicKey(mintAddress)) {
+        setMintDetails(null)
+        return
+      }
+
+      try {
+        const { mintInfo, programId } = await getMintWithProgram(connection, new PublicKey(mintAddress))
+        setMintDetails({ decimals: mintInfo.decimals, programId })
+      } catch (error) {
+        console.error("Error loading mint:", error)
+        setMintDetails(null)
+      }
+    }
+
+    loadMint()
+  }, [mintAddress, connection])
+
+  async function loadFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setCsvText(await file.text())
+    e.target.value = ""
+  }
+
+  function validateCsv() {
+    if (!mintDetails) {
+      toastError("Please enter a valid mint address first", { id: "mint-address-error" })
+      return
+    }
+
+    const { rows, issues } = parseAirdropCsv(csvText, mintDetails.decimals)
+    setIssues(issues)
+
+    if (rows.length === 0) {
+      toastError("No valid rows found in the CSV", { id: "airdrop-csv-error" })
+      setProgress(null)
+      return
+    }
+
+    setProgress({ mintAddress, rows })
+  }
+
+  async function addRecipientsToTable() {
+    if (!publicKey || !progress || !mintDetails || lookupTableAddress === NO_LOOKUP_TABLE) return
+
+    setIsExtendingTable(true)
+
+    try {
+      const { extendLookupTable } = await import("@/lib/solana/lookup-tables")
+      const { added } = await extendLookupTable(
+        connection,
+        { publicKey, sendTransaction },
+        new PublicKey(lookupTableAddress),
+        getAirdropLookupAddresses(
+          publicKey,
+          new PublicKey(progress.mintAddress),
+          mintDetails.programId,
+          progress.rows.filter((row) => row.status !== "success")
+        )
+      )
+
+      toastSuccess(`Added ${added} addresses to the lookup table`, { id: `extend-table-success-${Date.now()}` })
+      await loadLookupTables()
+    } catch (error) {
+      console.error("Error extending lookup table:", error)
+      toastError(
+        getErrorMessage(error),
+        { id: `extend-table-error-${Date.now()}` }
+      )
+    } finally {
+      setIsExtendingTable(false)
+    }
+  }
+
+  // Resolve rows left sending or failed with a signature: landed ones become
+  // successes, failed or expired ones can be sent again. Returns the indexes of
+  // rows whose transaction may still land and must not be re-sent yet.
+  async function reconcileSentRows(rows: AirdropRow[]): Promise<Set<number>> {
+    const sent = new Map<string, number[]>()
+    rows.forEach((row, index) => {
+      if ((row.status !== "sending" && row.status !== "error") || !row.signature) return
+      sent.set(row.signature, [...(sent.get(row.signature) ?? []), index])
+    })
+
+    const inFlight = new Set<number>()
+    if (sent.size === 0) return inFlight
+
+    const results = await reconcileSignatures(
+      connection,
+      Array.from(sent.keys()).map((signature) => ({
+        id: signature,
+        lastValidBlockHeight: rows[sent.get(signature)![0]].lastValidBlockHeight,
+        nonce: rows[sent.get(signature)![0]].nonce,
+      }))
+    )
+    const resolved = new Map(results.map((result) => [result.id, result]))
+
+    sent.forEach((indexes, signature) => {
+      const result = resolved.get(signature)
+      indexes.forEach((index) => {
+        const row = rows[index]
+        if (result?.status === "success") {
+          row.status = "success"
+          row.error = null
+        } else if (result?.status === "error" || result?.status === "expired") {
+          row.status = result.status === "error" ? "error" : "pending"
+          row.error = result.status === "error" ? result.error : null
+          row.signature = null
+          row.lastValidBlockHeight = undefined
+          row.nonce = undefined
+        } else {
+          // Not settled yet, or seen for the first time without a known expiry
+          if (result?.status === "pending") row.lastValidBlockHeight = result.lastValidBlockHeight
+          row.status = "sending"
+          inFlight.add(index)
+        }
+      })
+    })
+
+    return inFlight
+  }
+
+  async function runAirdrop() {
+    if (!publicKey || !progress || !mintDetails) return
+
+    // Work on a local copy and persist after every chunk so progress survives a reload
+    const rows = progress.rows.map((row) => ({ ...row }))
+    const save = () => setProgress({ mintAddress: progress.mintAddress, rows: rows.map((row) => ({ ...row })) })
+
+    setIsRunning(true)
+
+    try {
+      // Rows sent by an earlier run may have landed even if that run never saw
+      // the confirmation, so check their signatures before sending them again
+      const inFlight = await reconcileSentRows(rows)
+      save()
+
+      const remaining = rows
+        .map((row, index) => (row.status === "success" || inFlight.has(index) ? -1 : index))
+        .filter((index) => index >= 0)
+
+      if (inFlight.size > 0) {
+        toastError(
+          `${inFlight.size} recipients have transactions that may still land. Resume again once they expire.`,
+          { id: "airdrop-in-flight" }
+        )
+      }
+
+      if (remaining.length === 0) return
+
+      const mint = new PublicKey(progress.mintAddress)
+
+      // Fetch the table fresh so addresses added since the list loaded are used
+      let lookupTable = null
+      if (lookupTableAddress !== NO_LOOKUP_TABLE) {
+        const { getLookupTable, waitForLookupTableExtension } = await import("@/lib/solana/lookup-tables")
+        lookupTable = await getLookupTable(connection, new PublicKey(lookupTableAddress))
+        await waitForLookupTableExtension(connection, lookupTable)
+      }
+
+      // Read once so every chunk is sized for and sent against the same nonce account
+      const durableNonce = getActiveNonceAccount()
+
+      const chunks = await buildAirdropChunks(
+        connection,
+        publicKey,
+        mint,
+        mintDetails.programId,
+        mintDetails.decimals,
+        rows,
+        remaining,
+        lookupTable,
+        durableNonce
+      )
+
+      let failedChunks = 0
+      let simulatedChunks = 0
+      let cancelled = false
+
+      for (const chunk of chunks) {
+        chunk.rowIndexes.forEach((index) => {
+          rows[index].status = "sending"
+          rows[index].error = null
+        })
+        save()
+
+        try {
+          const signature = await sendTransactionWithRetry(
+            connection,
+            { publicKey, sendTransaction },
+            new Transaction().add(...chunk.instructions),
+            [],
+            {
+              maxRetries: 3,
+              skipPreflight: false,
+              preflightCommitment: "confirmed",
+              confirmCommitment: "confirmed",
+              lookupTables: lookupTable ? [lookupTable] : [],
+              durableNonce,
+              // Record the signature before confirmation so a resume can check it
+              onEvent: (event) => {
+                if (event.type !== "sent") return
+                chunk.rowIndexes.forEach((index) => {
+                  rows[index].signature = event.signature
+                  rows[index].lastValidBlockHeight = event.lastValidBlockHeight
+                  rows[index].nonce = event.nonce ?? undefined
+                })
+                save()
+              },
+            }
+          )
+
+          chunk.rowIndexes.forEach((index) => {
+            rows[index].status = "success"
+            rows[index].signature = signature
+          })
+
+          addTransaction({
+            id: signature,
+            type: "airdrop",
+            tokenName: null,
+            tokenSymbol: null,
+            amount: chunk.rowIndexes.reduce((sum, index) => sum + parseFloat(rows[index].amount), 0),
+            mintAddress: progress.mintAddress,
+            recipient: `${chunk.rowIndexes.length} recipients`,
+            timestamp: Date.now(),
+            cluster: cluster.name,
+            clusterEndpoint: cluster.endpoint,
+            signer: publicKey.toString(),
+            status: "pending",
+          })
+        } catch (error) {
+          // Nothing was sent for a dry run or a rejected review, so the rows stay pending
+          if (error instanceof DryRunError || error instanceof ReviewCancelledError) {
+            chunk.rowIndexes.forEach((index) => {
+              rows[index].status = "pending"
+            })
+          } else {
+            failedChunks++
+            chunk.rowIndexes.forEach((index) => {
+              rows[index].status = "error"
+              rows[index].error = getErrorMessage(error)
+            })
+          }
+
+          // A dry run goes on to simulate the remaining chunks; a rejection stops the airdrop
+          if (error instanceof DryRunError) simulatedChunks++
+          if (error instanceof ReviewCancelledError) cancelled = true
+        }
+
+        save()
+        if (cancelled) break
+      }
+
+      if (cancelled) return
+
+      if (simulatedChunks > 0) {
+        toastSuccess(`Dry run: simulated ${simulatedChunks} of ${chunks.length} transactions`, {
+          id: `airdrop-dry-run-${Date.now()}`,
+        })
+      }
+
+      if (failedChunks === 0) {
+        if (simulatedChunks === 0) {
+          toastSuccess(`Airdrop complete: ${remaining.length} recipients`, { id: `airdrop-success-${Date.now()}` })
+        }
+      } else {
+        toastError(
+          `${failedChunks} of ${chunks.length} transactions failed. Resume to retry the failed rows.`,
+          { id: `airdrop-error-${Date.now()}` }
+        )
+      }
+    } catch (error) {
+      console.error("Error running airdrop:", error)
+      toastError(
+        getErrorMessage(error),
+        { id: `airdrop-error-${Date.now()}` }
+      )
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const rows = progress?.rows ?? []
+  const completed = rows.filter((row) => row.status === "success").length
+  const started = rows.some((row) => row.status !== "pending")
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="airdropMintAddress">Token Mint Address</Label>
+        <Input
+          id="airdropMintAddress"
+          placeholder="Enter token mint address"
+          value={mintAddress}
+          onChange={(e) => setMintAddress(e.target.value)}
+          disabled={isRunning}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="airdropCsv">Recipients (address,amount)</Label>
+          <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" />
+            Upload CSV
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={loadFile} />
+        </div>
+        <Textarea
+          id="airdropCsv"
+          placeholder={"address,amount\nRecipientAddress1,10\nRecipientAddress2,2.5"}
+          rows={6}
+          className="font-mono text-xs"
+          value={csvText}
+          onChange={(e) => setCsvText(e.target.value)}
+          disabled={isRunning}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="airdropLookupTable">Address Lookup Table</Label>
+        <div className="flex gap-2">
+          <Select value={lookupTableAddress} onValueChange={setLookupTableAddress} disabled={isRunning}>
+            <SelectTrigger id="airdropLookupTable">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_LOOKUP_TABLE}>None</SelectItem>
+              {lookupTables.map((table) => (
+                <SelectItem key={table.address.toString()} value={table.address.toString()}>
+                  {table.address.toString().slice(0, 6)}...{table.address.toString().slice(-6)} (
+                  {table.account.state.addresses.length} addresses)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={addRecipientsToTable}
+            disabled={isRunning || isExtendingTable || lookupTableAddress === NO_LOOKUP_TABLE || rows.length === 0}
+          >
+            {isExtendingTable ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Recipients"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Recipients stored in a lookup table take one byte per account, so many more fit in each transaction
+        </p>
+      </div>
+
+      <Button variant="outline" className="w-full" onClick={validateCsv} disabled={isRunning || !csvText}>
+        Validate Recipients
+      </Button>
+
+      {issues.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-xs text-red-600 dark:border-red-900 dark:bg-red-900/20 dark:text-red-400 space-y-1">
+          {issues.map((issue) => (
+            <p key={`${issue.line}-${issue.message}`}>Line {issue.line}: {issue.message}</p>
+          ))}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>{completed} / {rows.length} sent</span>
+              {progress && progress.mintAddress !== mintAddress && (
+                <span className="text-destructive">Saved airdrop is for a different mint</span>
+              )}
+            </div>
+            <Progress value={(completed / rows.length) * 100} />
+          </div>
+
+          <div className="max-h-80 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Signature</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={row.address}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {row.address.slice(0, 6)}...{row.address.slice(-6)}
+                    </TableCell>
+                    <TableCell>{row.amount}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[row.status]} title={row.error ?? undefined}>
+                        {row.status.charAt(0).toUpperCase() + row.status.slice(1)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {row.signature ? <TransactionLink signature={row.signature} /> : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setProgress(null)
+                setIssues([])
+              }}
+              disabled={isRunning}
+            >
+              Clear
+            </Button>
+            <Button
+              onClick={runAirdrop}
+              disabled={
+                isRunning ||
+                !publicKey ||
+                !mintDetails ||
+                progress?.mintAddress !== mintAddress ||
+                completed === rows.length
+              }
+            >
+              {isRunning ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : started ? (
+                "Resume Airdrop"
+              ) : (
+                "Start Airdrop"
+              )}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { PublicKey } from "@solana/web3.js"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { TransactionLink } from "@/components/transaction-link"
+import { toastSuccess, toastError } from "@/components/ui/toast"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { recordTransactionEvents } from "@/lib/stores/transaction-store"
+import { isValidPublicKey } from "@/lib/solana/connection-helper"
+import { getMintAuthorities } from "@/lib/solana/token-helper"
+import type { MintAuthorityKind } from "@/lib/solana/token-operations"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+import { DryRunError, ReviewCancelledError } from "@/lib/solana/simulation"
+
+// Users must type this to confirm a revoke, since it cannot be undone
+const REVOKE_CONFIRMATION = "REVOKE"
+
+const AUTHORITY_LABELS: Record<MintAuthorityKind, string> = {
+  mint: "Mint Authority",
+  freeze: "Freeze Authority",
+}
+
+interface Authorities {
+  mint: PublicKey | null
+  freeze: PublicKey | null
+}
+
+export default function TokenAuthorityManager() {
+  const { connection } = useConnection()
+  const { publicKey, sendTransaction } = useWallet()
+  const { cluster } = useCluster()
+
+  const [mintAddress, setMintAddress] = useState("")
+  const [authorities, setAuthorities] = useState<Authorities | null>(null)
+  const [isFetching, setIsFetching] = useState(false)
+  const [newAuthority, setNewAuthority] = useState<Record<MintAuthorityKind, string>>({ mint: "", freeze: "" })
+  const [pendingAction, setPendingAction] = useState<MintAuthorityKind | null>(null)
+  const [revokeTarget, setRevokeTarget] = useState<MintAuthorityKind | null>(null)
+  const [confirmText, setConfirmText] = useState("")
+  const [signature, setSignature] = useState<string | null>(null)
+
+  const loadAuthorities = useCallback(async () => {
+    if (!isValidPublicKey(mintAddress)) {
+      setAuthorities(null)
+      return
+    }
+
+    setIsFetching(true)
+    try {
+      const { mintAuthority, freezeAuthority } = await getMintAuthorities(connection, mintAddress)
+      setAuthorities({ mint: mintAuthority, freeze: freezeAuthority })
+    } catch (error) {
+      console.error("Error loading authorities:", error)
+      setAuthorities(null)
+    } finally {
+      setIsFetching(false)
+    }
+  }, [connection, mintAddress])
+
+  useEffect(() => {
+    loadAuthorities()
+  }, [loadAuthorities])
+
+  async function updateAuthority(kind: MintAuthorityKind, target: string | null) {
+    if (!publicKey) {
+      toastError("Please connect your wallet", { id: "wallet-connect-error" })
+      return
+    }
+
+    if (target !== null && !isValidPublicKey(target)) {
+      toastError("Invalid new authority address", { id: "invalid-authority-error" })
+      return
+    }
+
+    setPendingAction(kind)
+    setSignature(null)
+
+    try {
+      const { setTokenAuthority } = await import("@/lib/solana/token-operations")
+
+      const sig = await setTokenAuthority(
+        connection,
+        { publicKey, sendTransaction },
+        mintAddress,
+        kind,
+        target,
+        recordTransactionEvents({
+          type: target === null ? "revoke-authority" : "set-authority",
+          tokenName: null,
+          tokenSymbol: null,
+          amount: null,
+          mintAddress,
+          recipient: target,
+          cluster: cluster.name,
+          clusterEndpoint: cluster.endpoint,
+          signer: publicKey.toString(),
+        })
+      )
+
+      setSignature(sig)
+
+      toastSuccess(
+        target === null
+          ? `${AUTHORITY_LABELS[kind]} revoked permanently`
+          : `${AUTHORITY_LABELS[kind]} transferred`,
+        { id: `authority-success-${Date.now()}` }
+      )
+
+      setNewAuthority({ ...newAuthority, [kind]: "" })
+      await loadAuthorities()
+    } catch (error) {
+      // Nothing was sent after a dry run or a rejected review, so there is no error to show
+      if (error instanceof DryRunError || error instanceof ReviewCancelledError) return
+
+      console.error("Error updating authority:", error)
+      toastError(
+        getErrorMessage(error),
+        { id: `authority-error-${Date.now()}` }
+      )
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const closeRevokeDialog = () => {
+    setRevokeTarget(null)
+    setConfirmText("")
+  }
+
+  const renderAuthority = (kind: MintAuthorityKind) => {
+    const current = authorities?.[kind] ?? null
+    const isHolder = !!publicKey && !!current && current.equals(publicKey)
+
+    return (
+      <div key={kind} className="space-y-3 rounded-md border p-4">
+        <div className="flex items-center justify-between">
+          <p className="font-medium">{AUTHORITY_LABELS[kind]}</p>
+          {current === null ? (
+            <Badge variant="destructive">Revoked</Badge>
+          ) : isHolder ? (
+            <Badge variant="success">Your wallet</Badge>
+          ) : (
+            <Badge variant="outline">Other</Badge>
+          )}
+        </div>
+        <code className="block rounded bg-muted px-2 py-1 font-mono text-xs break-all">
+          {current ? current.toString() : "None"}
+        </code>
+
+        {isHolder && (
+          <div className="space-y-2">
+            <Label htmlFor={`${kind}-new-authority`}>New authority address</Label>
+            <div className="flex gap-2">
+              <Input
+                id={`${kind}-new-authority`}
+                placeholder="Enter new authority address"
+                value={newAuthority[kind]}
+                onChange={(e) => setNewAuthority({ ...newAuthority, [kind]: e.target.value })}
+              />
+              <Button
+                onClick={() => updateAuthority(kind, newAuthority[kind].trim())}
+                disabled={pendingAction !== null || !newAuthority[kind]}
+              >
+                {pendingAction === kind ? <Loader2 className="h-4 w-4 animate-spin" /> : "Transfer"}
+              </Button>
+            </div>
+            <Button
+              variant="destructive"
+              className="w-full"
+              onClick={() => setRevokeTarget(kind)}
+              disabled={pendingAction !== null}
+            >
+              Revoke {AUTHORITY_LABELS[kind]}
+            </Button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Manage Authorities</CardTitle>
+        <CardDescription>View, transfer or permanently revoke the mint and freeze authorities of a token</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="authorityMintAddress">Token Mint Address</Label>
+          <Input
+            id="authorityMintAddress"
+            placeholder="Enter token mint address"
+            value={mintAddress}
+            onChange={(e) => setMintAddress(e.target.value)}
+          />
+        </div>
+
+        {isFetching && (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading authorities...
+          </div>
+        )}
+
+        {authorities && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {renderAuthority("mint")}
+            {renderAuthority("freeze")}
+          </div>
+        )}
+
+        {signature && (
+          <div className="p-3 border rounded-md bg-green-50 dark:bg-green-900 dark:border-green-800 text-xs">
+            <p className="font-medium text-green-800 dark:text-green-400 mb-1">Transaction submitted:</p>
+            <TransactionLink signature={signature} />
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={revokeTarget !== null} onOpenChange={(open) => !open && closeRevokeDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Revoke {revokeTarget ? AUTHORITY_LABELS[revokeTarget] : ""}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {revokeTarget === "mint"
+                ? "No one will ever be able to mint this token again. The supply will be fixed permanently."
+                : "No one will ever be able to freeze or thaw accounts of this token again."}{" "}
+              Type {REVOKE_CONFIRMATION} to confirm.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            placeholder={REVOKE_CONFIRMATION}
+            value={confirmText}
+            onChange={(e) => setConfirmText(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={confirmText !== REVOKE_CONFIRMATION}
+              onClick={() => {
+                const kind = revokeTarget
+                closeRevokeDialog()
+                if (kind) updateAuthority(kind, null)
+              }}
+            >
+              Revoke Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,334 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { TransactionLink } from "@/components/transaction-link"
+import { toastSuccess, toastError } from "@/components/ui/toast"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { useTransactionStore } from "@/lib/stores/transaction-store"
+import { isValidPublicKey } from "@/lib/solana/connection-helper"
+import { formatTokenAmount } from "@/lib/solana/token-helper"
+import type { EmptyTokenAccount } from "@/lib/solana/token-operations"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+import { DryRunError, ReviewCancelledError } from "@/lib/solana/simulation"
+import { useMintSupply, useTokenBalance } from "@/lib/hooks/useAccountSubscription"
+
+interface BurnResult {
+  signature: string
+  supplyBefore: string
+  supplyAfter: string
+}
+
+interface TokenBurnerProps {
+  prefillMint?: string
+}
+
+export default function TokenBurner({ prefillMint }: TokenBurnerProps = {}) {
+  const { connection } = useConnection()
+  const { publicKey, sendTransaction } = useWallet()
+  const { cluster } = useCluster()
+  const { addTransaction } = useTransactionStore()
+
+  const [mintAddress, setMintAddress] = useState("")
+  const [amount, setAmount] = useState("")
+  const [isBurning, setIsBurning] = useState(false)
+  const [burnResult, setBurnResult] = useState<BurnResult | null>(null)
+
+  const [emptyAccounts, setEmptyAccounts] = useState<EmptyTokenAccount[] | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [isClosing, setIsClosing] = useState(false)
+  const [closeResult, setCloseResult] = useState<{ signatures: string[]; sol: number } | null>(null)
+
+  // Pick up a mint chosen from the portfolio
+  useEffect(() => {
+    if (prefillMint) setMintAddress(prefillMint)
+  }, [prefillMint])
+
+  // Show the live supply and balance so the user can see what the burn will change
+  const mintSupply = useMintSupply(mintAddress)
+  const currentSupply = mintSupply ? formatTokenAmount(mintSupply.supply, mintSupply.decimals) : null
+  const tokenBalance = useTokenBalance(mintAddress, publicKey)
+
+  async function burn(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+
+    if (!publicKey) {
+      toastError("Please connect your wallet", { id: "wallet-connect-error" })
+      return
+    }
+
+    if (!isValidPublicKey(mintAddress)) {
+      toastError("Please enter a valid mint address", { id: "mint-address-error" })
+      return
+    }
+
+    setIsBurning(true)
+    setBurnResult(null)
+
+    try {
+      const { burnTokens } = await import("@/lib/solana/token-operations")
+
+      const result = await burnTokens(connection, { publicKey, sendTransaction }, mintAddress, amount)
+
+      const supplyAfter = formatTokenAmount(result.supplyAfter, result.decimals)
+      setBurnResult({
+        signature: result.signature,
+        supplyBefore: formatTokenAmount(result.supplyBefore, result.decimals),
+        supplyAfter,
+      })
+
+      addTransaction({
+        id: result.signature,
+        type: "burn",
+        tokenName: null,
+        tokenSymbol: null,
+        amount: parseFloat(amount),
+        mintAddress,
+        recipient: null,
+        timestamp: Date.now(),
+        cluster: cluster.name,
+        clusterEndpoint: cluster.endpoint,
+        signer: publicKey.toString(),
+        status: "pending",
+      })
+
+      toastSuccess("Tokens burned successfully!", { id: `burn-success-${Date.now()}` })
+      setAmount("")
+    } catch (error) {
+      // Nothing was sent after a dry run or a rejected review, so there is no error to show
+      if (error instanceof DryRunError || error instanceof ReviewCancelledError) return
+
+      console.error("Error burning tokens:", error)
+      toastError(
+        getErrorMessage(error),
+        { id: `burn-error-${Date.now()}` }
+      )
+    } finally {
+      setIsBurning(false)
+    }
+  }
+
+  async function scanEmptyAccounts() {
+    if (!publicKey) return
+
+    setIsScanning(true)
+    setCloseResult(null)
+
+    try {
+      const { getEmptyTokenAccounts } = await import("@/lib/solana/token-operations")
+      setEmptyAccounts(await getEmptyTokenAccounts(connection, publicKey))
+    } catch (error) {
+      console.error("Error scanning token accounts:", error)
+      toastError("Failed to load token accounts", { id: "scan-accounts-error" })
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  async function closeEmptyAccounts() {
+    if (!publicKey || !emptyAccounts || emptyAccounts.length === 0) return
+
+    setIsClosing(true)
+
+    try {
+      const { closeTokenAccounts } = await import("@/lib/solana/token-operations")
+
+      const { signatures, lamportsRecovered } = await closeTokenAccounts(
+        connection,
+        { publicKey, sendTransaction },
+        emptyAccounts
+      )
+
+      signatures.forEach((sig) =>
+        addTransaction({
+          id: sig,
+          type: "close",
+          tokenName: null,
+          tokenSymbol: null,
+          amount: null,
+          mintAddress: "",
+          recipient: publicKey.toString(),
+          timestamp: Date.now(),
+          cluster: cluster.name,
+          clusterEndpoint: cluster.endpoint,
+          signer: publicKey.toString(),
+          status: "pending",
+        })
+      )
+
+      const sol = lamportsRecovered / LAMPORTS_PER_SOL
+      setCloseResult({ signatures, sol })
+      setEmptyAccounts([])
+      toastSuccess(`Recovered ${sol.toFixed(6)} SOL`, { id: `close-success-${Date.now()}` })
+    } catch (error) {
+      // After a dry run every batch has been simulated and the accounts stay listed
+      if (error instanceof DryRunError) return
+      // A rejected batch stops the run; rescan to see which accounts are left
+      if (error instanceof ReviewCancelledError) {
+        await scanEmptyAccounts()
+        return
+      }
+
+      console.error("Error closing token accounts:", error)
+      toastError(
+        getErrorMessage(error),
+        { id: `close-error-${Date.now()}` }
+      )
+    } finally {
+      setIsClosing(false)
+    }
+  }
+
+  const reclaimableSol = (emptyAccounts ?? []).reduce((sum, account) => sum + account.lamports, 0) / LAMPORTS_PER_SOL
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Burn Tokens</CardTitle>
+          <CardDescription>Permanently remove tokens from your wallet and the total supply</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={burn} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="burnMintAddress">Token Mint Address</Label>
+              <Input
+                id="burnMintAddress"
+                placeholder="Enter token mint address"
+                value={mintAddress}
+                onChange={(e) => setMintAddress(e.target.value)}
+                required
+              />
+              {currentSupply !== null && (
+                <p className="text-xs text-muted-foreground">Current supply: {currentSupply}</p>
+              )}
+              {tokenBalance && (
+                <p className="text-xs text-muted-foreground">
+                  Your balance: {formatTokenAmount(tokenBalance.amount, tokenBalance.decimals)}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="burnAmount">Amount</Label>
+              <Input
+                id="burnAmount"
+                type="number"
+                step="any"
+                min="0"
+                placeholder="Enter amount to burn"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+
+            <Button
+              type="submit"
+              variant="destructive"
+              className="w-full"
+              disabled={isBurning || !publicKey || !mintAddress || !amount || parseFloat(amount) <= 0}
+            >
+              {isBurning ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Burning...
+                </>
+              ) : (
+                "Burn Tokens"
+              )}
+            </Button>
+          </form>
+
+          {burnResult && (
+            <div className="mt-4 p-3 border rounded-md bg-green-50 dark:bg-green-900 dark:border-green-800 text-xs space-y-1">
+              <p className="font-medium text-green-800 dark:text-green-400">
+                Supply: {burnResult.supplyBefore} → {burnResult.supplyAfter}
+              </p>
+              <TransactionLink signature={burnResult.signature} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Close Empty Accounts</CardTitle>
+          <CardDescription>Close token accounts with a zero balance and recover their rent</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button variant="outline" className="w-full" onClick={scanEmptyAccounts} disabled={isScanning || !publicKey}>
+            {isScanning ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Scanning...
+              </>
+            ) : (
+              "Find Empty Accounts"
+            )}
+          </Button>
+
+          {emptyAccounts && emptyAccounts.length === 0 && !closeResult && (
+            <p className="text-center text-sm text-muted-foreground">No empty token accounts found</p>
+          )}
+
+          {emptyAccounts && emptyAccounts.length > 0 && (
+            <>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Mint</TableHead>
+                      <TableHead>Rent (SOL)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {emptyAccounts.map((account) => (
+                      <TableRow key={account.address.toString()}>
+                        <TableCell className="font-mono text-xs">
+                          {account.address.toString().slice(0, 6)}...{account.address.toString().slice(-6)}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {account.mint.toString().slice(0, 6)}...{account.mint.toString().slice(-6)}
+                        </TableCell>
+                        <TableCell>{(account.lamports / LAMPORTS_PER_SOL).toFixed(6)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <Button className="w-full" onClick={closeEmptyAccounts} disabled={isClosing}>
+                {isClosing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Closing...
+                  </>
+                ) : (
+                  `Close ${emptyAccounts.length} Account${emptyAccounts.length === 1 ? "" : "s"} (${reclaimableSol.toFixed(6)} SOL)`
+                )}
+              </Button>
+            </>
+          )}
+
+          {closeResult && (
+            <div className="p-3 border rounded-md bg-green-50 dark:bg-green-900 dark:border-green-800 text-xs space-y-1">
+              <p className="font-medium text-green-800 dark:text-green-400">
+                Recovered {closeResult.sol.toFixed(6)} SOL
+              </p>
+              {closeResult.signatures.map((sig) => (
+                <TransactionLink key={sig} signature={sig} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -5,30 +5,90 @@ import { useWallet } from "@solana/wallet-adapter-react"
 import { 
   createInitializeMintInstruction, 
   MINT_SIZE,
-  TOKEN_PROGRAM_ID,
   getMinimumBalanceForRentExemptMint,
 } from "@solana/spl-token"
-import { Keypair, SystemProgram, Transaction } from "@solana/web3.js"
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js"
 import toast from "react-hot-toast"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import MintExtensionsForm, {
+  DEFAULT_MINT_EXTENSION_FORM,
+  MintExtensionFormState,
+  toMintExtensionConfig,
+} from "@/components/token/mint-extensions-form"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { useTransactionStore } from "@/lib/stores/transaction-store"
-import { getCachedConnection } from "@/lib/solana/connection-helper"
-import { Loader2, Copy, Check } from "lucide-react"
+import { recordTransactionEvents } from "@/lib/stores/transaction-store"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { getCachedConnection, isValidPublicKey } from "@/lib/solana/connection-helper"
+import {
+  createMetadataAccountV3Instruction,
+  validateTokenMetadata,
+  MAX_CREATOR_LIMIT,
+  MAX_URI_LENGTH,
+  TokenMetadataCreator,
+} from "@/lib/solana/token-metadata"
+import { MAX_MINT_DECIMALS, TOKEN_PROGRAMS, TokenProgramKind } from "@/lib/solana/token-program"
+import { DryRunError, ReviewCancelledError } from "@/lib/solana/simulation"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+import {
+  buildCreateMintWithExtensionsInstructions,
+  describeMintExtensionConfig,
+  validateMintExtensionConfig,
+  MintExtensionConfig,
+} from "@/lib/solana/token-extensions"
+import { Loader2, Copy, Check, Plus, Trash2 } from "lucide-react"
 
 // Cache validation patterns for performance
 const NAME_PATTERN = /^[a-zA-Z0-9 ]{1,32}$/;
 const SYMBOL_PATTERN = /^[a-zA-Z0-9]{1,10}$/;
-const DECIMALS_PATTERN = /^([0-9]|1[0-9]|2[0-5])$/;
+const SELLER_FEE_PATTERN = /^([0-9]{1,4}|10000)$/;
+
+const isValidDecimals = (value: string) => /^[0-9]{1,2}$/.test(value) && Number(value) <= MAX_MINT_DECIMALS;
+
+interface CreatorRow {
+  address: string
+  share: string
+}
+
+interface MintReview {
+  mintKeypair: Keypair
+  instructions: TransactionInstruction[]
+  space: number
+  lamports: number
+  summary: string[]
+}
 
 export default function TokenCreator() {
   // States for token attributes - optimized for minimal re-renders
   const [name, setName] = useState("")
   const [symbol, setSymbol] = useState("")
   const [decimals, setDecimals] = useState("9")
+  const [tokenProgram, setTokenProgram] = useState<TokenProgramKind>("spl-token")
+  const [uri, setUri] = useState("")
+  const [sellerFee, setSellerFee] = useState("0")
+  // Empty means the connected wallet is the sole creator
+  const [creators, setCreators] = useState<CreatorRow[]>([])
+  const [extensionForm, setExtensionForm] = useState<MintExtensionFormState>(DEFAULT_MINT_EXTENSION_FORM)
+  const [extensionError, setExtensionError] = useState<string | null>(null)
+  const [preparing, setPreparing] = useState(false)
+  const [review, setReview] = useState<MintReview | null>(null)
   
   // Create a single transaction state object for better performance
   const [txState, setTxState] = useState({
@@ -42,26 +102,91 @@ export default function TokenCreator() {
   const [validation, setValidation] = useState({
     nameValid: true,
     symbolValid: true,
-    decimalsValid: true
+    decimalsValid: true,
+    uriValid: true,
+    sellerFeeValid: true,
+    creatorsError: null as string | null,
   });
 
   // Get wallet connection - only when needed
   const { publicKey, signTransaction, connected } = useWallet()
-  const { addTransaction } = useTransactionStore()
+  const { cluster } = useCluster()
+
+  // Resolve the creator rows into metadata creators, defaulting to the wallet
+  const buildCreators = useCallback((): TokenMetadataCreator[] | string => {
+    if (!publicKey) return "Please connect your wallet first";
+
+    if (creators.length === 0) {
+      return [{ address: publicKey, verified: true, share: 100 }];
+    }
+
+    const resolved: TokenMetadataCreator[] = [];
+    for (const row of creators) {
+      if (!isValidPublicKey(row.address.trim())) {
+        return `Invalid creator address: ${row.address || "(empty)"}`;
+      }
+      const address = new PublicKey(row.address.trim());
+      resolved.push({
+        address,
+        // Only the signing wallet can be marked verified at creation time
+        verified: address.equals(publicKey),
+        share: Number(row.share),
+      });
+    }
+    return resolved;
+  }, [creators, publicKey]);
 
   // Fast validation using regex
   const validateInputs = useCallback(() => {
     const nameValid = NAME_PATTERN.test(name);
     const symbolValid = SYMBOL_PATTERN.test(symbol);
-    const decimalsValid = DECIMALS_PATTERN.test(decimals);
+    const decimalsValid = isValidDecimals(decimals);
+    const uriValid = uri.length <= MAX_URI_LENGTH;
+    const sellerFeeValid = SELLER_FEE_PATTERN.test(sellerFee);
+
+    let creatorsError: string | null = null;
+    const resolvedCreators = buildCreators();
+    if (typeof resolvedCreators === "string") {
+      creatorsError = resolvedCreators;
+    } else if (nameValid && symbolValid && uriValid && sellerFeeValid) {
+      creatorsError = validateTokenMetadata({
+        name,
+        symbol,
+        uri,
+        sellerFeeBasisPoints: Number(sellerFee),
+        creators: resolvedCreators,
+      });
+    }
     
-    setValidation({ nameValid, symbolValid, decimalsValid });
+    setValidation({ nameValid, symbolValid, decimalsValid, uriValid, sellerFeeValid, creatorsError });
     
-    return nameValid && symbolValid && decimalsValid;
-  }, [name, symbol, decimals]);
+    return nameValid && symbolValid && decimalsValid && uriValid && sellerFeeValid && !creatorsError;
+  }, [name, symbol, decimals, uri, sellerFee, buildCreators]);
+
+  const updateCreator = (index: number, field: keyof CreatorRow, value: string) => {
+    setCreators(creators.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    if (validation.creatorsError) {
+      setValidation({ ...validation, creatorsError: null });
+    }
+  };
+
+  const addCreator = () => {
+    if (creators.length >= MAX_CREATOR_LIMIT) return;
+    // Seed the first row with the wallet so the default is visible and editable
+    setCreators(
+      creators.length === 0 && publicKey
+        ? [{ address: publicKey.toString(), share: "100" }, { address: "", share: "0" }]
+        : [...creators, { address: "", share: "0" }]
+    );
+  };
+
+  const removeCreator = (index: number) => {
+    setCreators(creators.filter((_, i) => i !== index));
+  };
 
   // Optimized token creation with transaction batching
-  const createToken = useCallback(async () => {
+  // Build the mint instructions and open the review dialog before signing
+  const prepareToken = useCallback(async () => {
     if (!connected || !publicKey || !signTransaction) {
       toast.error("Please connect your wallet first")
       return
@@ -71,75 +196,163 @@ export default function TokenCreator() {
       return;
     }
 
-    setTxState({
-      creating: true,
-      success: false,
-      error: false,
-      mintAddress: ""
-    });
+    const mintDecimals = parseInt(decimals);
+    const metadataFields = { name, symbol, uri };
+    let extensionConfig: MintExtensionConfig | null = null;
+
+    if (tokenProgram === "token-2022") {
+      const result = toMintExtensionConfig(extensionForm, mintDecimals, metadataFields);
+      if (typeof result === "string") {
+        setExtensionError(result);
+        return;
+      }
+      const configError = validateMintExtensionConfig(result, publicKey);
+      if (configError) {
+        setExtensionError(configError);
+        return;
+      }
+      extensionConfig = result;
+    }
+    setExtensionError(null);
+    setPreparing(true);
 
     try {
-      // Start a loading toast for better user feedback
-      const loadingToast = toast.loading("Creating your token...");
-      
       // Prepare optimized token creation
-      const connection = getCachedConnection("https://api.devnet.solana.com");
+      const connection = getCachedConnection(cluster.endpoint, 'processed', cluster.wsEndpoint);
       
       // Generate keypair outside of transaction for better performance
       const mintKeypair = Keypair.generate();
-      const mintAddress = mintKeypair.publicKey.toString();
-      
-      // Pre-calculate minimum rent outside of transaction creation
-      const lamports = await getMinimumBalanceForRentExemptMint(connection);
-
-      // Build optimized transaction
-      const transaction = new Transaction().add(
-        SystemProgram.createAccount({
-          fromPubkey: publicKey,
-          newAccountPubkey: mintKeypair.publicKey,
-          space: MINT_SIZE,
-          lamports,
-          programId: TOKEN_PROGRAM_ID,
-        }),
-        createInitializeMintInstruction(
+      const programId = TOKEN_PROGRAMS[tokenProgram].programId;
+      const resolvedCreators = buildCreators() as TokenMetadataCreator[];
+
+      // Write Metaplex metadata so wallets and explorers can display the token,
+      // unless the metadata is embedded in the Token-2022 mint itself
+      const metaplexInstruction = createMetadataAccountV3Instruction(
+        mintKeypair.publicKey,
+        publicKey,
+        publicKey,
+        publicKey,
+        {
+          ...metadataFields,
+          sellerFeeBasisPoints: Number(sellerFee),
+          creators: resolvedCreators,
+        }
+      );
+
+      let instructions: TransactionInstruction[];
+      let space: number;
+      let lamports: number;
+      let extensionSummary: string[] = [];
+
+      if (extensionConfig) {
+        const plan = await buildCreateMintWithExtensionsInstructions(
+          connection,
+          publicKey,
           mintKeypair.publicKey,
-          parseInt(decimals),
+          mintDecimals,
           publicKey,
           publicKey,
-        )
-      );
-
-      // Small optimization: set recent blockhash and feePayer in one step
-      transaction.recentBlockhash = (await connection.getLatestBlockhash('confirmed')).blockhash;
-      transaction.feePayer = publicKey;
+          extensionConfig
+        );
+        instructions = extensionConfig.embeddedMetadata
+          ? plan.instructions
+          : [...plan.instructions, metaplexInstruction];
+        space = plan.space;
+        lamports = plan.lamports;
+        extensionSummary = describeMintExtensionConfig(extensionConfig, mintDecimals);
+      } else {
+        // Pre-calculate minimum rent outside of transaction creation
+        space = MINT_SIZE;
+        lamports = await getMinimumBalanceForRentExemptMint(connection);
+        instructions = [
+          SystemProgram.createAccount({
+            fromPubkey: publicKey,
+            newAccountPubkey: mintKeypair.publicKey,
+            space,
+            lamports,
+            programId,
+          }),
+          createInitializeMintInstruction(
+            mintKeypair.publicKey,
+            mintDecimals,
+            publicKey,
+            publicKey,
+            programId,
+          ),
+          metaplexInstruction,
+        ];
+      }
 
-      // Sign the transaction for faster processing
-      const signedTx = await signTransaction(transaction);
-      
-      // Add keypair signature outside of signing session for speed
-      signedTx.partialSign(mintKeypair);
-      
-      // Optimize send with preflight disabled for speed
-      const txid = await connection.sendRawTransaction(signedTx.serialize(), {
-        skipPreflight: true,
-        preflightCommitment: 'confirmed',
-      });
-      
-      // Log transaction for history
-      addTransaction({
-        id: txid,
-        status: "success",
-        type: "create",
-        tokenName: name,
-        tokenSymbol: symbol,
-        amount: null,
-        mintAddress: mintAddress,
-        recipient: null,
-        timestamp: Date.now(),
+      setReview({
+        mintKeypair,
+        instructions,
+        space,
+        lamports,
+        summary: [
+          `Program: ${TOKEN_PROGRAMS[tokenProgram].label}`,
+          `Name: ${name} (${symbol})`,
+          `Decimals: ${mintDecimals}`,
+          `Mint authority: ${publicKey.toString()}`,
+          `Freeze authority: ${publicKey.toString()}`,
+          ...(extensionConfig?.embeddedMetadata ? [] : [`Metaplex metadata: ${uri || "(no URI)"}, ${sellerFee} bps seller fee`]),
+          ...extensionSummary,
+        ],
       });
+    } catch (err: any) {
+      console.error("Error preparing token:", err);
+      toast.error(err.message || "Failed to prepare token");
+    } finally {
+      setPreparing(false);
+    }
+  }, [publicKey, signTransaction, connected, name, symbol, decimals, tokenProgram, uri, sellerFee, extensionForm, validateInputs, buildCreators, cluster]);
+
+  // Sign and send the reviewed mint transaction
+  const createToken = useCallback(async () => {
+    if (!connected || !publicKey || !signTransaction || !review) {
+      return
+    }
+
+    const { mintKeypair, instructions } = review;
+    setReview(null);
+
+    setTxState({
+      creating: true,
+      success: false,
+      error: false,
+      mintAddress: ""
+    });
+
+    try {
+      const connection = getCachedConnection(cluster.endpoint, 'processed', cluster.wsEndpoint);
+      const mintAddress = mintKeypair.publicKey.toString();
+
+      // The engine adds the priority fee, shows the simulation review, has the
+      // wallet sign, adds the mint keypair's signature and confirms
+      const { executeTransaction } = await import("@/lib/solana/transaction-engine");
+      await executeTransaction(
+        connection,
+        { publicKey, signTransaction },
+        instructions,
+        {
+          signers: [mintKeypair],
+          maxRetries: 3,
+          preflightCommitment: 'confirmed',
+          label: `Create ${symbol}`,
+          // Log the transaction for history as soon as it is sent, with its real signature
+          onEvent: recordTransactionEvents({
+            type: "create",
+            tokenName: name,
+            tokenSymbol: symbol,
+            amount: null,
+            mintAddress: mintAddress,
+            recipient: null,
+            cluster: cluster.name,
+            clusterEndpoint: cluster.endpoint,
+            signer: publicKey.toString(),
+          }),
+        }
+      );
 
-      // Close loading toast and show success
-      toast.dismiss(loadingToast);
       toast.success("Token created successfully!");
       
       // Update state with success
@@ -154,10 +367,25 @@ export default function TokenCreator() {
       setName("");
       setSymbol("");
       setDecimals("9");
+      setUri("");
+      setSellerFee("0");
+      setCreators([]);
+      setExtensionForm(DEFAULT_MINT_EXTENSION_FORM);
       
     } catch (err: any) {
+      // Nothing was sent after a dry run or a rejected review, so there is nothing to record
+      if (err instanceof DryRunError || err instanceof ReviewCancelledError) {
+        setTxState({
+          creating: false,
+          success: false,
+          error: false,
+          mintAddress: ""
+        });
+        return;
+      }
+
       console.error("Error creating token:", err);
-      toast.error(err.message || "Failed to create token");
+      toast.error(getErrorMessage(err));
       
       // Update state with error
       setTxState({
@@ -166,21 +394,8 @@ export default function TokenCreator() {
         error: true,
         mintAddress: ""
       });
-      
-      // Log failed transaction
-      addTransaction({
-        id: "failed_tx_" + Date.now(),
-        status: "error",
-        type: "create",
-        tokenName: name,
-        tokenSymbol: symbol,
-        amount: null,
-        mintAddress: "ERROR",
-        recipient: null,
-        timestamp: Date.now(),
-      });
     }
-  }, [publicKey, signTransaction, connected, name, symbol, decimals, addTransaction, validateInputs]);
+  }, [publicKey, signTransaction, connected, name, symbol, review, cluster]);
 
   const [copied, setCopied] = useState(false);
 
@@ -197,7 +412,7 @@ export default function TokenCreator() {
     <Card className="w-full">
       <CardHeader>
         <CardTitle>Create Token</CardTitle>
-        <CardDescription>Create a new SPL token on Solana devnet</CardDescription>
+        <CardDescription>Create a new SPL token on Solana {cluster.label}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="grid gap-2">
@@ -253,14 +468,132 @@ export default function TokenCreator() {
             value={decimals}
             onChange={(e) => {
               setDecimals(e.target.value);
-              if (!validation.decimalsValid && DECIMALS_PATTERN.test(e.target.value)) {
+              if (!validation.decimalsValid && isValidDecimals(e.target.value)) {
                 setValidation({...validation, decimalsValid: true});
               }
             }}
             className={validation.decimalsValid ? "" : "border-destructive focus-visible:ring-destructive"}
           />
           {!validation.decimalsValid && (
-            <p className="text-sm text-destructive">Decimals must be a number between 0 and 25</p>
+            <p className="text-sm text-destructive">Decimals must be a number between 0 and {MAX_MINT_DECIMALS}</p>
+          )}
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="tokenProgram">Token Program</Label>
+          <Select value={tokenProgram} onValueChange={(value) => setTokenProgram(value as TokenProgramKind)}>
+            <SelectTrigger id="tokenProgram">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TOKEN_PROGRAMS) as TokenProgramKind[]).map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {TOKEN_PROGRAMS[kind].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {tokenProgram === "token-2022" && (
+          <div className="grid gap-2">
+            <MintExtensionsForm
+              value={extensionForm}
+              onChange={(value) => {
+                setExtensionForm(value);
+                setExtensionError(null);
+              }}
+              walletAddress={publicKey?.toString()}
+            />
+            {extensionError && (
+              <p className="text-sm text-destructive">{extensionError}</p>
+            )}
+          </div>
+        )}
+        <div className="grid gap-2">
+          <Label htmlFor="uri" className={validation.uriValid ? "" : "text-destructive"}>
+            Metadata URI
+          </Label>
+          <Input
+            id="uri"
+            placeholder="https://example.com/token.json"
+            value={uri}
+            onChange={(e) => {
+              setUri(e.target.value);
+              if (!validation.uriValid && e.target.value.length <= MAX_URI_LENGTH) {
+                setValidation({...validation, uriValid: true});
+              }
+            }}
+            className={validation.uriValid ? "" : "border-destructive focus-visible:ring-destructive"}
+          />
+          {!validation.uriValid && (
+            <p className="text-sm text-destructive">URI must be at most {MAX_URI_LENGTH} characters</p>
+          )}
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="sellerFee" className={validation.sellerFeeValid ? "" : "text-destructive"}>
+            Seller Fee (basis points)
+          </Label>
+          <Input
+            id="sellerFee"
+            type="number"
+            min="0"
+            max="10000"
+            placeholder="0"
+            value={sellerFee}
+            onChange={(e) => {
+              setSellerFee(e.target.value);
+              if (!validation.sellerFeeValid && SELLER_FEE_PATTERN.test(e.target.value)) {
+                setValidation({...validation, sellerFeeValid: true});
+              }
+            }}
+            className={validation.sellerFeeValid ? "" : "border-destructive focus-visible:ring-destructive"}
+          />
+          {!validation.sellerFeeValid && (
+            <p className="text-sm text-destructive">Seller fee must be between 0 and 10000 basis points</p>
+          )}
+        </div>
+        <div className="grid gap-2">
+          <div className="flex items-center justify-between">
+            <Label className={validation.creatorsError ? "text-destructive" : ""}>Creators</Label>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addCreator}
+              disabled={creators.length >= MAX_CREATOR_LIMIT}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Creator
+            </Button>
+          </div>
+          {creators.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Your wallet will be the sole verified creator (100%)</p>
+          ) : (
+            creators.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  placeholder="Creator address"
+                  value={row.address}
+                  onChange={(e) => updateCreator(index, "address", e.target.value)}
+                  className="flex-1"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="Share %"
+                  value={row.share}
+                  onChange={(e) => updateCreator(index, "share", e.target.value)}
+                  className="w-24"
+                />
+                <Button type="button" variant="ghost" size="icon" onClick={() => removeCreator(index)}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove creator</span>
+                </Button>
+              </div>
+            ))
+          )}
+          {validation.creatorsError && (
+            <p className="text-sm text-destructive">{validation.creatorsError}</p>
           )}
         </div>
       </CardContent>
@@ -309,22 +642,56 @@ export default function TokenCreator() {
       
       <CardFooter>
         <Button 
-          onClick={createToken} 
-          disabled={txState.creating || !connected}
+          onClick={prepareToken} 
+          disabled={txState.creating || preparing || !connected}
           className="w-full"
         >
-          {txState.creating ? (
+          {txState.creating || preparing ? (
             <>
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Creating...
+              {preparing ? "Preparing..." : "Creating..."}
             </>
           ) : connected ? (
-            "Create Token"  
+            "Review & Create Token"  
           ) : (
             "Connect Wallet First"
           )}
         </Button>
       </CardFooter>
+
+      <Dialog open={review !== null} onOpenChange={(open) => !open && setReview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Review Mint Configuration</DialogTitle>
+            <DialogDescription>
+              Check the configuration below. Most of it cannot be changed after the mint is created.
+            </DialogDescription>
+          </DialogHeader>
+          {review && (
+            <div className="space-y-3 text-sm">
+              <code className="block rounded bg-muted px-2 py-1 font-mono text-xs break-all">
+                {review.mintKeypair.publicKey.toString()}
+              </code>
+              <ul className="space-y-1">
+                {review.summary.map((line) => (
+                  <li key={line} className="break-all">{line}</li>
+                ))}
+              </ul>
+              <div className="text-muted-foreground">
+                <p>Account size: {review.space} bytes</p>
+                <p>Rent deposit: {(review.lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL</p>
+                <p>Instructions: {review.instructions.length}</p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReview(null)}>
+              Cancel
+            </Button>
+            <Button onClick={createToken}>Sign & Create</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
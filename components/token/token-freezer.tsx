@@ -0,0 +1,251 @@
+"use client"
+
+import { useState } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { TransactionLink } from "@/components/transaction-link"
+import { toastSuccess, toastError } from "@/components/ui/toast"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { useTransactionStore } from "@/lib/stores/transaction-store"
+import { isValidPublicKey } from "@/lib/solana/connection-helper"
+import type { TokenAccountFreezeState } from "@/lib/solana/token-operations"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+import { DryRunError, ReviewCancelledError } from "@/lib/solana/simulation"
+
+/**
+ * Split pasted addresses on commas, whitespace or newlines
+ */
+function parseTargets(value: string): string[] {
+  return Array.from(new Set(value.split(/[\s,]+/).map((part) => part.trim()).filter(Boolean)))
+}
+
+export default function TokenFreezer() {
+  const { connection } = useConnection()
+  const { publicKey, sendTransaction } = useWallet()
+  const { cluster } = useCluster()
+  const { addTransaction } = useTransactionStore()
+
+  const [mintAddress, setMintAddress] = useState("")
+  const [targetsInput, setTargetsInput] = useState("")
+  const [accounts, setAccounts] = useState<TokenAccountFreezeState[]>([])
+  const [isChecking, setIsChecking] = useState(false)
+  const [pendingAction, setPendingAction] = useState<"freeze" | "thaw" | null>(null)
+  const [signatures, setSignatures] = useState<string[]>([])
+
+  const activeAccounts = accounts.filter((account) => account.exists && !account.frozen)
+  const frozenAccounts = accounts.filter((account) => account.exists && account.frozen)
+
+  async function checkAccounts() {
+    if (!isValidPublicKey(mintAddress)) {
+      toastError("Please enter a valid mint address", { id: "mint-address-error" })
+      return
+    }
+
+    const targets = parseTargets(targetsInput)
+    if (targets.length === 0) {
+      toastError("Please enter at least one owner or token account", { id: "targets-error" })
+      return
+    }
+
+    const invalid = targets.filter((target) => !isValidPublicKey(target))
+    if (invalid.length > 0) {
+      toastError(`Invalid address: ${invalid[0]}`, { id: "invalid-target-error" })
+      return
+    }
+
+    setIsChecking(true)
+    try {
+      const { getTokenAccountFreezeStates } = await import("@/lib/solana/token-operations")
+      setAccounts(await getTokenAccountFreezeStates(connection, mintAddress, targets))
+    } catch (error) {
+      console.error("Error checking token accounts:", error)
+      toastError(
+        error instanceof Error ? error.message : "Failed to check token accounts",
+        { id: "check-accounts-error" }
+      )
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  async function applyFreeze(freeze: boolean) {
+    if (!publicKey) {
+      toastError("Please connect your wallet", { id: "wallet-connect-error" })
+      return
+    }
+
+    const selected = freeze ? activeAccounts : frozenAccounts
+    if (selected.length === 0) return
+
+    setPendingAction(freeze ? "freeze" : "thaw")
+    setSignatures([])
+
+    try {
+      const { setTokenAccountsFrozen, getTokenAccountFreezeStates } = await import("@/lib/solana/token-operations")
+
+      const sigs = await setTokenAccountsFrozen(
+        connection,
+        { publicKey, sendTransaction },
+        mintAddress,
+        selected.map((account) => account.tokenAccount),
+        freeze
+      )
+
+      setSignatures(sigs)
+
+      sigs.forEach((sig) =>
+        addTransaction({
+          id: sig,
+          type: freeze ? "freeze" : "thaw",
+          tokenName: null,
+          tokenSymbol: null,
+          amount: null,
+          mintAddress,
+          recipient: null,
+          timestamp: Date.now(),
+          cluster: cluster.name,
+          clusterEndpoint: cluster.endpoint,
+          signer: publicKey.toString(),
+          status: "pending",
+        })
+      )
+
+      toastSuccess(
+        `${freeze ? "Froze" : "Thawed"} ${selected.length} account${selected.length === 1 ? "" : "s"}`,
+        { id: `freeze-success-${Date.now()}` }
+      )
+
+      // Refresh the table so it reflects the new on-chain state
+      setAccounts(await getTokenAccountFreezeStates(connection, mintAddress, accounts.map((account) => account.input)))
+    } catch (error) {
+      // After a dry run every batch has been simulated and the table is unchanged
+      if (error instanceof DryRunError) return
+      // A rejected batch stops the run; refresh the table to show what changed before it
+      if (error instanceof ReviewCancelledError) {
+        await checkAccounts()
+        return
+      }
+
+      console.error("Error updating freeze state:", error)
+      toastError(
+        getErrorMessage(error),
+        { id: `freeze-error-${Date.now()}` }
+      )
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Freeze &amp; Thaw Accounts</CardTitle>
+        <CardDescription>Freeze or thaw token accounts using your wallet&apos;s freeze authority</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="freezeMintAddress">Token Mint Address</Label>
+          <Input
+            id="freezeMintAddress"
+            placeholder="Enter token mint address"
+            value={mintAddress}
+            onChange={(e) => setMintAddress(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="freezeTargets">Owners or Token Accounts</Label>
+          <Textarea
+            id="freezeTargets"
+            placeholder="One address per line"
+            rows={4}
+            value={targetsInput}
+            onChange={(e) => setTargetsInput(e.target.value)}
+          />
+        </div>
+
+        <Button variant="outline" className="w-full" onClick={checkAccounts} disabled={isChecking}>
+          {isChecking ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Checking...
+            </>
+          ) : (
+            "Check Accounts"
+          )}
+        </Button>
+
+        {accounts.length > 0 && (
+          <>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Input</TableHead>
+                    <TableHead>Token Account</TableHead>
+                    <TableHead>State</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {accounts.map((account) => (
+                    <TableRow key={account.tokenAccount.toString()}>
+                      <TableCell className="font-mono text-xs">
+                        {account.input.slice(0, 6)}...{account.input.slice(-6)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {account.tokenAccount.toString().slice(0, 6)}...{account.tokenAccount.toString().slice(-6)}
+                      </TableCell>
+                      <TableCell>
+                        {!account.exists ? (
+                          <Badge variant="outline">No account</Badge>
+                        ) : account.frozen ? (
+                          <Badge variant="destructive">Frozen</Badge>
+                        ) : (
+                          <Badge variant="success">Active</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="destructive"
+                onClick={() => applyFreeze(true)}
+                disabled={pendingAction !== null || activeAccounts.length === 0}
+              >
+                {pendingAction === "freeze" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Freeze {activeAccounts.length} Active
+              </Button>
+              <Button
+                onClick={() => applyFreeze(false)}
+                disabled={pendingAction !== null || frozenAccounts.length === 0}
+              >
+                {pendingAction === "thaw" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Thaw {frozenAccounts.length} Frozen
+              </Button>
+            </div>
+          </>
+        )}
+
+        {signatures.length > 0 && (
+          <div className="p-3 border rounded-md bg-green-50 dark:bg-green-900 dark:border-green-800 text-xs space-y-1">
+            <p className="font-medium text-green-800 dark:text-green-400">Transactions submitted:</p>
+            {signatures.map((sig) => (
+              <TransactionLink key={sig} signature={sig} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,16 +2,17 @@
 
 import { useState, useEffect } from 'react'
 import { useConnection, useWallet } from '@solana/wallet-adapter-react'
-import { PublicKey, Connection } from '@solana/web3.js'
-import * as web3 from '@solana/web3.js'
-import { getMint } from '@solana/spl-token'
+import { PublicKey } from '@solana/web3.js'
 import { Loader2, Copy, Check } from 'lucide-react'
 import { Button, Label, Input, Alert, AlertTitle, AlertDescription } from '@/components/ui'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui'
 import { TransactionLink } from '@/components/transaction-link'
-import { useTransactionStore } from '@/lib/stores/transaction-store'
-import { isMintAuthority, getTokenDecimals } from '@/lib/solana/token-helper'
-import { sendTransactionWithRetry } from '@/lib/solana/transaction-utility'
+import { useCluster } from '@/components/wallet/cluster-provider'
+import { recordTransactionEvents } from '@/lib/stores/transaction-store'
+import { isMintAuthority, getTokenDecimals, toRawTokenAmount } from '@/lib/solana/token-helper'
+import { getMintWithProgram } from '@/lib/solana/token-program'
+import { getErrorMessage } from '@/lib/solana/program-errors'
+import { DryRunError, ReviewCancelledError } from '@/lib/solana/simulation'
 import { 
   CustomToaster, 
   setToastDefaults, 
@@ -21,54 +22,14 @@ import {
   toastLoading 
 } from '@/components/ui/toast'
 
-/**
- * Confirm a transaction with exponential backoff retry strategy for better reliability
- */
-async function confirmTransactionWithExponentialBackoff(
-  connection: Connection,
-  signature: string,
-  timeoutMs: number = 90000
-): Promise<web3.RpcResponseAndContext<web3.SignatureResult>> {
-  const startTime = Date.now();
-  
-  let done = false;
-  let retries = 0;
-  let confirmResult: web3.RpcResponseAndContext<web3.SignatureResult> | null = null;
-  
-  // Keep polling until timeout
-  while (!done && Date.now() - startTime < timeoutMs) {
-    try {
-      // For each attempt, use a simple status check rather than blockhash verification
-      // This avoids the expired blockhash issue
-      confirmResult = await connection.confirmTransaction(signature, 'confirmed');
-      
-      // If we got a result, we're done
-      done = true;
-    } catch (error) {
-      // If we hit an error, increment retry counter but continue
-      console.log(`Confirmation attempt ${retries + 1} failed:`, error);
-    }
-    
-    if (!done) {
-      // Exponential backoff with a minimum of 1s and max of 10s
-      const delay = Math.min(1000 * Math.pow(1.5, retries), 10000);
-      retries++;
-      console.log(`Waiting ${delay}ms before retry ${retries}`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  if (confirmResult === null) {
-    throw new Error(`Transaction confirmation timed out after ${timeoutMs}ms`);
-  }
-  
-  return confirmResult;
+interface TokenMinterProps {
+  prefillMint?: string
 }
 
-export function TokenMinter() {
+export function TokenMinter({ prefillMint }: TokenMinterProps = {}) {
   const { connection } = useConnection()
   const { publicKey, sendTransaction } = useWallet()
-  const { addTransaction } = useTransactionStore()
+  const { cluster } = useCluster()
   
   // Initialize toast defaults
   useEffect(() => {
@@ -84,6 +45,11 @@ export function TokenMinter() {
   const [copied, setCopied] = useState(false)
   const [loadingToastId, setLoadingToastId] = useState<string | null>(null)
 
+  // Pick up a mint chosen from the portfolio
+  useEffect(() => {
+    if (prefillMint) setMintAddress(prefillMint)
+  }, [prefillMint])
+
   // Check if connected wallet is the mint authority for the token
   useEffect(() => {
     async function checkMintAuth() {
@@ -96,7 +62,7 @@ export function TokenMinter() {
         const mintPubkey = new PublicKey(mintAddress)
         
         // Get mint info to check decimals
-        const mintInfo = await getMint(connection, mintPubkey)
+        const { mintInfo } = await getMintWithProgram(connection, mintPubkey)
         setTokenDecimals(mintInfo.decimals)
         
         // Check mint authority
@@ -142,20 +108,25 @@ export function TokenMinter() {
       return
     }
 
-    const amountNum = parseFloat(amount)
-    if (isNaN(amountNum) || amountNum <= 0) {
-      toastError('Please enter a valid amount greater than 0', { id: `amount-error-${Date.now()}` })
+    // Convert without floating point so large or precise amounts keep every digit
+    const rawAmount = toRawTokenAmount(amount, tokenDecimals)
+    if (rawAmount === null || rawAmount <= BigInt(0)) {
+      toastError(
+        `Please enter a valid amount greater than 0 with at most ${tokenDecimals} decimals`,
+        { id: `amount-error-${Date.now()}` }
+      )
       return
     }
+    const amountNum = parseFloat(amount)
 
     setIsLoading(true)
     setSignature(null)
 
+    // Generate a unique ID for this minting operation and store it in state
+    const newToastId = `mint-loading-${Date.now()}`
+    setLoadingToastId(newToastId)
+
     try {
-      // Generate a unique ID for this minting operation and store it in state
-      const newToastId = `mint-loading-${Date.now()}`
-      setLoadingToastId(newToastId)
-      
       // Show loading toast with the stored ID
       toastLoading('Preparing to mint tokens...', { id: newToastId })
 
@@ -167,11 +138,6 @@ export function TokenMinter() {
 
       // Import and mint tokens
       const { mintTokens } = await import('@/lib/solana/token-operations')
-      
-      // Calculate exact amount with decimal places
-      // This is critical for proper token minting
-      const decimalMultiplier = Math.pow(10, tokenDecimals)
-      const rawAmount = Math.floor(amountNum * decimalMultiplier)
 
       // Update loading message for transaction using the same ID
       toastLoading('Please approve the transaction in your wallet...', { id: newToastId })
@@ -183,7 +149,19 @@ export function TokenMinter() {
           sendTransaction: sendTransaction,
         },
         mintAddress,
-        rawAmount.toString()
+        rawAmount.toString(),
+        // Add to transaction history as soon as it is sent, with its real signature
+        recordTransactionEvents({
+          type: 'mint',
+          tokenName: null,
+          tokenSymbol: null,
+          amount: amountNum,
+          mintAddress: mintAddress,
+          recipient: publicKey.toString(),
+          cluster: cluster.name,
+          clusterEndpoint: cluster.endpoint,
+          signer: publicKey.toString(),
+        })
       )
 
       // Update loading message for confirmation using the same ID
@@ -191,19 +169,6 @@ export function TokenMinter() {
 
       // Update state
       setSignature(sig)
-      
-      // Add to transaction history
-      addTransaction({
-        id: sig,
-        type: 'mint',
-        tokenName: null,
-        tokenSymbol: null,
-        amount: amountNum,
-        mintAddress: mintAddress,
-        recipient: publicKey.toString(),
-        timestamp: Date.now(),
-        status: 'success',
-      })
 
       // Clear loading toast and show success
       toast.dismiss(newToastId)
@@ -213,16 +178,17 @@ export function TokenMinter() {
       setAmount("")
       
     } catch (error) {
+      // Dismiss the loading toast
+      toast.dismiss(newToastId)
+
+      // Nothing was sent after a dry run or a rejected review, so there is no error to show
+      if (error instanceof DryRunError || error instanceof ReviewCancelledError) return
+
       console.error('Error minting token:', error)
       
-      // Dismiss the loading toast if it exists
-      if (loadingToastId) {
-        toast.dismiss(loadingToastId)
-      }
-      
       // Show error toast with better styling
       toastError(
-        error instanceof Error ? error.message : 'Failed to mint tokens', 
+        getErrorMessage(error), 
         { id: `mint-error-${Date.now()}` }
       )
     } finally {
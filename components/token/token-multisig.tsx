@@ -0,0 +1,595 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { PublicKey } from "@solana/web3.js"
+import { Check, Copy, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { TransactionLink } from "@/components/transaction-link"
+import { toastSuccess, toastError } from "@/components/ui/toast"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { useTransactionStore, TransactionType, UNKNOWN_SIGNER } from "@/lib/stores/transaction-store"
+import { isValidPublicKey } from "@/lib/solana/connection-helper"
+import { TOKEN_PROGRAMS, TokenProgramKind } from "@/lib/solana/token-program"
+import type { MintAuthorityKind } from "@/lib/solana/token-operations"
+import {
+  broadcastMultisigTransaction,
+  buildMultisigTransaction,
+  cosignTransaction,
+  createMultisig,
+  decodeTransaction,
+  encodeTransaction,
+  getMultisigAccount,
+  getMultisigSigners,
+  reviewMultisigTransaction,
+  MultisigAction,
+  MultisigTransactionReview,
+} from "@/lib/solana/multisig"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+import { DryRunError, ReviewCancelledError } from "@/lib/solana/simulation"
+
+type ActionKind = MultisigAction["kind"]
+
+const ACTION_LABELS: Record<ActionKind, string> = {
+  mint: "Mint tokens",
+  burn: "Burn tokens",
+  "set-authority": "Change authority",
+}
+
+interface MultisigMembers {
+  threshold: number
+  signers: string[]
+}
+
+// Map the token instruction in a reviewed transaction to a history entry
+function getHistoryEntry(review: MultisigTransactionReview): { type: TransactionType; mintAddress: string; recipient: string | null } | null {
+  for (const instruction of review.instructions) {
+    const detail = (label: string) => instruction.details.find((entry) => entry.label === label)?.value ?? null
+    if (instruction.name === "MintToChecked" || instruction.name === "MintTo") {
+      return { type: "mint", mintAddress: detail("Mint") ?? "", recipient: detail("To account") }
+    }
+    if (instruction.name === "BurnChecked" || instruction.name === "Burn") {
+      return { type: "burn", mintAddress: detail("Mint") ?? "", recipient: null }
+    }
+    if (instruction.name === "SetAuthority") {
+      const newAuthority = detail("New authority")
+      const revoked = newAuthority === null || newAuthority.startsWith("None")
+      return { type: revoked ? "revoke-authority" : "set-authority", mintAddress: detail("Account") ?? "", recipient: revoked ? null : newAuthority }
+    }
+  }
+  return null
+}
+
+export default function TokenMultisig() {
+  const { connection } = useConnection()
+  const { publicKey, sendTransaction, signTransaction } = useWallet()
+  const { cluster } = useCluster()
+  const { addTransaction } = useTransactionStore()
+
+  // Create
+  const [signersInput, setSignersInput] = useState("")
+  const [threshold, setThreshold] = useState("2")
+  const [tokenProgram, setTokenProgram] = useState<TokenProgramKind>("spl-token")
+  const [isCreating, setIsCreating] = useState(false)
+  const [created, setCreated] = useState<{ multisig: string; signature: string } | null>(null)
+
+  // Build
+  const [multisigAddress, setMultisigAddress] = useState("")
+  const [members, setMembers] = useState<MultisigMembers | null>(null)
+  const [cosigners, setCosigners] = useState<string[]>([])
+  const [actionKind, setActionKind] = useState<ActionKind>("mint")
+  const [mintAddress, setMintAddress] = useState("")
+  const [amount, setAmount] = useState("")
+  const [destination, setDestination] = useState("")
+  const [authorityKind, setAuthorityKind] = useState<MintAuthorityKind>("mint")
+  const [newAuthority, setNewAuthority] = useState("")
+  const [isBuilding, setIsBuilding] = useState(false)
+
+  // Co-sign
+  const [encoded, setEncoded] = useState("")
+  const [review, setReview] = useState<MultisigTransactionReview | null>(null)
+  const [isSigning, setIsSigning] = useState(false)
+  const [isBroadcasting, setIsBroadcasting] = useState(false)
+  const [broadcastSignature, setBroadcastSignature] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // Start the signer list with the connected wallet
+  useEffect(() => {
+    if (publicKey) setSignersInput((current) => current || publicKey.toString())
+  }, [publicKey])
+
+  // Load the members of the multisig the transaction is built for
+  useEffect(() => {
+    async function loadMembers() {
+      setMembers(null)
+      setCosigners([])
+      if (!isValidPublicKey(multisigAddress)) return
+
+      try {
+        const account = await getMultisigAccount(connection, new PublicKey(multisigAddress))
+        if (!account) return
+
+        const signers = getMultisigSigners(account.multisig).map((signer) => signer.toString())
+        setMembers({ threshold: account.multisig.m, signers })
+
+        // Default to the connected wallet plus the first other members up to the threshold
+        const wallet = publicKey?.toString()
+        const ordered = wallet && signers.includes(wallet) ? [wallet, ...signers.filter((signer) => signer !== wallet)] : signers
+        setCosigners(ordered.slice(0, account.multisig.m))
+      } catch (error) {
+        console.error("Error loading multisig:", error)
+      }
+    }
+
+    loadMembers()
+  }, [multisigAddress, connection, publicKey])
+
+  // Decode whatever transaction is pasted in for review. A review that resolves
+  // after the input changed again is dropped, so it can't replace a newer one.
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadReview() {
+      if (!encoded.trim()) {
+        setReview(null)
+        return
+      }
+
+      try {
+        const result = await reviewMultisigTransaction(connection, decodeTransaction(encoded))
+        if (!cancelled) setReview(result)
+      } catch (error) {
+        console.error("Error decoding transaction:", error)
+        if (!cancelled) setReview(null)
+      }
+    }
+
+    loadReview()
+
+    return () => {
+      cancelled = true
+    }
+  }, [encoded, connection])
+
+  const signerList = signersInput.split(/[\s,]+/).filter(Boolean)
+  const invalidSigner = signerList.find((signer) => !isValidPublicKey(signer))
+
+  async function createMultisigAccount(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+
+    if (!publicKey) {
+      toastError("Please connect your wallet", { id: "wallet-connect-error" })
+      return
+    }
+
+    if (invalidSigner) {
+      toastError(`Invalid signer address: ${invalidSigner}`, { id: "multisig-signer-error" })
+      return
+    }
+
+    setIsCreating(true)
+    setCreated(null)
+
+    try {
+      const result = await createMultisig(
+        connection,
+        { publicKey, sendTransaction },
+        signerList,
+        parseInt(threshold, 10),
+        TOKEN_PROGRAMS[tokenProgram].programId
+      )
+
+      setCreated({ multisig: result.multisig.toString(), signature: result.signature })
+      setMultisigAddress(result.multisig.toString())
+      toastSuccess("Multisig created. Assign it as an authority from the Authorities tab", { id: `multisig-success-${Date.now()}` })
+    } catch (error) {
+      console.error("Error creating multisig:", error)
+      toastError(getErrorMessage(error), { id: `multisig-error-${Date.now()}` })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  async function buildTransaction(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+
+    if (!publicKey) {
+      toastError("Please connect your wallet", { id: "wallet-connect-error" })
+      return
+    }
+
+    const action: MultisigAction =
+      actionKind === "mint"
+        ? { kind: "mint", mint: mintAddress, destination, amount }
+        : actionKind === "burn"
+          ? { kind: "burn", mint: mintAddress, amount }
+          : { kind: "set-authority", mint: mintAddress, authorityKind, newAuthority: newAuthority.trim() || null }
+
+    setIsBuilding(true)
+    setBroadcastSignature(null)
+
+    try {
+      setEncoded(await buildMultisigTransaction(connection, publicKey, multisigAddress, cosigners, action))
+      toastSuccess("Transaction built. Sign it and pass it on to the other co-signers", { id: `multisig-build-${Date.now()}` })
+    } catch (error) {
+      console.error("Error building multisig transaction:", error)
+      toastError(getErrorMessage(error), { id: `multisig-build-error-${Date.now()}` })
+    } finally {
+      setIsBuilding(false)
+    }
+  }
+
+  async function sign() {
+    if (!publicKey || !signTransaction || !review) {
+      toastError("Please connect a wallet that can sign transactions", { id: "wallet-connect-error" })
+      return
+    }
+
+    setIsSigning(true)
+    try {
+      const signed = await cosignTransaction({ publicKey, signTransaction }, review.transaction)
+      setEncoded(encodeTransaction(signed))
+      toastSuccess("Signature added", { id: `multisig-sign-${Date.now()}` })
+    } catch (error) {
+      console.error("Error signing transaction:", error)
+      toastError(getErrorMessage(error), { id: `multisig-sign-error-${Date.now()}` })
+    } finally {
+      setIsSigning(false)
+    }
+  }
+
+  async function broadcast() {
+    if (!review?.complete) return
+
+    setIsBroadcasting(true)
+    try {
+      const { signature, lastValidBlockHeight } = await broadcastMultisigTransaction(connection, review.transaction)
+      setBroadcastSignature(signature)
+
+      const entry = getHistoryEntry(review)
+      if (entry) {
+        addTransaction({
+          id: signature,
+          type: entry.type,
+          tokenName: null,
+          tokenSymbol: null,
+          amount: null,
+          mintAddress: entry.mintAddress,
+          recipient: entry.recipient,
+          timestamp: Date.now(),
+          cluster: cluster.name,
+          clusterEndpoint: cluster.endpoint,
+          signer: review.feePayer?.toString() ?? publicKey?.toString() ?? UNKNOWN_SIGNER,
+          status: "pending",
+          lastValidBlockHeight,
+        })
+      }
+
+      toastSuccess("Multisig transaction confirmed", { id: `multisig-broadcast-${Date.now()}` })
+    } catch (error) {
+      // Nothing was sent after a dry run or a rejected review, so there is no error to show
+      if (error instanceof DryRunError || error instanceof ReviewCancelledError) return
+
+      console.error("Error broadcasting transaction:", error)
+      toastError(getErrorMessage(error), { id: `multisig-broadcast-error-${Date.now()}` })
+    } finally {
+      setIsBroadcasting(false)
+    }
+  }
+
+  const copyEncoded = () => {
+    navigator.clipboard.writeText(encoded).then(() => {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    })
+  }
+
+  const toggleCosigner = (signer: string, checked: boolean) => {
+    setCosigners(checked ? [...cosigners, signer] : cosigners.filter((entry) => entry !== signer))
+  }
+
+  const walletMustSign = !!publicKey && !!review?.signatures.some((entry) => entry.publicKey.equals(publicKey) && !entry.signed)
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Multisig</CardTitle>
+          <CardDescription>An M-of-N account that can hold mint or freeze authority</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={createMultisigAccount} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="multisigSigners">Signers (one address per line, up to 11)</Label>
+              <Textarea
+                id="multisigSigners"
+                rows={4}
+                className="font-mono text-xs"
+                value={signersInput}
+                onChange={(e) => setSignersInput(e.target.value)}
+              />
+              {invalidSigner && <p className="text-xs text-red-500">Invalid address: {invalidSigner}</p>}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="multisigThreshold">Required signatures</Label>
+                <Input
+                  id="multisigThreshold"
+                  type="number"
+                  min="1"
+                  max={Math.max(1, signerList.length)}
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="multisigProgram">Token Program</Label>
+                <Select value={tokenProgram} onValueChange={(value) => setTokenProgram(value as TokenProgramKind)}>
+                  <SelectTrigger id="multisigProgram">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TOKEN_PROGRAMS) as TokenProgramKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {TOKEN_PROGRAMS[kind].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={isCreating || !publicKey || signerList.length === 0 || !!invalidSigner}>
+              {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Create {threshold || "?"}-of-{signerList.length} Multisig
+            </Button>
+          </form>
+
+          {created && (
+            <div className="mt-4 p-3 border rounded-md bg-green-50 dark:bg-green-900 dark:border-green-800 text-xs space-y-1">
+              <p className="font-medium text-green-800 dark:text-green-400">Multisig address</p>
+              <code className="block font-mono break-all">{created.multisig}</code>
+              <TransactionLink signature={created.signature} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Build Multisig Transaction</CardTitle>
+          <CardDescription>
+            Prepare a mint, burn or authority change for co-signers. Without a durable nonce selected in the Nonces
+            tab, it must be fully signed within about a minute of building, before its blockhash expires.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={buildTransaction} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="multisigAddress">Multisig Address</Label>
+              <Input
+                id="multisigAddress"
+                placeholder="Enter multisig address"
+                value={multisigAddress}
+                onChange={(e) => setMultisigAddress(e.target.value)}
+                required
+              />
+              {isValidPublicKey(multisigAddress) && !members && (
+                <p className="text-xs text-muted-foreground">Not a token multisig account</p>
+              )}
+            </div>
+
+            {members && (
+              <div className="space-y-2">
+                <Label>
+                  Co-signers ({cosigners.length} selected, {members.threshold} of {members.signers.length} required)
+                </Label>
+                {members.signers.map((signer) => (
+                  <div key={signer} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`cosigner-${signer}`}
+                      checked={cosigners.includes(signer)}
+                      onCheckedChange={(checked) => toggleCosigner(signer, checked === true)}
+                    />
+                    <label htmlFor={`cosigner-${signer}`} className="font-mono text-xs break-all">
+                      {signer}
+                      {publicKey?.toString() === signer && " (you)"}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="multisigAction">Action</Label>
+                <Select value={actionKind} onValueChange={(value) => setActionKind(value as ActionKind)}>
+                  <SelectTrigger id="multisigAction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACTION_LABELS) as ActionKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {ACTION_LABELS[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="multisigMint">Token Mint Address</Label>
+                <Input
+                  id="multisigMint"
+                  placeholder="Enter token mint address"
+                  value={mintAddress}
+                  onChange={(e) => setMintAddress(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            {actionKind === "set-authority" ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="multisigAuthorityKind">Authority</Label>
+                  <Select value={authorityKind} onValueChange={(value) => setAuthorityKind(value as MintAuthorityKind)}>
+                    <SelectTrigger id="multisigAuthorityKind">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mint">Mint Authority</SelectItem>
+                      <SelectItem value="freeze">Freeze Authority</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="multisigNewAuthority">New authority (empty revokes it)</Label>
+                  <Input
+                    id="multisigNewAuthority"
+                    placeholder="Enter new authority address"
+                    value={newAuthority}
+                    onChange={(e) => setNewAuthority(e.target.value)}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="multisigAmount">Amount</Label>
+                  <Input
+                    id="multisigAmount"
+                    type="number"
+                    step="any"
+                    min="0"
+                    placeholder="1.0"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    required
+                  />
+                </div>
+                {actionKind === "mint" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="multisigDestination">Recipient Wallet</Label>
+                    <Input
+                      id="multisigDestination"
+                      placeholder="Enter recipient wallet address"
+                      value={destination}
+                      onChange={(e) => setDestination(e.target.value)}
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isBuilding || !publicKey || !members || cosigners.length < members.threshold}
+            >
+              {isBuilding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Build Transaction
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Co-sign and Broadcast</CardTitle>
+          <CardDescription>Paste a transaction from another co-signer, review it, sign and pass it on</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="multisigEncoded">Transaction (base64)</Label>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={copyEncoded} disabled={!encoded}>
+                {copied ? <Check className="h-3 w-3 mr-1" /> : <Copy className="h-3 w-3 mr-1" />}
+                Copy
+              </Button>
+            </div>
+            <Textarea
+              id="multisigEncoded"
+              rows={4}
+              className="font-mono text-xs break-all"
+              value={encoded}
+              onChange={(e) => setEncoded(e.target.value)}
+            />
+            {encoded.trim() && !review && (
+              <p className="text-xs text-red-500">Not a valid transaction, or a signature doesn&apos;t match its contents</p>
+            )}
+          </div>
+
+          {review && (
+            <>
+              <div className="space-y-2">
+                {review.instructions.map((instruction, index) => (
+                  <div key={index} className="rounded-md border p-3 text-xs space-y-1">
+                    <p className="font-medium">
+                      {index + 1}. {instruction.name}{" "}
+                      <span className="text-muted-foreground">({instruction.program})</span>
+                    </p>
+                    {instruction.details.map((detail) => (
+                      <p key={detail.label} className="break-all">
+                        <span className="text-muted-foreground">{detail.label}:</span>{" "}
+                        <span className="font-mono">{detail.value}</span>
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Signer</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {review.signatures.map((entry) => (
+                    <TableRow key={entry.publicKey.toString()}>
+                      <TableCell className="font-mono text-xs break-all">
+                        {entry.publicKey.toString()}
+                        {review.feePayer?.equals(entry.publicKey) && (
+                          <Badge variant="outline" className="ml-2">Fee payer</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.signed ? "success" : "secondary"}>{entry.signed ? "Signed" : "Pending"}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="grid grid-cols-2 gap-4">
+                <Button variant="outline" onClick={sign} disabled={!walletMustSign || isSigning}>
+                  {isSigning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  Sign with Wallet
+                </Button>
+                <Button onClick={broadcast} disabled={!review.complete || isBroadcasting}>
+                  {isBroadcasting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  Broadcast
+                </Button>
+              </div>
+            </>
+          )}
+
+          {broadcastSignature && (
+            <div className="p-3 border rounded-md bg-green-50 dark:bg-green-900 dark:border-green-800 text-xs">
+              <TransactionLink signature={broadcastSignature} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
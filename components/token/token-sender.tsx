@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { useWallet, useConnection } from "@solana/wallet-adapter-react"
 import * as web3 from "@solana/web3.js"
 import * as token from "@solana/spl-token"
@@ -12,20 +12,31 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import TokenAirdrop from "@/components/token/token-airdrop"
 import { 
   toastSuccess, 
   toastError, 
   toastLoading,
   toast
 } from '@/components/ui/toast'
-import { useTransactionStore } from "@/lib/stores/transaction-store"
-import { sendTransactionWithRetry, getErrorMessage } from "@/lib/solana/transaction-utility"
-import { getOrCreateAssociatedTokenAccount } from "@/lib/solana/token-helper"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { recordTransactionEvents } from "@/lib/stores/transaction-store"
+import { getExplorerUrl } from "@/lib/solana/cluster"
+import { sendTransactionWithRetry } from "@/lib/solana/transaction-utility"
+import { formatTokenAmount, getOrCreateAssociatedTokenAccount } from "@/lib/solana/token-helper"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+import { DryRunError, ReviewCancelledError } from "@/lib/solana/simulation"
+import { useTokenBalance } from "@/lib/hooks/useAccountSubscription"
 
-export default function TokenSender() {
+interface TokenSenderProps {
+  prefillMint?: string
+}
+
+export default function TokenSender({ prefillMint }: TokenSenderProps = {}) {
   const { connection } = useConnection()
   const { publicKey, sendTransaction } = useWallet()
-  const { addTransaction } = useTransactionStore()
+  const { cluster } = useCluster()
 
   const [mintAddress, setMintAddress] = useState("")
   const [recipientAddress, setRecipientAddress] = useState("")
@@ -33,6 +44,12 @@ export default function TokenSender() {
   const [isLoading, setIsLoading] = useState(false)
   const [txSignature, setTxSignature] = useState<string | null>(null)
   const [copied, setCopied] = useState(false)
+  const tokenBalance = useTokenBalance(mintAddress, publicKey)
+
+  // Pick up a mint chosen from the portfolio
+  useEffect(() => {
+    if (prefillMint) setMintAddress(prefillMint)
+  }, [prefillMint])
 
   const sendToken = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -79,9 +96,9 @@ export default function TokenSender() {
       // Update loading toast
       toastLoading('Creating transaction...', { id: loadingToast })
 
-      // Get the token decimals
-      const { getMint } = await import('@solana/spl-token')
-      const mintInfo = await getMint(connection, new PublicKey(mintAddress))
+      // Make sure the mint exists under one of the token programs
+      const { getMintWithProgram } = await import('@/lib/solana/token-program')
+      await getMintWithProgram(connection, new PublicKey(mintAddress))
       
       // Update loading toast
       toastLoading('Please approve the transaction in your wallet...', { id: loadingToast })
@@ -95,7 +112,19 @@ export default function TokenSender() {
         },
         mintAddress,
         recipientAddress,
-        amountNum
+        amount,
+        // Add to transaction history as soon as it is sent, with its real signature
+        recordTransactionEvents({
+          type: 'send',
+          tokenName: null,
+          tokenSymbol: null,
+          amount: amountNum,
+          mintAddress: mintAddress,
+          recipient: recipientAddress,
+          cluster: cluster.name,
+          clusterEndpoint: cluster.endpoint,
+          signer: publicKey.toString(),
+        })
       )
 
       // Update loading toast
@@ -103,19 +132,6 @@ export default function TokenSender() {
 
       // Update state with transaction signature
       setTxSignature(sig)
-      
-      // Add to transaction history
-      addTransaction({
-        id: sig,
-        type: 'send',
-        tokenName: null,
-        tokenSymbol: null,
-        amount: amountNum,
-        mintAddress: mintAddress,
-        recipient: recipientAddress,
-        timestamp: Date.now(),
-        status: 'success',
-      })
 
       // Dismiss loading toast and show success
       toast.dismiss(loadingToast)
@@ -125,9 +141,15 @@ export default function TokenSender() {
       setAmount("")
       
     } catch (error) {
+      // Nothing was sent after a dry run or a rejected review, so there is no error to show
+      if (error instanceof DryRunError || error instanceof ReviewCancelledError) {
+        toast.dismiss('send-loading')
+        return
+      }
+
       console.error('Error sending token:', error)
       toastError(
-        error instanceof Error ? error.message : 'Failed to send tokens', 
+        getErrorMessage(error), 
         { id: 'send-error' }
       )
     } finally {
@@ -148,81 +170,97 @@ export default function TokenSender() {
     <Card>
       <CardHeader>
         <CardTitle>Send Tokens</CardTitle>
-        <CardDescription>Send tokens to another wallet</CardDescription>
+        <CardDescription>Send tokens to another wallet, or airdrop to many from a CSV</CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={sendToken} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="mintAddress">Token Mint Address</Label>
-            <Input
-              id="mintAddress"
-              placeholder="Enter token mint address"
-              value={mintAddress}
-              onChange={(e) => setMintAddress(e.target.value)}
-              required
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="recipientAddress">Recipient Address</Label>
-            <Input
-              id="recipientAddress"
-              placeholder="Enter recipient wallet address"
-              value={recipientAddress}
-              onChange={(e) => setRecipientAddress(e.target.value)}
-              required
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="amount">Amount</Label>
-            <Input
-              id="amount"
-              type="number"
-              step="any"
-              min="0"
-              placeholder="1.0"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              required
-            />
-          </div>
-
-          <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? "Sending..." : "Send Tokens"}
-          </Button>
-        </form>
-
-        {txSignature && (
-          <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-md dark:bg-green-950 dark:border-green-900">
-            <div className="flex justify-between items-center">
-              <p className="text-sm font-medium text-green-800 dark:text-green-400">Tokens sent successfully!</p>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-6 px-2 text-xs text-green-800 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900"
-                onClick={() => copyToClipboard(txSignature)}
-              >
-                {copied ? (
-                  <Check className="h-3 w-3 mr-1" />
-                ) : (
-                  <Copy className="h-3 w-3 mr-1" />
+        <Tabs defaultValue="single">
+          <TabsList className="grid grid-cols-2 mb-4">
+            <TabsTrigger value="single">Single Recipient</TabsTrigger>
+            <TabsTrigger value="airdrop">Airdrop (CSV)</TabsTrigger>
+          </TabsList>
+          <TabsContent value="airdrop">
+            <TokenAirdrop />
+          </TabsContent>
+          <TabsContent value="single">
+            <form onSubmit={sendToken} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="mintAddress">Token Mint Address</Label>
+                <Input
+                  id="mintAddress"
+                  placeholder="Enter token mint address"
+                  value={mintAddress}
+                  onChange={(e) => setMintAddress(e.target.value)}
+                  required
+                />
+                {tokenBalance && (
+                  <p className="text-xs text-muted-foreground">
+                    Your balance: {formatTokenAmount(tokenBalance.amount, tokenBalance.decimals)}
+                  </p>
                 )}
-                Copy
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="recipientAddress">Recipient Address</Label>
+                <Input
+                  id="recipientAddress"
+                  placeholder="Enter recipient wallet address"
+                  value={recipientAddress}
+                  onChange={(e) => setRecipientAddress(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="amount">Amount</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="1.0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Sending..." : "Send Tokens"}
               </Button>
-            </div>
-            <p className="text-xs text-green-700 dark:text-green-500 mt-1">Transaction Signature:</p>
-            <p className="text-xs font-mono bg-white dark:bg-green-900/50 p-2 rounded border mt-1 break-all text-green-900 dark:text-green-400">{txSignature}</p>
-            <a
-              href={`https://explorer.solana.com/tx/${txSignature}?cluster=devnet`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-xs text-purple-600 dark:text-purple-400 hover:underline mt-2 inline-block"
-            >
-              View on Solana Explorer
-            </a>
-          </div>
-        )}
+            </form>
+
+            {txSignature && (
+              <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-md dark:bg-green-950 dark:border-green-900">
+                <div className="flex justify-between items-center">
+                  <p className="text-sm font-medium text-green-800 dark:text-green-400">Tokens sent successfully!</p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs text-green-800 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900"
+                    onClick={() => copyToClipboard(txSignature)}
+                  >
+                    {copied ? (
+                      <Check className="h-3 w-3 mr-1" />
+                    ) : (
+                      <Copy className="h-3 w-3 mr-1" />
+                    )}
+                    Copy
+                  </Button>
+                </div>
+                <p className="text-xs text-green-700 dark:text-green-500 mt-1">Transaction Signature:</p>
+                <p className="text-xs font-mono bg-white dark:bg-green-900/50 p-2 rounded border mt-1 break-all text-green-900 dark:text-green-400">{txSignature}</p>
+                <a
+                  href={getExplorerUrl("tx", txSignature, cluster)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-purple-600 dark:text-purple-400 hover:underline mt-2 inline-block"
+                >
+                  View on Solana Explorer
+                </a>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       </CardContent>
     </Card>
   )
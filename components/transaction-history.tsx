@@ -1,19 +1,108 @@
 "use client"
 
-import { useTransactionStore } from "@/lib/stores/transaction-store"
+import { useState } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { PublicKey } from "@solana/web3.js"
+import { useTransactionStore, TransactionType, UNKNOWN_SIGNER } from "@/lib/stores/transaction-store"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { ExternalLink } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { ExternalLink, Loader2, DownloadCloud } from "lucide-react"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { cn } from "@/lib/utils"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { toastSuccess, toastError } from "@/components/ui/toast"
+import { CLUSTERS, getExplorerUrl } from "@/lib/solana/cluster"
+import { isValidPublicKey } from "@/lib/solana/connection-helper"
+
+const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  create: "Create",
+  mint: "Mint",
+  send: "Send",
+  "set-authority": "Set Authority",
+  "revoke-authority": "Revoke Authority",
+  freeze: "Freeze",
+  thaw: "Thaw",
+  burn: "Burn",
+  close: "Close Account",
+  airdrop: "Airdrop",
+}
 
 export default function TransactionHistory() {
-  const { transactions } = useTransactionStore()
+  const { transactions, syncCursors, importTransactions, setSyncCursor } = useTransactionStore()
+  const { connection } = useConnection()
+  const { publicKey } = useWallet()
+  const { cluster } = useCluster()
+  const [showAll, setShowAll] = useState(false)
+  const [syncProgress, setSyncProgress] = useState<string | null>(null)
 
-  if (transactions.length === 0) {
+  if (transactions.length === 0 && !publicKey) {
     return null
   }
 
+  // By default only show what the connected wallet did on the selected network
+  const signer = publicKey?.toString()
+  const onCurrentNetwork = transactions.filter(
+    (tx) => tx.signer === signer && tx.cluster === cluster.name && tx.clusterEndpoint === cluster.endpoint
+  )
+  const visibleTransactions = showAll ? transactions : onCurrentNetwork
+
+  // Import token activity for the wallet and every mint it has worked with,
+  // resuming from where the previous sync of each address stopped
+  const importFromChain = async () => {
+    if (!publicKey) return
+
+    const trackedMints = Array.from(new Set(onCurrentNetwork.map((tx) => tx.mintAddress))).filter(isValidPublicKey)
+    const addresses = [publicKey.toString(), ...trackedMints]
+    const knownSignatures = new Set(transactions.map((tx) => tx.id))
+    let imported = 0
+    let hasMore = false
+
+    setSyncProgress("Starting...")
+
+    try {
+      const { syncAddressHistory } = await import("@/lib/solana/history-sync")
+
+      for (const [index, address] of addresses.entries()) {
+        const cursorKey = `${cluster.endpoint}:${address}`
+        const { entries, cursor, hasMore: addressHasMore } = await syncAddressHistory(
+          connection,
+          new PublicKey(address),
+          syncCursors[cursorKey],
+          knownSignatures,
+          (done, total) => setSyncProgress(`Address ${index + 1}/${addresses.length}: ${done}/${total}`)
+        )
+
+        importTransactions(
+          entries.map((entry) => ({ ...entry, cluster: cluster.name, clusterEndpoint: cluster.endpoint }))
+        )
+        entries.forEach((entry) => knownSignatures.add(entry.id))
+        imported += entries.length
+
+        setSyncCursor(cursorKey, cursor)
+        hasMore ||= addressHasMore
+      }
+
+      const summary =
+        imported > 0
+          ? `Imported ${imported} transaction${imported === 1 ? "" : "s"}`
+          : hasMore
+            ? "No token activity in this batch"
+            : "History is up to date"
+      toastSuccess(hasMore ? `${summary}. Import again to load older history.` : summary, { id: "history-sync-success" })
+    } catch (error) {
+      console.error("Error importing history:", error)
+      toastError(
+        error instanceof Error ? error.message : "Failed to import history",
+        { id: "history-sync-error" }
+      )
+    } finally {
+      setSyncProgress(null)
+    }
+  }
+
   // Function to get badge variant based on transaction type
   const getTypeVariant = (type: string) => {
     switch (type) {
@@ -22,7 +111,18 @@ export default function TransactionHistory() {
       case "mint":
         return "secondary"
       case "send":
+      case "airdrop":
         return "default"
+      case "set-authority":
+        return "secondary"
+      case "revoke-authority":
+      case "freeze":
+      case "burn":
+        return "destructive"
+      case "close":
+        return "outline"
+      case "thaw":
+        return "secondary"
       default:
         return "outline"
     }
@@ -35,6 +135,8 @@ export default function TransactionHistory() {
         return "success"
       case "pending":
         return "outline"
+      case "expired":
+        return "secondary"
       case "error":
       case "failed":
         return "destructive"
@@ -45,13 +147,42 @@ export default function TransactionHistory() {
 
   return (
     <Card>
-      <CardHeader>
-        <CardTitle>Transaction History</CardTitle>
-        <CardDescription>Your recent token transactions</CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Transaction History</CardTitle>
+          <CardDescription>
+            {showAll ? "Transactions from all wallets and networks" : `Your recent token transactions on ${cluster.label}`}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={importFromChain}
+            disabled={!publicKey || syncProgress !== null}
+            title="Import token transactions for this wallet from the chain"
+          >
+            {syncProgress !== null ? (
+              <>
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                {syncProgress}
+              </>
+            ) : (
+              <>
+                <DownloadCloud className="mr-1 h-4 w-4" />
+                Import from chain
+              </>
+            )}
+          </Button>
+          <Switch id="showAllHistory" checked={showAll} onCheckedChange={setShowAll} />
+          <Label htmlFor="showAllHistory" className="text-sm">Show all</Label>
+        </div>
       </CardHeader>
       <CardContent>
-        {transactions.length === 0 ? (
-          <p className="text-center text-muted-foreground py-4">No transactions yet</p>
+        {visibleTransactions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">
+            {signer ? "No transactions yet" : "Connect your wallet to see its transactions"}
+          </p>
         ) : (
           <div className="overflow-x-auto">
             <Table>
@@ -62,15 +193,17 @@ export default function TransactionHistory() {
                   <TableHead>Amount</TableHead>
                   <TableHead>Time</TableHead>
                   <TableHead>Status</TableHead>
+                  {showAll && <TableHead>Network</TableHead>}
+                  {showAll && <TableHead>Wallet</TableHead>}
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {transactions.map((tx) => (
+                {visibleTransactions.map((tx) => (
                   <TableRow key={tx.id}>
                     <TableCell>
                       <Badge variant={getTypeVariant(tx.type)}>
-                        {tx.type === "create" ? "Create" : tx.type === "mint" ? "Mint" : "Send"}
+                        {TRANSACTION_TYPE_LABELS[tx.type] ?? tx.type}
                       </Badge>
                     </TableCell>
                     <TableCell>
@@ -82,13 +215,19 @@ export default function TransactionHistory() {
                     <TableCell>{tx.amount ? tx.amount.toString() : "N/A"}</TableCell>
                     <TableCell>{new Date(tx.timestamp).toLocaleString()}</TableCell>
                     <TableCell>
-                      <Badge variant={getStatusVariant(tx.status)}>
+                      <Badge variant={getStatusVariant(tx.status)} title={tx.error}>
                         {tx.status.charAt(0).toUpperCase() + tx.status.slice(1)}
                       </Badge>
                     </TableCell>
+                    {showAll && <TableCell>{CLUSTERS[tx.cluster]?.label ?? tx.cluster}</TableCell>}
+                    {showAll && (
+                      <TableCell className="font-mono text-xs">
+                        {tx.signer === UNKNOWN_SIGNER ? "Unknown" : `${tx.signer.slice(0, 4)}...${tx.signer.slice(-4)}`}
+                      </TableCell>
+                    )}
                     <TableCell>
                       <a
-                        href={`https://explorer.solana.com/tx/${tx.id}?cluster=devnet`}
+                        href={getExplorerUrl("tx", tx.id, { name: tx.cluster, endpoint: tx.clusterEndpoint })}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-primary hover:text-primary/80 inline-flex items-center gap-1"
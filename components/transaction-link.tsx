@@ -1,28 +1,28 @@
 "use client";
 
 import { ExternalLink } from "lucide-react";
+import { useCluster } from "@/components/wallet/cluster-provider";
+import { getExplorerUrl } from "@/lib/solana/cluster";
 
 interface TransactionLinkProps {
   signature: string;
-  cluster?: "mainnet" | "devnet" | "testnet" | "custom";
   customExplorerUrl?: string;
   shortSignature?: boolean;
 }
 
 export function TransactionLink({
   signature,
-  cluster = "devnet",
   customExplorerUrl,
   shortSignature = true
 }: TransactionLinkProps) {
-  if (!signature) return null;
+  const { cluster } = useCluster();
 
-  const baseUrl = customExplorerUrl || 
-    (cluster === "mainnet" 
-      ? "https://explorer.solana.com/tx" 
-      : `https://explorer.solana.com/tx?cluster=${cluster}`);
+  if (!signature) return null;
 
-  const explorerUrl = `${baseUrl}/${signature}`;
+  // Links follow the cluster selected in the header
+  const explorerUrl = customExplorerUrl
+    ? `${customExplorerUrl}/${signature}`
+    : getExplorerUrl("tx", signature, cluster);
   
   const displaySignature = shortSignature 
     ? `${signature.slice(0, 8)}...${signature.slice(-8)}`
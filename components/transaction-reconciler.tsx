@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { useConnection } from "@solana/wallet-adapter-react"
+import { useTransactionStore } from "@/lib/stores/transaction-store"
+import { useCluster } from "@/components/wallet/cluster-provider"
+
+// How often pending transactions are checked
+const RECONCILE_INTERVAL_MS = 5000
+
+// Resolves pending history entries in the background. Only entries on the
+// selected cluster can be checked; others wait until the user switches back.
+export default function TransactionReconciler() {
+  const { connection } = useConnection()
+  const { cluster } = useCluster()
+  const transactions = useTransactionStore((state) => state.transactions)
+  const updateTransaction = useTransactionStore((state) => state.updateTransaction)
+  const isRunning = useRef(false)
+
+  const pending = transactions.filter(
+    (tx) => tx.status === "pending" && tx.clusterEndpoint === cluster.endpoint
+  )
+  const hasPending = pending.length > 0
+
+  useEffect(() => {
+    if (!hasPending) return
+
+    const reconcile = async () => {
+      if (isRunning.current) return
+      isRunning.current = true
+
+      try {
+        const { reconcileSignatures } = await import("@/lib/solana/transaction-reconciler")
+
+        // Read the latest entries rather than the ones captured when the effect started
+        const current = useTransactionStore
+          .getState()
+          .transactions.filter((tx) => tx.status === "pending" && tx.clusterEndpoint === cluster.endpoint)
+
+        const results = await reconcileSignatures(
+          connection,
+          current.map((tx) => ({ id: tx.id, lastValidBlockHeight: tx.lastValidBlockHeight, nonce: tx.nonce }))
+        )
+
+        const usesNonce = new Set(current.filter((tx) => tx.nonce).map((tx) => tx.id))
+        results.forEach((result) => {
+          switch (result.status) {
+            case "success":
+              updateTransaction(result.id, { status: "success" })
+              break
+            case "error":
+              updateTransaction(result.id, { status: "error", error: result.error })
+              break
+            case "expired":
+              updateTransaction(result.id, {
+                status: "expired",
+                error: usesNonce.has(result.id)
+                  ? "The nonce was advanced before the transaction landed"
+                  : "Blockhash expired before the transaction landed",
+              })
+              break
+            case "pending":
+              updateTransaction(result.id, { lastValidBlockHeight: result.lastValidBlockHeight })
+              break
+          }
+        })
+      } catch (error) {
+        console.error("Error reconciling transactions:", error)
+      } finally {
+        isRunning.current = false
+      }
+    }
+
+    reconcile()
+    const intervalId = setInterval(reconcile, RECONCILE_INTERVAL_MS)
+
+    return () => clearInterval(intervalId)
+  }, [hasPending, connection, cluster.endpoint, updateTransaction])
+
+  return null
+}
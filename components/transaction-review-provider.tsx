@@ -0,0 +1,217 @@
+"use client"
+
+import { type FC, type ReactNode, createContext, useCallback, useContext, useEffect, useRef, useState } from "react"
+import { LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useLocalStorage } from "@/lib/hooks/useLocalStorage"
+import { formatTokenAmount } from "@/lib/solana/token-helper"
+import { SimulationPreview, setDryRun as setGlobalDryRun, setTransactionReviewHandler } from "@/lib/solana/simulation"
+
+interface TransactionReviewContextValue {
+  dryRun: boolean
+  setDryRun: (enabled: boolean) => void
+}
+
+const TransactionReviewContext = createContext<TransactionReviewContextValue>({
+  dryRun: false,
+  setDryRun: () => {},
+})
+
+interface PendingReview {
+  preview: SimulationPreview
+  dryRun: boolean
+  resolve: (approved: boolean) => void
+}
+
+function shorten(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+function formatSolDelta(lamports: number) {
+  const sol = lamports / LAMPORTS_PER_SOL
+  return `${sol > 0 ? "+" : ""}${sol.toFixed(9).replace(/\.?0+$/, "")}`
+}
+
+function formatTokenDelta(before: bigint, after: bigint, decimals: number | null) {
+  const delta = after - before
+  const magnitude = delta < BigInt(0) ? -delta : delta
+  const formatted = decimals === null ? magnitude.toString() : formatTokenAmount(magnitude, decimals)
+  return `${delta < BigInt(0) ? "-" : "+"}${formatted}${decimals === null ? " (raw)" : ""}`
+}
+
+// Shows the simulated effects of every transaction before the wallet is asked
+// to sign, and owns the global dry-run switch
+export const TransactionReviewProvider: FC<{ children: ReactNode }> = ({ children }) => {
+  const [dryRun, setDryRun] = useLocalStorage<boolean>("dryRun", false)
+  const [pending, setPending] = useState<PendingReview | null>(null)
+  const pendingRef = useRef<PendingReview | null>(null)
+
+  useEffect(() => {
+    setGlobalDryRun(dryRun)
+  }, [dryRun])
+
+  useEffect(() => {
+    setTransactionReviewHandler(
+      (preview, { dryRun }) =>
+        new Promise<boolean>((resolve) => {
+          const review = { preview, dryRun, resolve }
+          pendingRef.current = review
+          setPending(review)
+        })
+    )
+    return () => setTransactionReviewHandler(null)
+  }, [])
+
+  const finish = useCallback((approved: boolean) => {
+    pendingRef.current?.resolve(approved)
+    pendingRef.current = null
+    setPending(null)
+  }, [])
+
+  const preview = pending?.preview
+
+  return (
+    <TransactionReviewContext.Provider value={{ dryRun, setDryRun }}>
+      {children}
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && finish(false)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Review Transaction
+              {pending?.dryRun && <Badge variant="secondary">Dry run</Badge>}
+            </DialogTitle>
+            <DialogDescription>
+              {pending?.dryRun
+                ? "Dry-run mode is on. This transaction was simulated and will not be sent."
+                : "This is what the transaction will do if it lands now."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {preview && (
+            <div className="space-y-4 text-sm">
+              {preview.success ? (
+                <Badge variant="success">Simulation succeeded</Badge>
+              ) : (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-red-600 dark:border-red-900 dark:bg-red-900/20 dark:text-red-400">
+                  Simulation failed: {preview.error}
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <p className="text-xs text-muted-foreground">Estimated fee</p>
+                  <p className="font-medium">
+                    {preview.fee !== null ? `${(preview.fee / LAMPORTS_PER_SOL).toFixed(6)} SOL` : "Unknown"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Compute units</p>
+                  <p className="font-medium">{preview.unitsConsumed?.toLocaleString() ?? "Unknown"}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Rent locked</p>
+                  <p className="font-medium">{(preview.rentLocked / LAMPORTS_PER_SOL).toFixed(6)} SOL</p>
+                </div>
+              </div>
+
+              {preview.solChanges.length > 0 && (
+                <div>
+                  <p className="font-medium mb-1">SOL balance changes</p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Account</TableHead>
+                        <TableHead className="text-right">Change (SOL)</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.solChanges.map((change) => (
+                        <TableRow key={change.address}>
+                          <TableCell className="font-mono text-xs" title={change.address}>
+                            {shorten(change.address)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-xs">
+                            {formatSolDelta(change.after - change.before)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {preview.tokenChanges.length > 0 && (
+                <div>
+                  <p className="font-medium mb-1">Token balance changes</p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Owner</TableHead>
+                        <TableHead>Mint</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.tokenChanges.map((change) => (
+                        <TableRow key={change.account}>
+                          <TableCell className="font-mono text-xs" title={change.account}>
+                            {shorten(change.owner)}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs" title={change.mint}>
+                            {shorten(change.mint)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-xs">
+                            {formatTokenDelta(change.before, change.after, change.decimals)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {preview.logs.length > 0 && (
+                <details>
+                  <summary className="cursor-pointer font-medium">Program logs ({preview.logs.length})</summary>
+                  <pre className="mt-2 max-h-48 overflow-auto rounded-md bg-muted p-2 text-xs whitespace-pre-wrap break-all">
+                    {preview.logs.join("\n")}
+                  </pre>
+                </details>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {pending?.dryRun ? (
+              <Button onClick={() => finish(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => finish(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={() => finish(true)} disabled={!preview?.success}>
+                  Approve in Wallet
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </TransactionReviewContext.Provider>
+  )
+}
+
+export function useTransactionReview(): TransactionReviewContextValue {
+  return useContext(TransactionReviewContext)
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { useEffect } from "react"
+import { toast, toastError, toastLoading, toastSuccess } from "@/components/ui/toast"
+import { subscribeToTransactionEvents } from "@/lib/solana/transaction-engine"
+
+// Replace the toast for an execution rather than stacking a new one
+function replaceToast(show: (message: string, options: { id: string }) => unknown, message: string, id: string) {
+  toast.dismiss(id)
+  show(message, { id })
+}
+
+// Turns transaction engine events into toasts. Each execution keeps one
+// loading toast that is updated as it moves through its lifecycle.
+export default function TransactionToasts() {
+  useEffect(() => {
+    return subscribeToTransactionEvents((event) => {
+      const id = event.id
+
+      switch (event.type) {
+        case "built":
+          if (event.attempt === 1) replaceToast(toastLoading, `${event.label}: preparing...`, id)
+          break
+        case "simulated":
+          replaceToast(toastLoading, `${event.label}: waiting for review...`, id)
+          break
+        case "awaiting-signature":
+          replaceToast(
+            toastLoading,
+            event.maxAttempts > 1 && event.attempt > 1
+              ? `${event.label}: please approve in your wallet (attempt ${event.attempt}/${event.maxAttempts})...`
+              : `${event.label}: please approve in your wallet...`,
+            id
+          )
+          break
+        case "sent":
+          replaceToast(toastLoading, `${event.label}: confirming...`, id)
+          break
+        case "confirmed":
+          replaceToast(toastSuccess, `${event.label} confirmed`, id)
+          break
+        case "expired":
+          if (event.willRetry) {
+            replaceToast(toastLoading, `${event.label}: expired, retrying with a fresh blockhash...`, id)
+          }
+          break
+        case "failed":
+          if (event.reason === "error") {
+            replaceToast(toastError, event.message, id)
+          } else {
+            toast.dismiss(id)
+            toast(event.message)
+          }
+          break
+      }
+    })
+  }, [])
+
+  return null
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import { type FC, type ReactNode, createContext, useContext, useMemo } from "react"
+import { useLocalStorage } from "@/lib/hooks/useLocalStorage"
+import { ClusterSelection, DEFAULT_CLUSTER, ResolvedCluster, resolveCluster } from "@/lib/solana/cluster"
+
+interface ClusterContextValue {
+  cluster: ResolvedCluster
+  selection: ClusterSelection
+  setSelection: (selection: ClusterSelection) => void
+}
+
+const ClusterContext = createContext<ClusterContextValue>({
+  cluster: resolveCluster(DEFAULT_CLUSTER),
+  selection: DEFAULT_CLUSTER,
+  setSelection: () => {},
+})
+
+// Holds the selected network so the connection, explorer links and header share one source
+export const ClusterProvider: FC<{ children: ReactNode }> = ({ children }) => {
+  const [selection, setSelection] = useLocalStorage<ClusterSelection>("solanaCluster", DEFAULT_CLUSTER)
+
+  // Resolved separately so the cluster (and its endpoint list) only changes with the selection
+  const cluster = useMemo(() => resolveCluster(selection), [selection])
+
+  const value = useMemo(() => ({ cluster, selection, setSelection }), [cluster, selection, setSelection])
+
+  return <ClusterContext.Provider value={value}>{children}</ClusterContext.Provider>
+}
+
+export function useCluster(): ClusterContextValue {
+  return useContext(ClusterContext)
+}
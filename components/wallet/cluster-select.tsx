@@ -0,0 +1,107 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { CLUSTERS, ClusterName, isValidEndpoint } from "@/lib/solana/cluster"
+
+export default function ClusterSelect() {
+  const { cluster, selection, setSelection } = useCluster()
+  const [customOpen, setCustomOpen] = useState(false)
+  const [customEndpoint, setCustomEndpoint] = useState(selection.customEndpoint ?? "")
+  const [customWsEndpoint, setCustomWsEndpoint] = useState(selection.customWsEndpoint ?? "")
+
+  const endpointValid = isValidEndpoint(customEndpoint.trim(), ["http:", "https:"])
+  const wsEndpointValid = !customWsEndpoint.trim() || isValidEndpoint(customWsEndpoint.trim(), ["ws:", "wss:"])
+
+  const handleChange = (value: string) => {
+    const name = value as ClusterName
+    if (name === "custom") {
+      // Let the user confirm the URLs before switching
+      setCustomOpen(true)
+      return
+    }
+    setSelection({ ...selection, name })
+  }
+
+  const saveCustom = () => {
+    if (!endpointValid || !wsEndpointValid) return
+    setSelection({
+      name: "custom",
+      customEndpoint: customEndpoint.trim(),
+      customWsEndpoint: customWsEndpoint.trim() || undefined,
+    })
+    setCustomOpen(false)
+  }
+
+  return (
+    <>
+      <Select value={cluster.name} onValueChange={handleChange}>
+        <SelectTrigger className="w-[140px]" title={cluster.endpoint}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(CLUSTERS) as ClusterName[]).map((name) => (
+            <SelectItem key={name} value={name}>
+              {CLUSTERS[name].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={customOpen} onOpenChange={setCustomOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Custom RPC</DialogTitle>
+            <DialogDescription>
+              Connect to your own RPC node. The WebSocket URL defaults to the RPC URL with a ws:// or wss:// scheme.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="customRpcEndpoint">RPC URL</Label>
+              <Input
+                id="customRpcEndpoint"
+                placeholder="https://my-rpc.example.com"
+                value={customEndpoint}
+                onChange={(e) => setCustomEndpoint(e.target.value)}
+              />
+              {customEndpoint && !endpointValid && (
+                <p className="text-xs text-destructive">Enter an http:// or https:// URL</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customWsEndpoint">WebSocket URL (optional)</Label>
+              <Input
+                id="customWsEndpoint"
+                placeholder="wss://my-rpc.example.com"
+                value={customWsEndpoint}
+                onChange={(e) => setCustomWsEndpoint(e.target.value)}
+              />
+              {!wsEndpointValid && <p className="text-xs text-destructive">Enter a ws:// or wss:// URL</p>}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCustomOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveCustom} disabled={!endpointValid || !wsEndpointValid}>
+              Connect
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
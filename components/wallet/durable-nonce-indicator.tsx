@@ -0,0 +1,55 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { PublicKey } from "@solana/web3.js"
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { useLocalStorage } from "@/lib/hooks/useLocalStorage"
+import { getActiveNonceAccount, setActiveNonceAccount, subscribeToActiveNonceAccount } from "@/lib/solana/durable-nonce"
+
+// Header badge shown while transactions are built against a durable nonce.
+// Also keeps the selected nonce account per cluster across reloads.
+export default function DurableNonceIndicator() {
+  const { cluster } = useCluster()
+  const [stored, setStored] = useLocalStorage<string | null>(`durableNonce:${cluster.name}`, null)
+  const [active, setActive] = useState<PublicKey | null>(getActiveNonceAccount)
+  const setStoredRef = useRef(setStored)
+  setStoredRef.current = setStored
+
+  // Restore the nonce account saved for this cluster
+  useEffect(() => {
+    let address: PublicKey | null = null
+    try {
+      address = stored ? new PublicKey(stored) : null
+    } catch {
+      address = null
+    }
+    setActiveNonceAccount(address)
+    setActive(address)
+  }, [stored])
+
+  // Save selections made elsewhere, e.g. in the nonce manager
+  useEffect(() => {
+    return subscribeToActiveNonceAccount((address) => {
+      setActive(address)
+      setStoredRef.current(address?.toString() ?? null)
+    })
+  }, [])
+
+  if (!active) return null
+
+  const address = active.toString()
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => setActiveNonceAccount(null)}
+      title="Transactions are built against this durable nonce account. Click to use recent blockhashes again."
+    >
+      Nonce {address.slice(0, 4)}...{address.slice(-4)}
+      <X className="ml-2 h-3 w-3" />
+    </Button>
+  )
+}
@@ -0,0 +1,307 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { useConnection, useWallet } from "@solana/wallet-adapter-react"
+import { Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { KeyRound, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toastSuccess, toastError } from "@/components/ui/toast"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { getErrorMessage } from "@/lib/solana/program-errors"
+import {
+  StoredLocalKeypair,
+  generateBurnerKeypair,
+  getStoredLocalKeypair,
+  getUnlockedKeypair,
+  isLocalKeypairCluster,
+  lockLocalKeypair,
+  parseKeypairFile,
+  removeLocalKeypair,
+  saveLocalKeypair,
+  subscribeToLocalKeypair,
+  toKeypairFile,
+  unlockLocalKeypair,
+} from "@/lib/solana/local-keypair"
+import { LocalKeypairWalletName } from "@/lib/solana/local-keypair-adapter"
+
+// Header button and dialog to import, generate and unlock the local QA keypair.
+// Only shown on clusters where the local keypair wallet is offered.
+export default function LocalKeypairDialog() {
+  const { connection } = useConnection()
+  const { cluster } = useCluster()
+  const { wallet, connected, select, connect } = useWallet()
+
+  const [open, setOpen] = useState(false)
+  const [stored, setStored] = useState<StoredLocalKeypair | null>(null)
+  const [unlocked, setUnlocked] = useState<Keypair | null>(getUnlockedKeypair)
+  // Imported or generated keypair waiting for a passphrase
+  const [pending, setPending] = useState<Keypair | null>(null)
+  const [replacing, setReplacing] = useState(false)
+  // Removing asks for a second click, since the keypair is gone unless backed up
+  const [confirmRemove, setConfirmRemove] = useState(false)
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmPassphrase, setConfirmPassphrase] = useState("")
+  const [busy, setBusy] = useState<string | null>(null)
+  const connectRequested = useRef(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const allowed = isLocalKeypairCluster(cluster.name)
+
+  useEffect(() => subscribeToLocalKeypair(setUnlocked), [])
+
+  useEffect(() => {
+    if (open) setStored(getStoredLocalKeypair())
+  }, [open, unlocked])
+
+  // Never keep the keypair usable on a cluster with real funds
+  useEffect(() => {
+    if (!allowed) lockLocalKeypair()
+  }, [allowed])
+
+  // Connect once the wallet provider has switched to the local keypair wallet
+  useEffect(() => {
+    if (!connectRequested.current || wallet?.adapter.name !== LocalKeypairWalletName || connected) return
+    connectRequested.current = false
+    connect().catch((error) => console.error("Error connecting the local keypair:", error))
+  }, [wallet, connected, connect])
+
+  if (!allowed) return null
+
+  const resetForm = () => {
+    setPending(null)
+    setReplacing(false)
+    setConfirmRemove(false)
+    setPassphrase("")
+    setConfirmPassphrase("")
+  }
+
+  async function run(key: string, action: () => Promise<void>) {
+    setBusy(key)
+    try {
+      await action()
+    } catch (error) {
+      console.error("Local keypair error:", error)
+      toastError(getErrorMessage(error), { id: `local-keypair-error-${Date.now()}` })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const importFile = async (file: File) => {
+    try {
+      setPending(parseKeypairFile(await file.text()))
+    } catch (error) {
+      toastError(getErrorMessage(error), { id: "local-keypair-import-error" })
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  const save = () =>
+    run("save", async () => {
+      if (!pending) return
+      if (passphrase !== confirmPassphrase) throw new Error("The passphrases do not match")
+      await saveLocalKeypair(pending, passphrase)
+      resetForm()
+      toastSuccess("Keypair encrypted and saved in this browser", { id: "local-keypair-saved" })
+    })
+
+  const unlock = () =>
+    run("unlock", async () => {
+      await unlockLocalKeypair(passphrase)
+      setPassphrase("")
+    })
+
+  const useAsWallet = () => {
+    connectRequested.current = true
+    select(LocalKeypairWalletName)
+    setOpen(false)
+  }
+
+  const requestAirdrop = () =>
+    run("airdrop", async () => {
+      if (!unlocked) return
+      const signature = await connection.requestAirdrop(unlocked.publicKey, LAMPORTS_PER_SOL)
+      const latest = await connection.getLatestBlockhash()
+      await connection.confirmTransaction({ signature, ...latest }, "confirmed")
+      toastSuccess("Airdropped 1 SOL to the local keypair", { id: `local-keypair-airdrop-${Date.now()}` })
+    })
+
+  const download = () => {
+    if (!unlocked) return
+    const url = URL.createObjectURL(new Blob([toKeypairFile(unlocked)], { type: "application/json" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${unlocked.publicKey.toBase58()}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const remove = () => {
+    removeLocalKeypair()
+    setStored(null)
+    resetForm()
+  }
+
+  const showSetup = !stored || replacing
+  const address = unlocked?.publicKey.toBase58() ?? stored?.publicKey
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        title="Sign with a local keypair instead of a browser wallet"
+      >
+        <KeyRound className="mr-2 h-4 w-4" />
+        {unlocked ? "Keypair unlocked" : "Local keypair"}
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(value) => {
+          setOpen(value)
+          if (!value) resetForm()
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Local Keypair</DialogTitle>
+            <DialogDescription>
+              A keypair kept in this browser, encrypted with your passphrase, for testing on {cluster.label} without
+              a wallet extension. Never put real funds on it.
+            </DialogDescription>
+          </DialogHeader>
+
+          {address && !showSetup && (
+            <div className="space-y-1">
+              <Label>Address</Label>
+              <p className="break-all font-mono text-xs">{address}</p>
+            </div>
+          )}
+
+          {showSetup ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+                  Import Keypair File
+                </Button>
+                <Button variant="outline" className="flex-1" onClick={() => setPending(generateBurnerKeypair())}>
+                  Generate Burner
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && importFile(e.target.files[0])}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Keypair files are the JSON arrays written by solana-keygen, e.g. ~/.config/solana/id.json.
+              </p>
+
+              {pending && (
+                <div className="space-y-3">
+                  <p className="break-all font-mono text-xs">{pending.publicKey.toBase58()}</p>
+                  <div className="space-y-2">
+                    <Label htmlFor="localKeypairPassphrase">Passphrase</Label>
+                    <Input
+                      id="localKeypairPassphrase"
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="localKeypairConfirm">Confirm passphrase</Label>
+                    <Input
+                      id="localKeypairConfirm"
+                      type="password"
+                      value={confirmPassphrase}
+                      onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    />
+                  </div>
+                  {stored && (
+                    <p className="text-xs text-destructive">
+                      This replaces the stored keypair {stored.publicKey.slice(0, 4)}...{stored.publicKey.slice(-4)}.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : unlocked ? (
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={useAsWallet} disabled={connected && wallet?.adapter.name === LocalKeypairWalletName}>
+                {connected && wallet?.adapter.name === LocalKeypairWalletName ? "In Use" : "Use as Wallet"}
+              </Button>
+              <Button variant="outline" onClick={requestAirdrop} disabled={busy !== null}>
+                {busy === "airdrop" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Airdrop 1 SOL"}
+              </Button>
+              <Button variant="outline" onClick={download}>
+                Download Backup
+              </Button>
+              <Button variant="outline" onClick={lockLocalKeypair}>
+                Lock
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="localKeypairUnlock">Passphrase</Label>
+              <Input
+                id="localKeypairUnlock"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && passphrase && unlock()}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            {showSetup ? (
+              <>
+                {replacing && (
+                  <Button variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+                <Button onClick={save} disabled={!pending || !passphrase || busy !== null}>
+                  {busy === "save" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Encrypt & Save"}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  variant={confirmRemove ? "destructive" : "outline"}
+                  onClick={() => (confirmRemove ? remove() : setConfirmRemove(true))}
+                >
+                  {confirmRemove ? "Remove for Good" : "Remove"}
+                </Button>
+                <Button variant="outline" onClick={() => setReplacing(true)}>
+                  Replace
+                </Button>
+                {!unlocked && (
+                  <Button onClick={unlock} disabled={!passphrase || busy !== null}>
+                    {busy === "unlock" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Unlock"}
+                  </Button>
+                )}
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
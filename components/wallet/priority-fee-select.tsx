@@ -0,0 +1,102 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useLocalStorage } from "@/lib/hooks/useLocalStorage"
+import {
+  DEFAULT_PRIORITY_FEE,
+  PRIORITY_FEE_LEVELS,
+  PriorityFeeLevel,
+  PriorityFeeSettings,
+  setPriorityFeeSettings,
+} from "@/lib/solana/priority-fees"
+
+export default function PriorityFeeSelect() {
+  const [settings, setSettings] = useLocalStorage<PriorityFeeSettings>("priorityFee", DEFAULT_PRIORITY_FEE)
+  const [customOpen, setCustomOpen] = useState(false)
+  const [customValue, setCustomValue] = useState(String(settings.customMicroLamports ?? ""))
+
+  // Every send reads the fee strategy from the priority fee module
+  useEffect(() => {
+    setPriorityFeeSettings(settings)
+  }, [settings])
+
+  const customValid = /^\d+$/.test(customValue.trim())
+
+  const handleChange = (value: string) => {
+    const level = value as PriorityFeeLevel
+    if (level === "custom") {
+      setCustomOpen(true)
+      return
+    }
+    setSettings({ ...settings, level })
+  }
+
+  const saveCustom = () => {
+    if (!customValid) return
+    setSettings({ level: "custom", customMicroLamports: Number(customValue.trim()) })
+    setCustomOpen(false)
+  }
+
+  return (
+    <>
+      <Select value={settings.level} onValueChange={handleChange}>
+        <SelectTrigger className="w-[150px]" title="Priority fee">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(PRIORITY_FEE_LEVELS) as Exclude<PriorityFeeLevel, "custom">[]).map((level) => (
+            <SelectItem key={level} value={level}>
+              Fee: {PRIORITY_FEE_LEVELS[level].label}
+            </SelectItem>
+          ))}
+          <SelectItem value="custom">
+            Fee: {settings.level === "custom" ? `${settings.customMicroLamports} µL` : "Custom"}
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={customOpen} onOpenChange={setCustomOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Custom Priority Fee</DialogTitle>
+            <DialogDescription>
+              Price paid per compute unit, in micro-lamports. The compute unit limit is still set from simulation.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="customPriorityFee">Micro-lamports per compute unit</Label>
+            <Input
+              id="customPriorityFee"
+              type="number"
+              min="0"
+              step="1"
+              placeholder="50000"
+              value={customValue}
+              onChange={(e) => setCustomValue(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCustomOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveCustom} disabled={!customValid}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
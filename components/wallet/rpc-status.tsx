@@ -0,0 +1,176 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useCluster } from "@/components/wallet/cluster-provider"
+import { isValidEndpoint } from "@/lib/solana/cluster"
+import {
+  MAX_SLOT_LAG,
+  RpcEndpointState,
+  RpcPoolState,
+  checkRpcHealth,
+  getRpcPoolState,
+  subscribeToRpcPool,
+} from "@/lib/solana/rpc-pool"
+
+function getEndpointStatus(endpoint: RpcEndpointState): { label: string; variant: "success" | "secondary" | "destructive" } {
+  if (endpoint.lastCheckedAt === null) return { label: "Checking", variant: "secondary" }
+  if (endpoint.rateLimitedUntil > Date.now()) return { label: "Rate limited", variant: "destructive" }
+  if (endpoint.nodeHealthy === false || endpoint.slot === null) return { label: "Down", variant: "destructive" }
+  if ((endpoint.slotLag ?? 0) > MAX_SLOT_LAG) return { label: "Lagging", variant: "secondary" }
+  return { label: "Healthy", variant: "success" }
+}
+
+function hostOf(url: string) {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+// Header button showing which RPC endpoint is serving requests, with a dialog
+// listing every endpoint's health and the fallbacks configured for the cluster
+export default function RpcStatus() {
+  const { cluster, selection, setSelection } = useCluster()
+  const [state, setState] = useState<RpcPoolState>(getRpcPoolState)
+  const [open, setOpen] = useState(false)
+  const [isChecking, setIsChecking] = useState(false)
+  const [fallbackInput, setFallbackInput] = useState("")
+
+  useEffect(() => {
+    setState(getRpcPoolState())
+    return subscribeToRpcPool(setState)
+  }, [])
+
+  useEffect(() => {
+    if (open) {
+      setFallbackInput((selection.fallbackEndpoints?.[cluster.name] ?? []).join("\n"))
+    }
+  }, [open, selection, cluster.name])
+
+  const fallbackUrls = fallbackInput.split(/[\s,]+/).filter(Boolean)
+  const invalidUrl = fallbackUrls.find((url) => !isValidEndpoint(url, ["http:", "https:"]))
+
+  const active = state.endpoints.find((endpoint) => endpoint.url === state.activeEndpoint)
+  const activeStatus = active ? getEndpointStatus(active) : null
+
+  const checkNow = async () => {
+    setIsChecking(true)
+    try {
+      await checkRpcHealth()
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const saveFallbacks = () => {
+    if (invalidUrl) return
+    setSelection({
+      ...selection,
+      fallbackEndpoints: { ...selection.fallbackEndpoints, [cluster.name]: fallbackUrls },
+    })
+    setOpen(false)
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} title="RPC endpoints">
+        <span
+          className={`mr-2 h-2 w-2 rounded-full ${
+            activeStatus?.variant === "success"
+              ? "bg-green-500"
+              : activeStatus?.variant === "destructive"
+                ? "bg-red-500"
+                : "bg-yellow-500"
+          }`}
+        />
+        {active ? `${hostOf(active.url)}${active.latencyMs !== null ? ` · ${active.latencyMs}ms` : ""}` : "RPC"}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>RPC Endpoints</DialogTitle>
+            <DialogDescription>
+              Requests go to the healthiest endpoint and fail over on rate limits and timeouts.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead className="text-right">Latency</TableHead>
+                  <TableHead className="text-right">Slot lag</TableHead>
+                  <TableHead className="text-right">Errors</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {state.endpoints.map((endpoint) => {
+                  const status = getEndpointStatus(endpoint)
+                  return (
+                    <TableRow key={endpoint.url}>
+                      <TableCell className="font-mono text-xs" title={endpoint.lastError ?? undefined}>
+                        {hostOf(endpoint.url)}
+                        {endpoint.url === state.activeEndpoint && (
+                          <Badge variant="outline" className="ml-2">Active</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {endpoint.latencyMs !== null ? `${endpoint.latencyMs}ms` : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">{endpoint.slotLag ?? "-"}</TableCell>
+                      <TableCell className="text-right">{Math.round(endpoint.errorRate * 100)}%</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fallbackEndpoints">Fallback endpoints for {cluster.label}</Label>
+            <Textarea
+              id="fallbackEndpoints"
+              placeholder="https://my-rpc.example.com"
+              rows={3}
+              className="font-mono text-xs"
+              value={fallbackInput}
+              onChange={(e) => setFallbackInput(e.target.value)}
+            />
+            {invalidUrl && <p className="text-xs text-red-500">Invalid RPC URL: {invalidUrl}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={checkNow} disabled={isChecking}>
+              {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Check Now
+            </Button>
+            <Button onClick={saveFallbacks} disabled={!!invalidUrl}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
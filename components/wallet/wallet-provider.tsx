@@ -17,11 +17,10 @@ import "@solana/wallet-adapter-react-ui/styles.css"
 // Import local storage adapter for persistence
 import { useLocalStorage } from "@/lib/hooks/useLocalStorage"
 import { getCachedConnection, initConnectionPool, isWalletReady } from "@/lib/solana/connection-helper"
-
-// Initialize connection pool as early as possible
-if (typeof window !== 'undefined') {
-  initConnectionPool("https://api.devnet.solana.com");
-}
+import { failoverFetch } from "@/lib/solana/rpc-pool"
+import { isLocalKeypairCluster } from "@/lib/solana/local-keypair"
+import { getLocalKeypairWalletAdapter } from "@/lib/solana/local-keypair-adapter"
+import { useCluster } from "@/components/wallet/cluster-provider"
 
 interface WalletContextProviderProps {
   children: ReactNode
@@ -45,8 +44,14 @@ const WalletConnectionTracker: FC = memo(() => {
 WalletConnectionTracker.displayName = 'WalletConnectionTracker';
 
 const WalletContextProvider: FC<WalletContextProviderProps> = ({ children }) => {
-  // Use the direct RPC endpoint for fastest performance
-  const endpoint = "https://api.devnet.solana.com";
+  // Use the RPC endpoint of the cluster selected in the header
+  const { cluster } = useCluster();
+  const { endpoint, wsEndpoint, endpoints } = cluster;
+
+  // Initialize (or rebuild after a cluster switch) the RPC pool
+  useEffect(() => {
+    initConnectionPool(endpoints, wsEndpoint);
+  }, [endpoints, wsEndpoint]);
   
   // Only track essential state for faster UI
   const [clientLoaded, setClientLoaded] = useState(false);
@@ -60,9 +65,11 @@ const WalletContextProvider: FC<WalletContextProviderProps> = ({ children }) =>
   // Ultra-optimized config
   const connectionConfig = {
     commitment: 'processed' as Commitment,
+    wsEndpoint,
     confirmTransactionInitialTimeout: 15000, // Reduced to 15 seconds for faster feedback
     disableRetryOnRateLimit: true,
     skipPreflight: true, // Skip preflight for faster transactions
+    fetch: failoverFetch, // Route calls to the healthiest endpoint of the cluster
   };
 
   // Set client loaded to avoid hydration issues - do this only once
@@ -91,13 +98,18 @@ const WalletContextProvider: FC<WalletContextProviderProps> = ({ children }) =>
         availableWallets.push(new SolflareWalletAdapter());
       }
       
+      // The local keypair signer is for QA on test clusters only
+      if (isLocalKeypairCluster(cluster.name)) {
+        availableWallets.push(getLocalKeypairWalletAdapter());
+      }
+      
       // Return available non-standard wallets
       return availableWallets;
     };
     
     // Initial detection
     return detectWallets();
-  }, [clientLoaded]);
+  }, [clientLoaded, cluster.name]);
 
   // Enhanced error handler with more detail
   const onError = useCallback((error: Error) => {
@@ -107,6 +119,8 @@ const WalletContextProvider: FC<WalletContextProviderProps> = ({ children }) =>
     if (error.name === 'WalletNotSelectedError') {
       // Don't show toast for wallet selection errors - these are handled internally
       return;
+    } else if (error.name === 'WalletNotReadyError' && msg) {
+      toast.error(msg);
     } else if (msg.includes('User rejected')) {
       toast.error('Connection rejected');
     } else if (msg.includes('timeout')) {
@@ -0,0 +1,109 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import { getAccountSubscriptionManager, decodeMintSupply, decodeTokenAccountBalance } from '@/lib/solana/account-subscriptions';
+import { getAssociatedTokenAddressForProgram, getMintWithProgram } from '@/lib/solana/token-program';
+
+type AddressInput = PublicKey | string | null | undefined;
+
+// Parse an address from a form field, treating anything invalid as no address
+function toPublicKey(address: AddressInput): PublicKey | null {
+  if (!address) return null;
+  if (address instanceof PublicKey) return address;
+  try {
+    return new PublicKey(address);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Live account info for an address. Undefined while loading, null if the account doesn't exist.
+ */
+export function useAccountInfo(address: AddressInput): AccountInfo<Buffer> | null | undefined {
+  const { connection } = useConnection();
+  const key = toPublicKey(address)?.toBase58() ?? null;
+  const [account, setAccount] = useState<AccountInfo<Buffer> | null | undefined>(undefined);
+
+  useEffect(() => {
+    setAccount(undefined);
+    if (!key) return;
+    return getAccountSubscriptionManager(connection).subscribe(new PublicKey(key), (info) => setAccount(info));
+  }, [connection, key]);
+
+  return account;
+}
+
+/**
+ * Live SOL balance in lamports, null while loading
+ */
+export function useSolBalance(address: AddressInput): number | null {
+  const account = useAccountInfo(address);
+  if (account === undefined) return null;
+  return account?.lamports ?? 0;
+}
+
+/**
+ * Live supply and decimals of a mint, null while loading or when the address isn't a mint
+ */
+export function useMintSupply(mint: AddressInput): { supply: bigint; decimals: number } | null {
+  const account = useAccountInfo(mint);
+  return account ? decodeMintSupply(account.data) : null;
+}
+
+export interface TokenBalance {
+  tokenAccount: PublicKey;
+  // Raw amount, 0 when the associated token account doesn't exist yet
+  amount: bigint;
+  decimals: number;
+}
+
+/**
+ * Live balance of the owner's associated token account for a mint, for both
+ * SPL Token and Token-2022 mints. Null while loading or when the mint is invalid.
+ */
+export function useTokenBalance(mint: AddressInput, owner: AddressInput): TokenBalance | null {
+  const { connection } = useConnection();
+  const mintKey = toPublicKey(mint)?.toBase58() ?? null;
+  const ownerKey = toPublicKey(owner)?.toBase58() ?? null;
+  const [mintDetails, setMintDetails] = useState<{ programId: PublicKey; decimals: number } | null>(null);
+
+  useEffect(() => {
+    setMintDetails(null);
+    if (!mintKey) return;
+
+    let cancelled = false;
+    getMintWithProgram(connection, new PublicKey(mintKey))
+      .then(({ mintInfo, programId }) => {
+        if (!cancelled) setMintDetails({ programId, decimals: mintInfo.decimals });
+      })
+      .catch((error) => console.error('Error loading mint for balance:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, mintKey]);
+
+  const tokenAccount = useMemo(() => {
+    if (!mintKey || !ownerKey || !mintDetails) return null;
+    try {
+      return getAssociatedTokenAddressForProgram(
+        new PublicKey(mintKey),
+        new PublicKey(ownerKey),
+        mintDetails.programId,
+        true
+      );
+    } catch {
+      return null;
+    }
+  }, [mintKey, ownerKey, mintDetails]);
+
+  const account = useAccountInfo(tokenAccount);
+
+  if (!tokenAccount || !mintDetails || account === undefined) return null;
+  return {
+    tokenAccount,
+    amount: (account && decodeTokenAccountBalance(account.data)?.amount) ?? BigInt(0),
+    decimals: mintDetails.decimals,
+  };
+}
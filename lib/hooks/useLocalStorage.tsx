@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 
 export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T) => void] {
   // State to store our value
@@ -19,8 +19,9 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T)
     }
   });
 
-  // Return a wrapped version of useState's setter function that persists the new value to localStorage
-  const setValue = (value: T) => {
+  // Return a wrapped version of useState's setter function that persists the new value to localStorage.
+  // It is stable for a given key so callers can list it as an effect or memo dependency.
+  const setValue = useCallback((value: T) => {
     try {
       // Save state
       setStoredValue(value);
@@ -36,7 +37,7 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T)
     } catch (error) {
       console.error(`Error setting localStorage key "${key}":`, error);
     }
-  };
+  }, [key]);
 
   // Update stored value if the key changes
   useEffect(() => {
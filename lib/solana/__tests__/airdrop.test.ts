@@ -0,0 +1,109 @@
+import {
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { describe, expect, it } from 'vitest';
+import { AirdropRow, buildAirdropChunks, parseAirdropCsv } from '../airdrop';
+import { getComputeBudgetPlaceholders } from '../priority-fees';
+
+const alice = Keypair.generate().publicKey.toBase58();
+const bob = Keypair.generate().publicKey.toBase58();
+
+describe('parseAirdropCsv', () => {
+  it('parses address,amount rows into pending rows', () => {
+    const { rows, issues } = parseAirdropCsv(`${alice},10\n${bob},2.5`, 6);
+
+    expect(issues).toEqual([]);
+    expect(rows).toEqual([
+      { address: alice, amount: '10', status: 'pending', signature: null, error: null },
+      { address: bob, amount: '2.5', status: 'pending', signature: null, error: null },
+    ]);
+  });
+
+  it('skips a header line, blank lines and surrounding whitespace', () => {
+    const { rows, issues } = parseAirdropCsv(`address,amount\r\n\n  ${alice} , 1 \r\n`, 0);
+
+    expect(issues).toEqual([]);
+    expect(rows.map((row) => [row.address, row.amount])).toEqual([[alice, '1']]);
+  });
+
+  it('reports invalid lines with their line number', () => {
+    const { rows, issues } = parseAirdropCsv(
+      [`${alice},1`, 'not-an-address,1', `${bob},1,extra`, `${bob},-1`, `${bob},0`].join('\n'),
+      6
+    );
+
+    expect(rows).toHaveLength(1);
+    expect(issues.map((issue) => issue.line)).toEqual([2, 3, 4, 5]);
+    expect(issues[0].message).toMatch(/Invalid address/);
+    expect(issues[1].message).toMatch(/two columns/);
+    expect(issues[2].message).toMatch(/Invalid amount/);
+  });
+
+  it('rejects amounts with more decimals than the mint', () => {
+    const { rows, issues } = parseAirdropCsv(`${alice},0.001`, 2);
+
+    expect(rows).toEqual([]);
+    expect(issues[0].message).toMatch(/at most 2 decimals/);
+  });
+
+  it('keeps only the first row for a repeated address', () => {
+    const { rows, issues } = parseAirdropCsv(`${alice},1\n${bob},2\n${alice},3`, 0);
+
+    expect(rows.map((row) => row.amount)).toEqual(['1', '2']);
+    expect(issues).toEqual([{ line: 3, message: `Duplicate address skipped: ${alice}` }]);
+  });
+
+  it('treats an invalid first line with a numeric amount as a row, not a header', () => {
+    const { rows, issues } = parseAirdropCsv(`oops,5\n${alice},1`, 0);
+
+    expect(rows).toHaveLength(1);
+    expect(issues).toEqual([{ line: 1, message: 'Invalid address: oops' }]);
+  });
+});
+
+describe('buildAirdropChunks', () => {
+  const payer = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+  const nonceAccount = Keypair.generate().publicKey;
+  const rows: AirdropRow[] = Array.from({ length: 40 }, () => ({
+    address: Keypair.generate().publicKey.toBase58(),
+    amount: '1',
+    status: 'pending',
+    signature: null,
+    error: null,
+  }));
+  const rowIndexes = rows.map((_, index) => index);
+
+  // Every recipient already has a token account
+  const connection = {
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map(() => ({})),
+  } as unknown as Connection;
+
+  it('leaves room for the nonce advance the engine adds at send time', async () => {
+    const chunks = await buildAirdropChunks(connection, payer, mint, TOKEN_PROGRAM_ID, 0, rows, rowIndexes, null, nonceAccount);
+    const withoutNonce = await buildAirdropChunks(connection, payer, mint, TOKEN_PROGRAM_ID, 0, rows, rowIndexes);
+
+    expect(chunks[0].rowIndexes.length).toBeLessThan(withoutNonce[0].rowIndexes.length);
+
+    for (const chunk of chunks) {
+      const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions: [
+          SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: payer }),
+          ...getComputeBudgetPlaceholders(),
+          ...chunk.instructions,
+        ],
+      }).compileToV0Message();
+
+      expect(new VersionedTransaction(message).serialize().length).toBeLessThanOrEqual(PACKET_DATA_SIZE);
+    }
+  });
+});
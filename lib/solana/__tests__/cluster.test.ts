@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ClusterName, getExplorerUrl, resolveCluster } from '../cluster';
+
+describe('resolveCluster', () => {
+  it('resolves a preset to its endpoint and derived websocket endpoint', () => {
+    expect(resolveCluster({ name: 'devnet' })).toEqual({
+      name: 'devnet',
+      label: 'Devnet',
+      endpoint: 'https://api.devnet.solana.com',
+      wsEndpoint: 'wss://api.devnet.solana.com',
+      endpoints: ['https://api.devnet.solana.com'],
+    });
+  });
+
+  it('uses the websocket port of the local test validator', () => {
+    expect(resolveCluster({ name: 'localnet' }).wsEndpoint).toBe('ws://127.0.0.1:8900');
+  });
+
+  it('uses a valid custom endpoint and derives its websocket endpoint', () => {
+    const cluster = resolveCluster({ name: 'custom', customEndpoint: ' http://rpc.example.com:8899 ' });
+
+    expect(cluster.name).toBe('custom');
+    expect(cluster.endpoint).toBe('http://rpc.example.com:8899');
+    expect(cluster.wsEndpoint).toBe('ws://rpc.example.com:8899');
+  });
+
+  it('prefers an explicit custom websocket endpoint', () => {
+    const cluster = resolveCluster({
+      name: 'custom',
+      customEndpoint: 'https://rpc.example.com',
+      customWsEndpoint: 'wss://ws.example.com',
+    });
+
+    expect(cluster.wsEndpoint).toBe('wss://ws.example.com');
+  });
+
+  it('falls back to devnet when the custom endpoint is missing or invalid', () => {
+    for (const customEndpoint of [undefined, '', 'rpc.example.com', 'ftp://rpc.example.com']) {
+      expect(resolveCluster({ name: 'custom', customEndpoint }).name).toBe('devnet');
+    }
+  });
+
+  it('falls back to devnet for an unknown persisted name', () => {
+    expect(resolveCluster({ name: 'mainnet' as ClusterName }).name).toBe('devnet');
+  });
+
+  it('appends valid, distinct fallbacks for the selected cluster only', () => {
+    const cluster = resolveCluster({
+      name: 'mainnet-beta',
+      fallbackEndpoints: {
+        'mainnet-beta': [' https://backup.example.com ', 'not a url', 'https://api.mainnet-beta.solana.com'],
+        devnet: ['https://devnet-backup.example.com'],
+      },
+    });
+
+    expect(cluster.endpoints).toEqual(['https://api.mainnet-beta.solana.com', 'https://backup.example.com']);
+  });
+
+  it('keeps devnet fallbacks when an invalid custom selection falls back to devnet', () => {
+    const cluster = resolveCluster({
+      name: 'custom',
+      customEndpoint: '',
+      fallbackEndpoints: { devnet: ['https://devnet-backup.example.com'] },
+    });
+
+    expect(cluster.endpoints).toEqual(['https://api.devnet.solana.com', 'https://devnet-backup.example.com']);
+  });
+});
+
+describe('getExplorerUrl', () => {
+  it('points custom endpoints at the explorer customUrl parameter', () => {
+    const url = getExplorerUrl('tx', 'abc', { name: 'localnet', endpoint: 'http://127.0.0.1:8899' });
+
+    expect(url).toBe('https://explorer.solana.com/tx/abc?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899');
+  });
+});
@@ -0,0 +1,62 @@
+import { Keypair, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { getAdvancedNonceAccount, withNonceAdvanceFirst } from '../durable-nonce';
+
+const authority = Keypair.generate().publicKey;
+const nonceAccount = Keypair.generate().publicKey;
+const otherNonceAccount = Keypair.generate().publicKey;
+
+const advance = (noncePubkey = nonceAccount) =>
+  SystemProgram.nonceAdvance({ noncePubkey, authorizedPubkey: authority });
+const transfer = () =>
+  SystemProgram.transfer({ fromPubkey: authority, toPubkey: Keypair.generate().publicKey, lamports: 1 });
+
+describe('getAdvancedNonceAccount', () => {
+  it('returns the nonce account of an advance instruction', () => {
+    expect(getAdvancedNonceAccount(advance())?.equals(nonceAccount)).toBe(true);
+  });
+
+  it('returns null for other system and non-system instructions', () => {
+    const memo = new TransactionInstruction({
+      programId: Keypair.generate().publicKey,
+      keys: [],
+      data: Buffer.from('hello'),
+    });
+
+    expect(getAdvancedNonceAccount(transfer())).toBeNull();
+    expect(getAdvancedNonceAccount(memo)).toBeNull();
+  });
+});
+
+describe('withNonceAdvanceFirst', () => {
+  it('puts the advance before the other instructions', () => {
+    const instructions = [transfer(), transfer()];
+    const nonceAdvance = advance();
+
+    expect(withNonceAdvanceFirst(instructions, nonceAdvance)).toEqual([nonceAdvance, ...instructions]);
+  });
+
+  it('drops an advance of the same nonce that was already in the list', () => {
+    const first = transfer();
+    const second = transfer();
+    const nonceAdvance = advance();
+
+    expect(withNonceAdvanceFirst([first, advance(), second], nonceAdvance)).toEqual([nonceAdvance, first, second]);
+  });
+
+  it('keeps advances of other nonce accounts', () => {
+    const other = advance(otherNonceAccount);
+    const nonceAdvance = advance();
+
+    expect(withNonceAdvanceFirst([other], nonceAdvance)).toEqual([nonceAdvance, other]);
+  });
+
+  it('does not modify the list it is given', () => {
+    const instructions = [transfer(), advance()];
+    const copy = [...instructions];
+
+    withNonceAdvanceFirst(instructions, advance());
+
+    expect(instructions).toEqual(copy);
+  });
+});
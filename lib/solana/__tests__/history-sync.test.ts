@@ -0,0 +1,224 @@
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  Keypair,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey,
+  SystemProgram,
+  TokenBalance
+} from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { describe, expect, it } from 'vitest';
+import { MAX_SYNC_SIGNATURES, classifyParsedTransaction, syncAddressHistory } from '../history-sync';
+
+const payer = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey.toBase58();
+const source = Keypair.generate().publicKey.toBase58();
+const destination = Keypair.generate().publicKey.toBase58();
+const recipient = Keypair.generate().publicKey.toBase58();
+
+function tokenInstruction(type: string, info: Record<string, unknown>, programId = TOKEN_PROGRAM_ID): ParsedInstruction {
+  return { programId, program: 'spl-token', parsed: { type, info } };
+}
+
+function parsedTransaction(
+  instructions: (ParsedInstruction | PartiallyDecodedInstruction)[],
+  {
+    balances = [],
+    err = null,
+    accounts = [],
+  }: { balances?: TokenBalance[]; err?: unknown; accounts?: string[] } = {}
+): ParsedTransactionWithMeta {
+  return {
+    slot: 1,
+    blockTime: 1700000000,
+    transaction: {
+      signatures: ['sig'],
+      message: {
+        accountKeys: [
+          { pubkey: payer, signer: true, writable: true, source: 'transaction' },
+          ...accounts.map((account) => ({
+            pubkey: new PublicKey(account),
+            signer: false,
+            writable: true,
+            source: 'transaction' as const,
+          })),
+        ],
+        instructions,
+        recentBlockhash: PublicKey.default.toBase58(),
+      },
+    },
+    meta: { err, fee: 5000, preBalances: [], postBalances: [], postTokenBalances: balances, preTokenBalances: [] },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+function balance(accountIndex: number, owner: string, decimals: number): TokenBalance {
+  return { accountIndex, mint, owner, uiTokenAmount: { amount: '0', decimals, uiAmount: 0, uiAmountString: '0' } };
+}
+
+describe('classifyParsedTransaction', () => {
+  it('classifies a checked transfer with its UI amount and recipient owner', () => {
+    const tx = parsedTransaction(
+      [
+        tokenInstruction('transferChecked', {
+          source,
+          destination,
+          mint,
+          tokenAmount: { uiAmount: 2.5, decimals: 6, amount: '2500000' },
+        }),
+      ],
+      { accounts: [source, destination], balances: [balance(2, recipient, 6)] }
+    );
+
+    expect(classifyParsedTransaction('sig', tx)).toEqual({
+      id: 'sig',
+      type: 'send',
+      tokenName: null,
+      tokenSymbol: null,
+      amount: 2.5,
+      mintAddress: mint,
+      recipient,
+      timestamp: 1700000000000,
+      status: 'success',
+      signer: payer.toBase58(),
+    });
+  });
+
+  it('takes the decimals of unchecked instructions from the token balances', () => {
+    const tx = parsedTransaction([tokenInstruction('mintTo', { mint, account: destination, amount: '1500' })], {
+      accounts: [destination],
+      balances: [balance(1, recipient, 3)],
+    });
+
+    expect(classifyParsedTransaction('sig', tx)).toMatchObject({ type: 'mint', amount: 1.5, recipient });
+  });
+
+  it('classifies by the most significant token instruction', () => {
+    const tx = parsedTransaction(
+      [
+        tokenInstruction('initializeMint2', { mint, decimals: 6 }, TOKEN_2022_PROGRAM_ID),
+        tokenInstruction('mintToChecked', { mint, account: destination, tokenAmount: { uiAmount: 100 } }, TOKEN_2022_PROGRAM_ID),
+      ],
+      { accounts: [destination] }
+    );
+
+    expect(classifyParsedTransaction('sig', tx)).toMatchObject({ type: 'create', mintAddress: mint });
+  });
+
+  it('treats several transfers as an airdrop and sums their amounts', () => {
+    const transfer = (uiAmount: number) =>
+      tokenInstruction('transferChecked', { source, destination, mint, tokenAmount: { uiAmount } });
+    const tx = parsedTransaction([transfer(1), transfer(2), transfer(3)]);
+
+    expect(classifyParsedTransaction('sig', tx)).toMatchObject({
+      type: 'airdrop',
+      amount: 6,
+      recipient: '3 recipients',
+    });
+  });
+
+  it('tells revoking an authority apart from transferring it', () => {
+    const revoke = parsedTransaction([tokenInstruction('setAuthority', { mint, authorityType: 'mintTokens', newAuthority: null })]);
+    const transfer = parsedTransaction([
+      tokenInstruction('setAuthority', { mint, authorityType: 'mintTokens', newAuthority: recipient }),
+    ]);
+
+    expect(classifyParsedTransaction('sig', revoke)).toMatchObject({ type: 'revoke-authority', recipient: null });
+    expect(classifyParsedTransaction('sig', transfer)).toMatchObject({ type: 'set-authority', recipient });
+  });
+
+  it('marks transactions that landed with an error', () => {
+    const tx = parsedTransaction([tokenInstruction('burnChecked', { mint, account: source, tokenAmount: { uiAmount: 1 } })], {
+      err: { InstructionError: [0, 'Custom'] },
+    });
+
+    expect(classifyParsedTransaction('sig', tx)).toMatchObject({ type: 'burn', status: 'error' });
+  });
+
+  it('ignores transactions without token instructions', () => {
+    const transfer: ParsedInstruction = {
+      programId: SystemProgram.programId,
+      program: 'system',
+      parsed: { type: 'transfer', info: { lamports: 1 } },
+    };
+
+    expect(classifyParsedTransaction('sig', parsedTransaction([transfer]))).toBeNull();
+  });
+});
+
+describe('syncAddressHistory', () => {
+  // Stub that serves signatures newest first, honouring before, until and limit,
+  // and records which transactions were fetched
+  function connectionWithSignatures(signatures: string[], fetched: string[] = []): Connection {
+    return {
+      getSignaturesForAddress: async (
+        _address: PublicKey,
+        { before, until, limit }: { before?: string; until?: string; limit: number }
+      ): Promise<ConfirmedSignatureInfo[]> => {
+        const start = before ? signatures.indexOf(before) + 1 : 0;
+        const end = until ? signatures.indexOf(until) : signatures.length;
+        return signatures
+          .slice(start, end)
+          .slice(0, limit)
+          .map((signature) => ({ signature, slot: 1, err: null, memo: null, blockTime: null }));
+      },
+      getParsedTransaction: async (signature: string) => {
+        fetched.push(signature);
+        return null;
+      },
+    } as unknown as Connection;
+  }
+
+  const address = Keypair.generate().publicKey;
+  const newestFirst = (count: number, prefix = 's') => Array.from({ length: count }, (_, i) => `${prefix}${count - i}`);
+
+  it('moves the cursor to the newest signature once it reaches the previous one', async () => {
+    const connection = connectionWithSignatures(['s3', 's2', 's1']);
+
+    const { cursor, hasMore } = await syncAddressHistory(connection, address, { until: 's1', before: null, head: null });
+
+    expect(hasMore).toBe(false);
+    expect(cursor).toEqual({ until: 's3', before: null, head: null });
+  });
+
+  it('keeps the old cursor and continues from a backfill cursor when the cap is hit', async () => {
+    const total = MAX_SYNC_SIGNATURES * 2 + 50;
+    const signatures = newestFirst(total);
+    const connection = connectionWithSignatures(signatures);
+
+    const first = await syncAddressHistory(connection, address);
+    expect(first.hasMore).toBe(true);
+    expect(first.cursor).toEqual({
+      until: null,
+      before: signatures[MAX_SYNC_SIGNATURES - 1],
+      head: signatures[0],
+    });
+
+    const second = await syncAddressHistory(connection, address, first.cursor);
+    expect(second.hasMore).toBe(true);
+    expect(second.cursor.before).toBe(signatures[MAX_SYNC_SIGNATURES * 2 - 1]);
+    expect(second.cursor.head).toBe(signatures[0]);
+
+    // The last batch reaches the start of the history, so the walk is done
+    const third = await syncAddressHistory(connection, address, second.cursor);
+    expect(third.hasMore).toBe(false);
+    expect(third.cursor).toEqual({ until: signatures[0], before: null, head: null });
+  });
+
+  it('fetches every signature between the old cursor and the newest one across syncs', async () => {
+    const older = newestFirst(10, 'old');
+    const newer = newestFirst(MAX_SYNC_SIGNATURES + 20, 'new');
+    const fetched: string[] = [];
+    const connection = connectionWithSignatures([...newer, ...older], fetched);
+
+    let result = await syncAddressHistory(connection, address, { until: older[0], before: null, head: null });
+    expect(result.hasMore).toBe(true);
+    result = await syncAddressHistory(connection, address, result.cursor);
+
+    expect(result.hasMore).toBe(false);
+    expect(result.cursor).toEqual({ until: newer[0], before: null, head: null });
+    expect(fetched).toEqual(newer);
+  });
+});
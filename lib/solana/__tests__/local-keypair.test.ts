@@ -0,0 +1,86 @@
+import { Keypair } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import {
+  getStoredLocalKeypair,
+  getUnlockedKeypair,
+  lockLocalKeypair,
+  parseKeypairFile,
+  saveLocalKeypair,
+  toKeypairFile,
+  unlockLocalKeypair
+} from '../local-keypair';
+
+// In-memory stand-in for localStorage
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+describe('parseKeypairFile', () => {
+  it('reads the JSON byte array written by solana-keygen', () => {
+    const keypair = Keypair.generate();
+
+    const parsed = parseKeypairFile(JSON.stringify(Array.from(keypair.secretKey)));
+
+    expect(parsed.publicKey.equals(keypair.publicKey)).toBe(true);
+  });
+
+  it('reads back what toKeypairFile writes, including surrounding whitespace', () => {
+    const keypair = Keypair.generate();
+
+    expect(parseKeypairFile(`\n${toKeypairFile(keypair)}\n`).publicKey.equals(keypair.publicKey)).toBe(true);
+  });
+
+  it('rejects contents that are not JSON', () => {
+    expect(() => parseKeypairFile('not json')).toThrow('The keypair file is not valid JSON');
+  });
+
+  it('rejects anything other than an array of 64 bytes', () => {
+    const bytes = Array.from(Keypair.generate().secretKey);
+
+    for (const value of [{ secretKey: bytes }, bytes.slice(0, 32), [...bytes.slice(0, 63), 256], [...bytes.slice(0, 63), 1.5]]) {
+      expect(() => parseKeypairFile(JSON.stringify(value))).toThrow('Expected a Solana CLI keypair file');
+    }
+  });
+
+  it('rejects 64 bytes whose public half does not match the secret key', () => {
+    const bytes = Array.from(Keypair.generate().secretKey);
+    const mismatched = [...bytes.slice(0, 32), ...Array.from(Keypair.generate().publicKey.toBytes())];
+
+    expect(() => parseKeypairFile(JSON.stringify(mismatched))).toThrow('does not contain a valid secret key');
+  });
+});
+
+describe('saveLocalKeypair and unlockLocalKeypair', () => {
+  it('only stores the public key in the clear and unlocks with the right passphrase', async () => {
+    const storage = memoryStorage();
+    const keypair = Keypair.generate();
+
+    const stored = await saveLocalKeypair(keypair, 'correct horse', storage);
+    lockLocalKeypair();
+
+    expect(getStoredLocalKeypair(storage)).toEqual(stored);
+    expect(JSON.stringify(stored)).not.toContain(toKeypairFile(keypair));
+    expect(getUnlockedKeypair()).toBeNull();
+
+    await expect(unlockLocalKeypair('wrong', storage)).rejects.toThrow('Wrong passphrase');
+    const unlocked = await unlockLocalKeypair('correct horse', storage);
+
+    expect(unlocked.publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(getUnlockedKeypair()).toBe(unlocked);
+    lockLocalKeypair();
+  });
+});
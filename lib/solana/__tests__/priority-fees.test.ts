@@ -0,0 +1,67 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { describe, expect, it, vi } from 'vitest';
+import { applyComputeBudget, estimateComputeUnits } from '../priority-fees';
+
+const payer = Keypair.generate().publicKey;
+
+// One instruction touching more accounts than fit in a transaction without a lookup table
+const accounts = Array.from({ length: 40 }, () => Keypair.generate().publicKey);
+const instruction = new TransactionInstruction({
+  programId: Keypair.generate().publicKey,
+  keys: accounts.map((pubkey) => ({ pubkey, isSigner: false, isWritable: false })),
+  data: Buffer.alloc(0),
+});
+const lookupTable = new AddressLookupTableAccount({
+  key: Keypair.generate().publicKey,
+  state: {
+    deactivationSlot: BigInt('18446744073709551615'),
+    lastExtendedSlot: 0,
+    lastExtendedSlotStartIndex: 0,
+    addresses: accounts,
+  },
+});
+
+// Rejects oversized transactions the way the RPC does
+const connection = {
+  simulateTransaction: async (transaction: VersionedTransaction) => {
+    if (transaction.serialize().length > PACKET_DATA_SIZE) {
+      throw new Error('failed to send transaction: transaction too large');
+    }
+    return { value: { err: null, unitsConsumed: 1000 } };
+  },
+  getRecentPrioritizationFees: async () => [],
+} as unknown as Connection;
+
+describe('estimateComputeUnits', () => {
+  it('simulates with the lookup tables a large transaction is sent with', async () => {
+    expect(await estimateComputeUnits(connection, [instruction], payer, [lookupTable])).toBe(1100);
+  });
+
+  it('cannot simulate the same transaction without them', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await estimateComputeUnits(connection, [instruction], payer)).toBeNull();
+  });
+});
+
+describe('applyComputeBudget', () => {
+  it('sets a compute unit limit on transactions that only fit with their lookup tables', async () => {
+    const transaction = new Transaction().add(instruction);
+
+    await applyComputeBudget(connection, transaction, payer, [lookupTable], { level: 'custom', customMicroLamports: 0 });
+
+    const [limit] = transaction.instructions;
+    expect(limit.programId.equals(ComputeBudgetProgram.programId)).toBe(true);
+    expect(ComputeBudgetInstruction.decodeSetComputeUnitLimit(limit).units).toBe(1100);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { formatTokenAmount, toRawTokenAmount } from '../token-helper';
+
+describe('toRawTokenAmount', () => {
+  it('scales whole and fractional amounts by the decimals', () => {
+    expect(toRawTokenAmount('1', 9)).toBe(BigInt('1000000000'));
+    expect(toRawTokenAmount('1.5', 6)).toBe(BigInt(1500000));
+    expect(toRawTokenAmount('0.000001', 6)).toBe(BigInt(1));
+    expect(toRawTokenAmount('42', 0)).toBe(BigInt(42));
+  });
+
+  it('keeps every digit of amounts a float would round', () => {
+    expect(toRawTokenAmount('0.1', 9)).toBe(BigInt(100000000));
+    expect(toRawTokenAmount('123456789012.123456789', 9)).toBe(BigInt('123456789012123456789'));
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(toRawTokenAmount('  2.25 ', 2)).toBe(BigInt(225));
+  });
+
+  it('rejects more fractional digits than the mint supports', () => {
+    expect(toRawTokenAmount('1.0000001', 6)).toBeNull();
+    expect(toRawTokenAmount('1.5', 0)).toBeNull();
+  });
+
+  it('rejects malformed amounts', () => {
+    for (const value of ['', '-1', '1e3', '1.', '.5', '1,5', 'abc', '0x10']) {
+      expect(toRawTokenAmount(value, 6)).toBeNull();
+    }
+  });
+
+  it('returns zero for zero, leaving positivity checks to the caller', () => {
+    expect(toRawTokenAmount('0', 6)).toBe(BigInt(0));
+    expect(toRawTokenAmount('0.000', 6)).toBe(BigInt(0));
+  });
+});
+
+describe('formatTokenAmount', () => {
+  it('is the inverse of toRawTokenAmount', () => {
+    for (const [value, decimals] of [['1.5', 6], ['0.000001', 6], ['1000', 9], ['7', 0]] as const) {
+      expect(formatTokenAmount(toRawTokenAmount(value, decimals)!, decimals)).toBe(value);
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { Keypair, PublicKey, SystemProgram } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import {
+  TOKEN_METADATA_PROGRAM_ID,
+  TokenMetadataInput,
+  createMetadataAccountV3Instruction,
+  decodeMetadataAccount,
+  getMetadataAddress,
+  validateTokenMetadata
+} from '../token-metadata';
+
+const mint = Keypair.generate().publicKey;
+const authority = Keypair.generate().publicKey;
+
+const metadata: TokenMetadataInput = {
+  name: 'Test Token',
+  symbol: 'TEST',
+  uri: 'https://example.com/token.json',
+  sellerFeeBasisPoints: 250,
+  creators: null,
+};
+
+// Read a Borsh string (u32 length prefix + utf8 bytes) at the given offset
+function readString(data: Buffer, offset: number): { value: string; next: number } {
+  const length = data.readUInt32LE(offset);
+  return { value: data.subarray(offset + 4, offset + 4 + length).toString('utf8'), next: offset + 4 + length };
+}
+
+describe('createMetadataAccountV3Instruction', () => {
+  it('encodes DataV2 after the CreateMetadataAccountV3 discriminator', () => {
+    const { data } = createMetadataAccountV3Instruction(mint, authority, authority, authority, metadata);
+
+    expect(data[0]).toBe(33);
+
+    const name = readString(data, 1);
+    const symbol = readString(data, name.next);
+    const uri = readString(data, symbol.next);
+    expect([name.value, symbol.value, uri.value]).toEqual([metadata.name, metadata.symbol, metadata.uri]);
+
+    expect(data.readUInt16LE(uri.next)).toBe(250);
+    // creators: None, collection: None, uses: None, is_mutable: true, collection_details: None
+    expect([...data.subarray(uri.next + 2)]).toEqual([0, 0, 0, 1, 0]);
+  });
+
+  it('encodes creators as an optional vector of address, verified flag and share', () => {
+    const creator = Keypair.generate().publicKey;
+    const { data } = createMetadataAccountV3Instruction(mint, authority, authority, authority, {
+      ...metadata,
+      creators: [{ address: creator, verified: true, share: 100 }],
+      isMutable: false,
+    });
+
+    const uri = readString(data, readString(data, readString(data, 1).next).next);
+    const creators = data.subarray(uri.next + 2);
+
+    expect(creators[0]).toBe(1);
+    expect(creators.readUInt32LE(1)).toBe(1);
+    expect(new PublicKey(creators.subarray(5, 37)).equals(creator)).toBe(true);
+    expect([...creators.subarray(37)]).toEqual([1, 100, 0, 0, 0, 0]);
+  });
+
+  it('counts multi-byte characters by their utf8 length', () => {
+    const { data } = createMetadataAccountV3Instruction(mint, authority, authority, authority, {
+      ...metadata,
+      name: 'Café ☕',
+    });
+
+    expect(data.readUInt32LE(1)).toBe(Buffer.byteLength('Café ☕'));
+    expect(readString(data, 1).value).toBe('Café ☕');
+  });
+
+  it('targets the metadata PDA of the mint with the signers the program expects', () => {
+    const instruction = createMetadataAccountV3Instruction(mint, authority, authority, authority, metadata);
+
+    expect(instruction.programId.equals(TOKEN_METADATA_PROGRAM_ID)).toBe(true);
+    expect(instruction.keys.map((key) => key.pubkey.toBase58())).toEqual([
+      getMetadataAddress(mint).toBase58(),
+      mint.toBase58(),
+      authority.toBase58(),
+      authority.toBase58(),
+      authority.toBase58(),
+      SystemProgram.programId.toBase58(),
+    ]);
+    expect(instruction.keys.map((key) => key.isSigner)).toEqual([false, false, true, true, true, false]);
+  });
+});
+
+describe('decodeMetadataAccount', () => {
+  it('reads back the strings written by the instruction', () => {
+    const { data } = createMetadataAccountV3Instruction(mint, authority, authority, authority, metadata);
+    // Account layout: key (1) + update authority (32) + mint (32), then the same DataV2 strings
+    const account = Buffer.concat([Buffer.alloc(65), data.subarray(1)]);
+
+    expect(decodeMetadataAccount(account)).toEqual({
+      name: metadata.name,
+      symbol: metadata.symbol,
+      uri: metadata.uri,
+    });
+  });
+
+  it('strips the null padding of older accounts', () => {
+    const padded = (value: string, size: number) => {
+      const bytes = Buffer.alloc(size);
+      bytes.write(value);
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(size);
+      return Buffer.concat([length, bytes]);
+    };
+    const account = Buffer.concat([Buffer.alloc(65), padded('Old', 32), padded('OLD', 10), padded('https://a.b', 200)]);
+
+    expect(decodeMetadataAccount(account)).toEqual({ name: 'Old', symbol: 'OLD', uri: 'https://a.b' });
+  });
+
+  it('returns null for truncated data', () => {
+    expect(decodeMetadataAccount(Buffer.alloc(10))).toBeNull();
+  });
+});
+
+describe('validateTokenMetadata', () => {
+  it('accepts metadata within the program limits', () => {
+    expect(validateTokenMetadata(metadata)).toBeNull();
+  });
+
+  it('measures the name in bytes rather than characters', () => {
+    expect(validateTokenMetadata({ ...metadata, name: 'é'.repeat(17) })).toMatch(/Name/);
+  });
+
+  it('requires creator shares to add up to 100', () => {
+    const creators = [
+      { address: Keypair.generate().publicKey, verified: false, share: 60 },
+      { address: Keypair.generate().publicKey, verified: false, share: 30 },
+    ];
+    expect(validateTokenMetadata({ ...metadata, creators })).toMatch(/add up to 100/);
+  });
+});
@@ -0,0 +1,46 @@
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DryRunError, setDryRun } from '../simulation';
+import { TransactionLifecycleEvent, broadcastSignedTransaction } from '../transaction-engine';
+
+const payer = Keypair.generate();
+
+function signedTransfer(): Transaction {
+  const transaction = new Transaction({
+    feePayer: payer.publicKey,
+    blockhash: PublicKey.default.toBase58(),
+    lastValidBlockHeight: 100,
+  }).add(SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 }));
+  transaction.sign(payer);
+  return transaction;
+}
+
+function stubConnection(sendRawTransaction = vi.fn(async () => 'sig')) {
+  return {
+    sendRawTransaction,
+    getLatestBlockhash: async () => ({ blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 100 }),
+    isBlockhashValid: async () => ({ value: true }),
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map(() => null),
+    simulateTransaction: async () => ({ value: { err: null, logs: [], accounts: null, unitsConsumed: 150 } }),
+    getFeeForMessage: async () => ({ value: 5000 }),
+  } as unknown as Connection;
+}
+
+describe('broadcastSignedTransaction', () => {
+  afterEach(() => setDryRun(false));
+
+  it('simulates instead of sending in dry-run mode', async () => {
+    const sendRawTransaction = vi.fn(async () => 'sig');
+    const events: TransactionLifecycleEvent['type'][] = [];
+    setDryRun(true);
+
+    await expect(
+      broadcastSignedTransaction(stubConnection(sendRawTransaction), signedTransfer(), {
+        onEvent: (event) => events.push(event.type),
+      })
+    ).rejects.toBeInstanceOf(DryRunError);
+
+    expect(sendRawTransaction).not.toHaveBeenCalled();
+    expect(events).toEqual(['simulated', 'failed']);
+  });
+});
@@ -0,0 +1,73 @@
+import { Connection, Keypair, NONCE_ACCOUNT_LENGTH, PublicKey, SignatureStatus, SystemProgram } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { reconcileSignatures } from '../transaction-reconciler';
+
+const nonceAccount = Keypair.generate().publicKey.toBase58();
+const sentNonce = Keypair.generate().publicKey.toBase58();
+const advancedNonce = Keypair.generate().publicKey.toBase58();
+
+// Initialized nonce account data: version, state, authority, then the nonce itself
+function nonceAccountData(nonce: string): Buffer {
+  const data = Buffer.alloc(NONCE_ACCOUNT_LENGTH);
+  data.writeUInt32LE(1, 0);
+  data.writeUInt32LE(1, 4);
+  new PublicKey(nonce).toBuffer().copy(data, 40);
+  return data;
+}
+
+function connectionWith(
+  statuses: Record<string, SignatureStatus | null>,
+  { blockHeight = 1000, nonce = sentNonce }: { blockHeight?: number; nonce?: string | null } = {}
+): Connection {
+  return {
+    getBlockHeight: async () => blockHeight,
+    getSignatureStatuses: async (signatures: string[]) => ({
+      value: signatures.map((signature) => statuses[signature] ?? null),
+    }),
+    getMultipleAccountsInfo: async (keys: PublicKey[]) =>
+      keys.map(() => (nonce ? { owner: SystemProgram.programId, data: nonceAccountData(nonce) } : null)),
+  } as unknown as Connection;
+}
+
+describe('reconcileSignatures', () => {
+  it('expires blockhash transactions once the block height passes their expiry', async () => {
+    const connection = connectionWith({});
+
+    expect(
+      await reconcileSignatures(connection, [
+        { id: 'old', lastValidBlockHeight: 999 },
+        { id: 'recent', lastValidBlockHeight: 1000 },
+      ])
+    ).toEqual([{ id: 'old', status: 'expired' }]);
+  });
+
+  it('resolves landed transactions whatever their expiry', async () => {
+    const connection = connectionWith({
+      landed: { slot: 1, confirmations: null, err: null, confirmationStatus: 'confirmed' },
+    });
+
+    expect(await reconcileSignatures(connection, [{ id: 'landed', lastValidBlockHeight: 1 }])).toEqual([
+      { id: 'landed', status: 'success' },
+    ]);
+  });
+
+  describe('with a durable nonce', () => {
+    const entry = { id: 'durable', lastValidBlockHeight: 1, nonce: { account: nonceAccount, nonce: sentNonce } };
+
+    it('keeps the transaction pending past its block height while the nonce is unchanged', async () => {
+      expect(await reconcileSignatures(connectionWith({}), [entry])).toEqual([]);
+    });
+
+    it('expires the transaction once the nonce has advanced without it', async () => {
+      const connection = connectionWith({}, { nonce: advancedNonce });
+
+      expect(await reconcileSignatures(connection, [entry])).toEqual([{ id: 'durable', status: 'expired' }]);
+    });
+
+    it('expires the transaction once the nonce account is closed', async () => {
+      expect(await reconcileSignatures(connectionWith({}, { nonce: null }), [entry])).toEqual([
+        { id: 'durable', status: 'expired' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { AccountInfo, Commitment, Connection, PublicKey } from '@solana/web3.js';
+
+// Entries nobody has invalidated are refetched after this long, to pick up changes made elsewhere
+const DEFAULT_MAX_AGE_MS = 30000;
+
+interface CacheEntry {
+  // Undefined until the first fetch resolves
+  account: AccountInfo<Buffer> | null | undefined;
+  // Slot the account was read at; older updates never replace newer ones
+  slot: number;
+  fetchedAt: number;
+  pending: Promise<AccountInfo<Buffer> | null> | null;
+}
+
+// Per connection: address -> commitment -> entry
+type AccountCache = Map<string, Map<Commitment, CacheEntry>>;
+
+const caches = new WeakMap<Connection, AccountCache>();
+
+function getCache(connection: Connection): AccountCache {
+  let cache = caches.get(connection);
+  if (!cache) {
+    cache = new Map();
+    caches.set(connection, cache);
+  }
+  return cache;
+}
+
+function getEntries(connection: Connection, address: string): Map<Commitment, CacheEntry> {
+  const cache = getCache(connection);
+  let entries = cache.get(address);
+  if (!entries) {
+    entries = new Map();
+    cache.set(address, entries);
+  }
+  return entries;
+}
+
+/**
+ * Read-through cache for getAccountInfo. Concurrent reads of the same account
+ * and commitment share one request, and results are reused until the account
+ * is invalidated or maxAgeMs passes.
+ */
+export async function getCachedAccountInfo(
+  connection: Connection,
+  address: PublicKey,
+  commitment: Commitment = 'confirmed',
+  maxAgeMs = DEFAULT_MAX_AGE_MS
+): Promise<AccountInfo<Buffer> | null> {
+  const entries = getEntries(connection, address.toBase58());
+  const cached = entries.get(commitment);
+
+  if (cached?.pending) return cached.pending;
+  if (cached && cached.account !== undefined && Date.now() - cached.fetchedAt < maxAgeMs) {
+    return cached.account;
+  }
+
+  const entry: CacheEntry = { account: undefined, slot: cached?.slot ?? 0, fetchedAt: 0, pending: null };
+  entry.pending = connection
+    .getAccountInfoAndContext(address, commitment)
+    .then(({ context, value }) => {
+      // Only store the result if the entry wasn't invalidated or updated while in flight
+      if (entries.get(commitment) === entry && entry.pending) {
+        entry.account = value;
+        entry.slot = Math.max(entry.slot, context.slot);
+        entry.fetchedAt = Date.now();
+        entry.pending = null;
+      }
+      return value;
+    })
+    .catch((error) => {
+      if (entries.get(commitment) === entry) {
+        entries.delete(commitment);
+      }
+      throw error;
+    });
+  entries.set(commitment, entry);
+
+  return entry.pending;
+}
+
+/**
+ * Store an account state seen elsewhere, e.g. an account subscription
+ * notification. Cached reads at other commitments from before the slot are dropped.
+ */
+export function updateCachedAccount(
+  connection: Connection,
+  address: PublicKey,
+  account: AccountInfo<Buffer> | null,
+  slot: number,
+  commitment: Commitment
+): void {
+  const entries = getEntries(connection, address.toBase58());
+
+  entries.forEach((entry, entryCommitment) => {
+    if (entryCommitment !== commitment && entry.slot < slot) {
+      entries.delete(entryCommitment);
+    }
+  });
+
+  const current = entries.get(commitment);
+  if (current && current.slot > slot) return;
+  entries.set(commitment, { account, slot, fetchedAt: Date.now(), pending: null });
+}
+
+/**
+ * Drop cached reads of the given accounts, e.g. after our own transaction wrote to them
+ */
+export function invalidateAccounts(connection: Connection, addresses: PublicKey[]): void {
+  const cache = getCache(connection);
+  addresses.forEach((address) => cache.delete(address.toBase58()));
+}
+
+/**
+ * Drop every cached read for a connection
+ */
+export function clearAccountCache(connection: Connection): void {
+  caches.delete(connection);
+}
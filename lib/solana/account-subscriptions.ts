@@ -0,0 +1,244 @@
+import { AccountInfo, Commitment, Connection, PublicKey } from '@solana/web3.js';
+import { updateCachedAccount } from './account-cache';
+
+// Without a slot notification for this long the WebSocket is considered dropped
+const SOCKET_STALE_MS = 5000;
+
+// How often the socket is checked, and accounts are polled while it is down
+const POLL_INTERVAL_MS = 2000;
+
+// getMultipleAccountsInfo accepts at most 100 keys per request
+const ACCOUNT_LOOKUP_BATCH_SIZE = 100;
+
+export type AccountChangeListener = (account: AccountInfo<Buffer> | null, slot: number) => void;
+
+export type SubscriptionMode = 'websocket' | 'polling';
+
+interface AccountSubscription {
+  address: PublicKey;
+  listeners: Set<AccountChangeListener>;
+  subscriptionId: number | null;
+  // Last known state, delivered to listeners that join later
+  account: AccountInfo<Buffer> | null | undefined;
+  slot: number;
+}
+
+function accountsEqual(a: AccountInfo<Buffer> | null | undefined, b: AccountInfo<Buffer> | null): boolean {
+  if (!a || !b) return a === b;
+  return a.lamports === b.lamports && a.owner.equals(b.owner) && a.data.equals(b.data);
+}
+
+/**
+ * Shares one onAccountChange subscription per account between every listener,
+ * using reference counts to unsubscribe when the last listener leaves. A slot
+ * subscription acts as a heartbeat: when it goes quiet the WebSocket is
+ * assumed dropped and subscribed accounts are polled until it recovers.
+ */
+export class AccountSubscriptionManager {
+  private subscriptions = new Map<string, AccountSubscription>();
+  private slotSubscriptionId: number | null = null;
+  private lastSlotAt = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private mode: SubscriptionMode = 'websocket';
+  private modeListeners = new Set<(mode: SubscriptionMode) => void>();
+
+  constructor(private connection: Connection, private commitment: Commitment = 'confirmed') {}
+
+  /**
+   * Call the listener with the account's current state and again whenever it
+   * changes. Returns a function that removes the listener.
+   */
+  subscribe(address: PublicKey, listener: AccountChangeListener): () => void {
+    const key = address.toBase58();
+    let subscription = this.subscriptions.get(key);
+
+    if (!subscription) {
+      subscription = { address, listeners: new Set(), subscriptionId: null, account: undefined, slot: 0 };
+      this.subscriptions.set(key, subscription);
+      this.openAccountSubscription(subscription);
+      this.refresh([subscription]);
+      this.start();
+    } else if (subscription.account !== undefined) {
+      listener(subscription.account, subscription.slot);
+    }
+
+    subscription.listeners.add(listener);
+
+    return () => {
+      const current = this.subscriptions.get(key);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        this.closeAccountSubscription(current);
+        this.subscriptions.delete(key);
+        if (this.subscriptions.size === 0) this.stop();
+      }
+    };
+  }
+
+  getMode(): SubscriptionMode {
+    return this.mode;
+  }
+
+  onModeChange(listener: (mode: SubscriptionMode) => void): () => void {
+    this.modeListeners.add(listener);
+    return () => {
+      this.modeListeners.delete(listener);
+    };
+  }
+
+  private setMode(mode: SubscriptionMode): void {
+    if (this.mode === mode) return;
+    this.mode = mode;
+    console.log(`Account subscriptions switched to ${mode}`);
+    this.modeListeners.forEach((listener) => listener(mode));
+  }
+
+  private deliver(subscription: AccountSubscription, account: AccountInfo<Buffer> | null, slot: number): void {
+    // Ignore stale updates, e.g. a poll that resolves after a newer notification
+    if (slot < subscription.slot) return;
+    updateCachedAccount(this.connection, subscription.address, account, slot, this.commitment);
+    const changed = subscription.account === undefined || !accountsEqual(subscription.account, account);
+    subscription.account = account;
+    subscription.slot = slot;
+    if (changed) {
+      subscription.listeners.forEach((listener) => listener(account, slot));
+    }
+  }
+
+  private openAccountSubscription(subscription: AccountSubscription): void {
+    try {
+      subscription.subscriptionId = this.connection.onAccountChange(
+        subscription.address,
+        (account, context) => this.deliver(subscription, account, context.slot),
+        { commitment: this.commitment }
+      );
+    } catch (error) {
+      console.error('Error subscribing to account:', error);
+      subscription.subscriptionId = null;
+    }
+  }
+
+  private closeAccountSubscription(subscription: AccountSubscription): void {
+    if (subscription.subscriptionId === null) return;
+    this.connection.removeAccountChangeListener(subscription.subscriptionId).catch(console.error);
+    subscription.subscriptionId = null;
+  }
+
+  /**
+   * Fetch the given accounts over HTTP and deliver any changes
+   */
+  private async refresh(subscriptions: AccountSubscription[]): Promise<void> {
+    for (let i = 0; i < subscriptions.length; i += ACCOUNT_LOOKUP_BATCH_SIZE) {
+      const batch = subscriptions.slice(i, i + ACCOUNT_LOOKUP_BATCH_SIZE);
+      try {
+        const { context, value } = await this.connection.getMultipleAccountsInfoAndContext(
+          batch.map((subscription) => subscription.address),
+          this.commitment
+        );
+        batch.forEach((subscription, j) => {
+          // Skip accounts that were unsubscribed while the request was in flight
+          if (this.subscriptions.get(subscription.address.toBase58()) === subscription) {
+            this.deliver(subscription, value[j], context.slot);
+          }
+        });
+      } catch (error) {
+        console.error('Error polling accounts:', error);
+      }
+    }
+  }
+
+  private start(): void {
+    if (this.timer) return;
+
+    this.lastSlotAt = Date.now();
+    try {
+      this.slotSubscriptionId = this.connection.onSlotChange(() => {
+        this.lastSlotAt = Date.now();
+      });
+    } catch (error) {
+      console.error('Error subscribing to slots:', error);
+    }
+
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+  }
+
+  private stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.slotSubscriptionId !== null) {
+      this.connection.removeSlotChangeListener(this.slotSubscriptionId).catch(console.error);
+      this.slotSubscriptionId = null;
+    }
+    this.setMode('websocket');
+  }
+
+  private tick(): void {
+    const socketAlive = Date.now() - this.lastSlotAt < SOCKET_STALE_MS;
+    const all = Array.from(this.subscriptions.values());
+
+    if (socketAlive) {
+      if (this.mode === 'polling') {
+        // Back online: resubscribe and catch up on anything missed while polling
+        all.forEach((subscription) => {
+          this.closeAccountSubscription(subscription);
+          this.openAccountSubscription(subscription);
+        });
+        this.refresh(all);
+        this.setMode('websocket');
+      }
+      return;
+    }
+
+    this.setMode('polling');
+    this.refresh(all);
+  }
+}
+
+const managers = new WeakMap<Connection, AccountSubscriptionManager>();
+
+/**
+ * The subscription manager for a connection, so every component on the same
+ * connection shares subscriptions
+ */
+export function getAccountSubscriptionManager(connection: Connection): AccountSubscriptionManager {
+  let manager = managers.get(connection);
+  if (!manager) {
+    manager = new AccountSubscriptionManager(connection);
+    managers.set(connection, manager);
+  }
+  return manager;
+}
+
+// Offsets into the base token account layout, shared by SPL Token and Token-2022
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+const TOKEN_ACCOUNT_STATE_OFFSET = 108;
+const TOKEN_ACCOUNT_FROZEN_STATE = 2;
+
+// Offsets of the supply and decimals in the base mint layout
+const MINT_SUPPLY_OFFSET = 36;
+const MINT_DECIMALS_OFFSET = 44;
+
+/**
+ * Read the amount and frozen flag from token account data, null if it isn't a token account
+ */
+export function decodeTokenAccountBalance(data: Buffer): { amount: bigint; frozen: boolean } | null {
+  if (data.length < TOKEN_ACCOUNT_STATE_OFFSET + 1) return null;
+  return {
+    amount: data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET),
+    frozen: data[TOKEN_ACCOUNT_STATE_OFFSET] === TOKEN_ACCOUNT_FROZEN_STATE,
+  };
+}
+
+/**
+ * Read the raw supply and decimals from mint account data, null if it isn't a mint
+ */
+export function decodeMintSupply(data: Buffer): { supply: bigint; decimals: number } | null {
+  if (data.length < MINT_DECIMALS_OFFSET + 1) return null;
+  return {
+    supply: data.readBigUInt64LE(MINT_SUPPLY_OFFSET),
+    decimals: data[MINT_DECIMALS_OFFSET],
+  };
+}
@@ -0,0 +1,263 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountInstruction,
+  createTransferCheckedInstruction
+} from '@solana/spl-token';
+import { isValidPublicKey } from './connection-helper';
+import { NonceReference } from './durable-nonce';
+import { getComputeBudgetPlaceholders } from './priority-fees';
+import { toRawTokenAmount } from './token-helper';
+import { getAssociatedTokenAddressForProgram } from './token-program';
+
+// getMultipleAccountsInfo accepts at most 100 keys per request
+const ACCOUNT_LOOKUP_BATCH_SIZE = 100;
+
+// A transaction can lock at most 64 accounts, including ones loaded from lookup tables
+const MAX_TRANSACTION_ACCOUNTS = 64;
+
+// Placeholder used only to measure the serialized size of a transaction
+const SIZE_CHECK_BLOCKHASH = PublicKey.default.toBase58();
+
+export type AirdropRowStatus = 'pending' | 'sending' | 'success' | 'error';
+
+export interface AirdropRow {
+  address: string;
+  amount: string;
+  status: AirdropRowStatus;
+  signature: string | null;
+  // Last block height the signature can land at, recorded when it is sent
+  lastValidBlockHeight?: number;
+  // Nonce the signature was built against, for durable nonce sends
+  nonce?: NonceReference;
+  error: string | null;
+}
+
+export interface AirdropParseIssue {
+  line: number;
+  message: string;
+}
+
+export interface AirdropChunk {
+  rowIndexes: number[];
+  instructions: TransactionInstruction[];
+  createdAccounts: number;
+}
+
+/**
+ * Parse `address,amount` lines into airdrop rows. A header line is skipped,
+ * invalid lines are reported, and repeated addresses keep only their first row.
+ */
+export function parseAirdropCsv(
+  text: string,
+  decimals: number
+): { rows: AirdropRow[]; issues: AirdropParseIssue[] } {
+  const rows: AirdropRow[] = [];
+  const issues: AirdropParseIssue[] = [];
+  const seen = new Set<string>();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (!line) return;
+
+    const [address = '', amount = '', ...rest] = line.split(',').map((part) => part.trim());
+
+    if (index === 0 && !isValidPublicKey(address) && isNaN(Number(amount))) {
+      return; // Header row
+    }
+
+    if (rest.length > 0) {
+      issues.push({ line: lineNumber, message: 'Expected exactly two columns: address,amount' });
+      return;
+    }
+    if (!isValidPublicKey(address)) {
+      issues.push({ line: lineNumber, message: `Invalid address: ${address || '(empty)'}` });
+      return;
+    }
+
+    const raw = toRawTokenAmount(amount, decimals);
+    if (raw === null || raw <= BigInt(0)) {
+      issues.push({
+        line: lineNumber,
+        message: `Invalid amount "${amount}" (must be positive with at most ${decimals} decimals)`,
+      });
+      return;
+    }
+
+    const normalized = new PublicKey(address).toBase58();
+    if (seen.has(normalized)) {
+      issues.push({ line: lineNumber, message: `Duplicate address skipped: ${normalized}` });
+      return;
+    }
+    seen.add(normalized);
+
+    rows.push({ address: normalized, amount, status: 'pending', signature: null, error: null });
+  });
+
+  return { rows, issues };
+}
+
+/**
+ * Size of the v0 transaction once signed by its fee payer, including the
+ * compute budget instructions and nonce advance added at send time, and the
+ * number of unique accounts it references
+ */
+function measureTransaction(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[],
+  nonceAccount: PublicKey | null
+): { size: number; accounts: number } {
+  const sendTimeInstructions = nonceAccount
+    ? [SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: payer }), ...getComputeBudgetPlaceholders()]
+    : getComputeBudgetPlaceholders();
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: SIZE_CHECK_BLOCKHASH,
+    instructions: [...sendTimeInstructions, ...instructions],
+  }).compileToV0Message(lookupTables);
+  const signatureCount = message.header.numRequiredSignatures;
+  const loadedAccounts = message.addressTableLookups.reduce(
+    (count, lookup) => count + lookup.writableIndexes.length + lookup.readonlyIndexes.length,
+    0
+  );
+  return {
+    // compact-u16 signature count prefix is a single byte for fewer than 128 signers
+    size: 1 + signatureCount * 64 + message.serialize().length,
+    accounts: message.staticAccountKeys.length + loadedAccounts,
+  };
+}
+
+/**
+ * Addresses worth putting in a lookup table for an airdrop: the shared
+ * program and mint accounts plus each recipient and their token account
+ */
+export function getAirdropLookupAddresses(
+  payer: PublicKey,
+  mint: PublicKey,
+  programId: PublicKey,
+  rows: AirdropRow[]
+): PublicKey[] {
+  const addresses = [
+    mint,
+    programId,
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    SystemProgram.programId,
+    getAssociatedTokenAddressForProgram(mint, payer, programId),
+  ];
+
+  rows.forEach((row) => {
+    const owner = new PublicKey(row.address);
+    addresses.push(owner, getAssociatedTokenAddressForProgram(mint, owner, programId, true));
+  });
+
+  return addresses;
+}
+
+/**
+ * Build the transfer (and ATA creation where needed) instructions for the
+ * given rows and pack as many as fit into each transaction. Accounts found in
+ * the lookup table only take one byte each, so far more rows fit per chunk,
+ * up to the limit on accounts a transaction can lock. Chunks sent against a
+ * durable nonce need room for the nonce advance, so pass its account too.
+ */
+export async function buildAirdropChunks(
+  connection: Connection,
+  payer: PublicKey,
+  mint: PublicKey,
+  programId: PublicKey,
+  decimals: number,
+  rows: AirdropRow[],
+  rowIndexes: number[],
+  lookupTable: AddressLookupTableAccount | null = null,
+  nonceAccount: PublicKey | null = null
+): Promise<AirdropChunk[]> {
+  const lookupTables = lookupTable ? [lookupTable] : [];
+  const sourceAccount = getAssociatedTokenAddressForProgram(mint, payer, programId);
+
+  const recipients = rowIndexes.map((rowIndex) => {
+    const owner = new PublicKey(rows[rowIndex].address);
+    return {
+      rowIndex,
+      owner,
+      tokenAccount: getAssociatedTokenAddressForProgram(mint, owner, programId, true),
+    };
+  });
+
+  // Find out which recipients still need an associated token account
+  const existing = new Set<string>();
+  for (let i = 0; i < recipients.length; i += ACCOUNT_LOOKUP_BATCH_SIZE) {
+    const batch = recipients.slice(i, i + ACCOUNT_LOOKUP_BATCH_SIZE);
+    const infos = await connection.getMultipleAccountsInfo(batch.map((recipient) => recipient.tokenAccount));
+    infos.forEach((info, j) => {
+      if (info) existing.add(batch[j].tokenAccount.toBase58());
+    });
+  }
+
+  const chunks: AirdropChunk[] = [];
+  let current: AirdropChunk = { rowIndexes: [], instructions: [], createdAccounts: 0 };
+
+  for (const recipient of recipients) {
+    const needsAccount = !existing.has(recipient.tokenAccount.toBase58());
+    const rowInstructions: TransactionInstruction[] = [];
+
+    if (needsAccount) {
+      rowInstructions.push(
+        createAssociatedTokenAccountInstruction(
+          payer,
+          recipient.tokenAccount,
+          recipient.owner,
+          mint,
+          programId,
+          ASSOCIATED_TOKEN_PROGRAM_ID
+        )
+      );
+    }
+
+    rowInstructions.push(
+      createTransferCheckedInstruction(
+        sourceAccount,
+        mint,
+        recipient.tokenAccount,
+        payer,
+        toRawTokenAmount(rows[recipient.rowIndex].amount, decimals) as bigint,
+        decimals,
+        [],
+        programId
+      )
+    );
+
+    const candidate = measureTransaction(
+      [...current.instructions, ...rowInstructions],
+      payer,
+      lookupTables,
+      nonceAccount
+    );
+    if (
+      current.rowIndexes.length > 0 &&
+      (candidate.size > PACKET_DATA_SIZE || candidate.accounts > MAX_TRANSACTION_ACCOUNTS)
+    ) {
+      chunks.push(current);
+      current = { rowIndexes: [], instructions: [], createdAccounts: 0 };
+    }
+
+    current.rowIndexes.push(recipient.rowIndex);
+    current.instructions.push(...rowInstructions);
+    if (needsAccount) current.createdAccounts++;
+  }
+
+  if (current.rowIndexes.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
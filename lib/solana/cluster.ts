@@ -0,0 +1,112 @@
+export type ClusterName = 'devnet' | 'testnet' | 'mainnet-beta' | 'localnet' | 'custom';
+
+/**
+ * The cluster selection we persist. Custom endpoints are only used when
+ * `name` is 'custom'.
+ */
+export interface ClusterSelection {
+  name: ClusterName;
+  customEndpoint?: string;
+  customWsEndpoint?: string;
+  // Additional RPC URLs per cluster that requests can fail over to
+  fallbackEndpoints?: Partial<Record<ClusterName, string[]>>;
+}
+
+export interface ResolvedCluster {
+  name: ClusterName;
+  label: string;
+  // Primary endpoint; it identifies the cluster in history and explorer links
+  endpoint: string;
+  wsEndpoint: string;
+  // The primary endpoint followed by valid fallbacks
+  endpoints: string[];
+}
+
+export const CLUSTERS: Record<ClusterName, { label: string; endpoint: string; wsEndpoint?: string }> = {
+  devnet: { label: 'Devnet', endpoint: 'https://api.devnet.solana.com' },
+  testnet: { label: 'Testnet', endpoint: 'https://api.testnet.solana.com' },
+  'mainnet-beta': { label: 'Mainnet Beta', endpoint: 'https://api.mainnet-beta.solana.com' },
+  // solana-test-validator serves websockets on the RPC port + 1
+  localnet: { label: 'Localnet', endpoint: 'http://127.0.0.1:8899', wsEndpoint: 'ws://127.0.0.1:8900' },
+  custom: { label: 'Custom RPC', endpoint: '' },
+};
+
+export const DEFAULT_CLUSTER: ClusterSelection = { name: 'devnet' };
+
+/**
+ * Derive the websocket endpoint for an HTTP RPC endpoint
+ */
+export function toWsEndpoint(endpoint: string): string {
+  return endpoint.replace('https://', 'wss://').replace('http://', 'ws://');
+}
+
+/**
+ * Check that an RPC or websocket URL is usable
+ */
+export function isValidEndpoint(url: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a persisted selection to concrete endpoints. A custom selection
+ * without a valid RPC URL falls back to devnet.
+ */
+export function resolveCluster(selection: ClusterSelection): ResolvedCluster {
+  const withFallbacks = (name: ClusterName, endpoint: string): string[] => {
+    const fallbacks = (selection.fallbackEndpoints?.[name] ?? [])
+      .map((url) => url.trim())
+      .filter((url) => isValidEndpoint(url, ['http:', 'https:']));
+    return Array.from(new Set([endpoint, ...fallbacks]));
+  };
+
+  if (selection.name === 'custom') {
+    const endpoint = selection.customEndpoint?.trim() ?? '';
+    if (isValidEndpoint(endpoint, ['http:', 'https:'])) {
+      const wsEndpoint = selection.customWsEndpoint?.trim();
+      return {
+        name: 'custom',
+        label: CLUSTERS.custom.label,
+        endpoint,
+        wsEndpoint: wsEndpoint || toWsEndpoint(endpoint),
+        endpoints: withFallbacks('custom', endpoint),
+      };
+    }
+    return resolveCluster({ ...DEFAULT_CLUSTER, fallbackEndpoints: selection.fallbackEndpoints });
+  }
+
+  const name = selection.name in CLUSTERS ? selection.name : DEFAULT_CLUSTER.name;
+  const preset = CLUSTERS[name];
+  return {
+    name,
+    label: preset.label,
+    endpoint: preset.endpoint,
+    wsEndpoint: preset.wsEndpoint ?? toWsEndpoint(preset.endpoint),
+    endpoints: withFallbacks(name, preset.endpoint),
+  };
+}
+
+/**
+ * Build a Solana Explorer link for a transaction or address on the given cluster.
+ * Localnet and custom RPCs go through the explorer's customUrl parameter.
+ */
+export function getExplorerUrl(
+  kind: 'tx' | 'address',
+  value: string,
+  cluster: Pick<ResolvedCluster, 'name' | 'endpoint'>
+): string {
+  const base = `https://explorer.solana.com/${kind}/${value}`;
+
+  switch (cluster.name) {
+    case 'mainnet-beta':
+      return base;
+    case 'devnet':
+    case 'testnet':
+      return `${base}?cluster=${cluster.name}`;
+    default:
+      return `${base}?cluster=custom&customUrl=${encodeURIComponent(cluster.endpoint)}`;
+  }
+}
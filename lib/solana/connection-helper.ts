@@ -1,49 +1,43 @@
 import { Connection, PublicKey, Commitment } from '@solana/web3.js';
+import { toWsEndpoint } from './cluster';
+import { checkRpcHealth, configureRpcPool, failoverFetch, getRpcPoolEndpoints } from './rpc-pool';
 
 // Connection cache to avoid creating new connections
 const connectionCache: Record<string, Connection> = {};
 
-// Super fast connection pool for immediate access
-const CONNECTION_POOL_SIZE = 2;
-const connectionPool: Connection[] = [];
-let connectionInitialized = false;
+// Connection shared by the app for the selected cluster; its requests are
+// routed across the cluster's endpoints by the RPC pool
+let pooledConnection: Connection | null = null;
+let poolEndpoint: string | null = null;
 
 // Increase the default transaction confirmation timeouts for better reliability
 const DEFAULT_TRANSACTION_TIMEOUT = 120000; // 120 seconds instead of 60
 
 /**
- * Initialize a pool of connections for quick access - ultra fast version
- * This dramatically improves initial connection speed
+ * Point the RPC pool at the selected cluster's endpoints. The first endpoint
+ * is the primary one; calls go to whichever endpoint is healthiest.
+ * Calling it again after a cluster switch or endpoint change rebuilds the pool.
  */
-export function initConnectionPool(endpoint: string, size = 2): void {
-  if (typeof window === 'undefined') return;
-  if (connectionInitialized) return; // Already initialized
-  
-  // Mark as initialized immediately to prevent duplicate initialization attempts
-  connectionInitialized = true;
-  
-  console.log("Initializing connection pool...");
-  const startTime = performance.now();
-  
-  // Create connections with improved config for better reliability
-  for (let i = 0; i < size; i++) {
-    connectionPool.push(new Connection(endpoint, {
-      commitment: 'confirmed',
-      confirmTransactionInitialTimeout: DEFAULT_TRANSACTION_TIMEOUT,
-      disableRetryOnRateLimit: false, // Enable retries on rate limit
-      wsEndpoint: endpoint.replace('https://', 'wss://').replace('http://', 'ws://'), // Enable WebSocket for better performance
-    }));
+export function initConnectionPool(endpoints: string[], wsEndpoint?: string): void {
+  if (typeof window === 'undefined' || endpoints.length === 0) return;
+
+  const [endpoint] = endpoints;
+  const current = getRpcPoolEndpoints();
+  if (poolEndpoint === endpoint && current.length === endpoints.length && current.every((url, i) => url === endpoints[i])) {
+    return; // Already initialized
   }
-  
-  // Pre-warm the connection without blocking the UI
-  setTimeout(() => {
-    preWarmConnection(endpoint)
-      .then(() => {
-        const endTime = performance.now();
-        console.log(`Connection pre-warm completed in ${Math.round(endTime - startTime)}ms`);
-      })
-      .catch(console.error);
-  }, 100);
+
+  console.log(`Initializing RPC pool with ${endpoints.length} endpoint(s)...`);
+  configureRpcPool(endpoints);
+
+  poolEndpoint = endpoint;
+  pooledConnection = new Connection(endpoint, {
+    commitment: 'confirmed',
+    confirmTransactionInitialTimeout: DEFAULT_TRANSACTION_TIMEOUT,
+    disableRetryOnRateLimit: false, // Enable retries on rate limit
+    wsEndpoint: wsEndpoint || toWsEndpoint(endpoint), // Enable WebSocket for better performance
+    fetch: failoverFetch,
+  });
 }
 
 /**
@@ -51,22 +45,25 @@ export function initConnectionPool(endpoint: string, size = 2): void {
  */
 export function getCachedConnection(
   endpoint: string,
-  commitment: Commitment = 'processed'
+  commitment: Commitment = 'processed',
+  wsEndpoint?: string
 ): Connection {
-  // Fast path: return from pool if available
-  if (connectionPool.length > 0) {
-    return connectionPool[0];
+  // Fast path: return the pooled connection if it was built for this endpoint
+  if (pooledConnection && poolEndpoint === endpoint) {
+    return pooledConnection;
   }
   
   // Fallback path
-  const cacheKey = `${endpoint}-${commitment}`;
+  const cacheKey = `${endpoint}-${wsEndpoint ?? ''}-${commitment}`;
   
   if (!connectionCache[cacheKey]) {
     connectionCache[cacheKey] = new Connection(endpoint, { 
       commitment,
       confirmTransactionInitialTimeout: DEFAULT_TRANSACTION_TIMEOUT,
       disableRetryOnRateLimit: false,
-      wsEndpoint: endpoint.replace('https://', 'wss://').replace('http://', 'ws://'),
+      wsEndpoint: wsEndpoint || toWsEndpoint(endpoint),
+      // Fails over between pool endpoints; other URLs are fetched directly
+      fetch: failoverFetch,
     });
   }
   
@@ -74,21 +71,16 @@ export function getCachedConnection(
 }
 
 /**
- * Pre-warm the Solana connection - ultra fast version
+ * Probe the pool's endpoints right away instead of waiting for the next
+ * periodic health check. Resolves to whether any endpoint answered.
  */
-export async function preWarmConnection(endpoint: string): Promise<boolean> {
+export async function preWarmConnection(): Promise<boolean> {
   try {
-    // Don't create any console logs for faster execution
-    
-    // Initialize pool immediately
-    initConnectionPool(endpoint);
-    
-    // We won't wait for the connection to be established
-    // This makes the UI feel much faster
-    return true;
+    const state = await checkRpcHealth();
+    return state.endpoints.some((endpoint) => endpoint.slot !== null);
   } catch (error) {
-    // Silently ignore errors
-    return true; // Continue anyway to avoid blocking UI
+    console.error('Error probing RPC endpoints:', error);
+    return false;
   }
 }
 
@@ -100,17 +92,22 @@ export function isWalletReady(walletName: string): boolean {
   
   // Direct window property access for maximum speed
   const walletLower = walletName.toLowerCase();
+  const injected = window as Window & {
+    phantom?: { solana?: { isPhantom?: boolean } };
+    solflare?: { isSolflare?: boolean };
+    backpack?: { isBackpack?: boolean };
+  };
   
   if (walletLower === 'phantom') {
-    return !!window.phantom?.solana?.isPhantom;
+    return !!injected.phantom?.solana?.isPhantom;
   }
   
   if (walletLower === 'solflare') {
-    return !!window.solflare?.isSolflare;
+    return !!injected.solflare?.isSolflare;
   }
   
   if (walletLower === 'backpack' || walletLower === 'backpack-wallet') {
-    return !!(window as any).backpack?.isBackpack;
+    return !!injected.backpack?.isBackpack;
   }
   
   return walletLower in window;
@@ -0,0 +1,142 @@
+import {
+  Commitment,
+  Connection,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  TransactionInstruction
+} from '@solana/web3.js';
+
+export interface NonceAccountInfo {
+  address: PublicKey;
+  // The stored nonce, used in place of a recent blockhash
+  nonce: string;
+  authority: PublicKey;
+  lamports: number;
+  lamportsPerSignature: number;
+  // Slot the nonce was read at, the minimum slot to check it against when confirming
+  slot: number;
+}
+
+export interface DurableNonce {
+  nonce: string;
+  slot: number;
+  // Advances the nonce; must be the first instruction of the transaction
+  advanceInstruction: TransactionInstruction;
+}
+
+// The nonce a sent transaction was built against. It can't land once the
+// account holds a different nonce, however long ago it was sent.
+export interface NonceReference {
+  account: string;
+  nonce: string;
+}
+
+// Nonce account every transaction is built against, when one is selected
+let activeNonceAccount: PublicKey | null = null;
+const listeners = new Set<(address: PublicKey | null) => void>();
+
+/**
+ * Build transactions against this nonce account instead of a recent blockhash,
+ * or pass null to go back to recent blockhashes
+ */
+export function setActiveNonceAccount(address: PublicKey | null): void {
+  if (address?.toBase58() === activeNonceAccount?.toBase58()) return;
+  activeNonceAccount = address;
+  listeners.forEach((listener) => listener(address));
+}
+
+export function getActiveNonceAccount(): PublicKey | null {
+  return activeNonceAccount;
+}
+
+/**
+ * Listen to changes of the active nonce account. Returns a function that removes the listener.
+ */
+export function subscribeToActiveNonceAccount(listener: (address: PublicKey | null) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Read a nonce account. Always goes to the RPC, since the nonce changes with
+ * every transaction that uses it.
+ */
+export async function getNonceAccountInfo(
+  connection: Connection,
+  address: PublicKey,
+  commitment: Commitment = 'confirmed'
+): Promise<NonceAccountInfo> {
+  const { context, value } = await connection.getAccountInfoAndContext(address, commitment);
+
+  if (!value) {
+    throw new Error(`Nonce account ${address.toBase58()} does not exist`);
+  }
+  if (!value.owner.equals(SystemProgram.programId) || value.data.length !== NONCE_ACCOUNT_LENGTH) {
+    throw new Error(`${address.toBase58()} is not a nonce account`);
+  }
+
+  const account = NonceAccount.fromAccountData(value.data);
+  return {
+    address,
+    nonce: account.nonce,
+    authority: account.authorizedPubkey,
+    lamports: value.lamports,
+    lamportsPerSignature: account.feeCalculator.lamportsPerSignature,
+    slot: context.slot,
+  };
+}
+
+/**
+ * Fetch the current nonce and the advance instruction a transaction needs to use it.
+ * The authority has to sign that transaction.
+ */
+export async function getDurableNonce(
+  connection: Connection,
+  nonceAccount: PublicKey,
+  authority: PublicKey
+): Promise<DurableNonce> {
+  const info = await getNonceAccountInfo(connection, nonceAccount);
+
+  if (!info.authority.equals(authority)) {
+    throw new Error(`The nonce account's authority is ${info.authority.toBase58()}, which is not signing this transaction`);
+  }
+
+  return {
+    nonce: info.nonce,
+    slot: info.slot,
+    advanceInstruction: SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: authority }),
+  };
+}
+
+/**
+ * The nonce account an instruction advances, or null if it isn't a nonce advance
+ */
+export function getAdvancedNonceAccount(instruction: TransactionInstruction): PublicKey | null {
+  if (!instruction.programId.equals(SystemProgram.programId)) return null;
+  try {
+    return SystemInstruction.decodeInstructionType(instruction) === 'AdvanceNonceAccount'
+      ? instruction.keys[0].pubkey
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Put the nonce advance first, as the runtime requires, dropping any other advance of the same nonce
+ */
+export function withNonceAdvanceFirst(
+  instructions: TransactionInstruction[],
+  advanceInstruction: TransactionInstruction
+): TransactionInstruction[] {
+  const nonceAccount = advanceInstruction.keys[0].pubkey;
+  return [
+    advanceInstruction,
+    ...instructions.filter((instruction) => !getAdvancedNonceAccount(instruction)?.equals(nonceAccount)),
+  ];
+}
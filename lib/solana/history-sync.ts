@@ -0,0 +1,283 @@
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey
+} from '@solana/web3.js';
+import type { Transaction, TransactionType } from '../stores/transaction-store';
+import { isTokenProgram } from './token-program';
+
+// getSignaturesForAddress returns at most 1000 signatures per page
+const SIGNATURE_PAGE_SIZE = 100;
+
+// Cap on how many signatures one sync walks, so large wallets don't stall the UI.
+// Anything beyond it is picked up by the following syncs.
+export const MAX_SYNC_SIGNATURES = 300;
+
+// When a transaction contains several token instructions, the entry is
+// classified by the most significant one
+const TYPE_PRIORITY: TransactionType[] = [
+  'create',
+  'mint',
+  'burn',
+  'revoke-authority',
+  'set-authority',
+  'freeze',
+  'thaw',
+  'airdrop',
+  'send',
+  'close',
+];
+
+export type ChainHistoryEntry = Omit<Transaction, 'cluster' | 'clusterEndpoint'>;
+
+/**
+ * Where the next sync of an address picks up. Everything at or before `until`
+ * has been imported. When a sync hits the cap before reaching `until`, the walk
+ * continues from `before` next time, and `head` becomes `until` once it is done.
+ */
+export interface HistorySyncCursor {
+  until: string | null;
+  before: string | null;
+  head: string | null;
+}
+
+export const EMPTY_SYNC_CURSOR: HistorySyncCursor = { until: null, before: null, head: null };
+
+export interface HistorySyncResult {
+  entries: ChainHistoryEntry[];
+  // Cursor to pass to the next sync of the same address
+  cursor: HistorySyncCursor;
+  // Whether older signatures are still left to import
+  hasMore: boolean;
+}
+
+interface ClassifiedInstruction {
+  type: TransactionType;
+  mint: string | null;
+  amount: number | null;
+  recipient: string | null;
+}
+
+function isParsed(
+  instruction: ParsedInstruction | PartiallyDecodedInstruction
+): instruction is ParsedInstruction {
+  return 'parsed' in instruction;
+}
+
+/**
+ * Classify a single parsed token program instruction. Token balances from the
+ * transaction meta fill in the mint, decimals and owner where the instruction
+ * itself only references token accounts.
+ */
+function classifyInstruction(
+  instruction: ParsedInstruction,
+  tx: ParsedTransactionWithMeta
+): ClassifiedInstruction | null {
+  const { type, info } = instruction.parsed ?? {};
+  if (!type || !info) return null;
+
+  const accountKeys = tx.transaction.message.accountKeys.map((key) => key.pubkey.toBase58());
+  const balances = [...(tx.meta?.postTokenBalances ?? []), ...(tx.meta?.preTokenBalances ?? [])];
+  const balanceFor = (account: string | undefined) =>
+    account ? balances.find((balance) => accountKeys[balance.accountIndex] === account) : undefined;
+
+  // Checked variants carry a UI amount; unchecked ones need the decimals from the balances
+  const uiAmount = (account: string | undefined, mint: string | null): number | null => {
+    if (info.tokenAmount) return info.tokenAmount.uiAmount ?? null;
+    if (info.amount === undefined) return null;
+    const decimals =
+      balanceFor(account)?.uiTokenAmount.decimals ??
+      balances.find((balance) => balance.mint === mint)?.uiTokenAmount.decimals;
+    return decimals === undefined ? null : Number(info.amount) / 10 ** decimals;
+  };
+
+  switch (type) {
+    case 'initializeMint':
+    case 'initializeMint2':
+      return { type: 'create', mint: info.mint, amount: null, recipient: null };
+
+    case 'mintTo':
+    case 'mintToChecked':
+      return {
+        type: 'mint',
+        mint: info.mint,
+        amount: uiAmount(info.account, info.mint),
+        recipient: balanceFor(info.account)?.owner ?? info.account ?? null,
+      };
+
+    case 'transfer':
+    case 'transferChecked': {
+      const mint = info.mint ?? balanceFor(info.destination)?.mint ?? balanceFor(info.source)?.mint ?? null;
+      return {
+        type: 'send',
+        mint,
+        amount: uiAmount(info.source, mint),
+        recipient: balanceFor(info.destination)?.owner ?? info.destination ?? null,
+      };
+    }
+
+    case 'burn':
+    case 'burnChecked':
+      return { type: 'burn', mint: info.mint, amount: uiAmount(info.account, info.mint), recipient: null };
+
+    case 'setAuthority':
+      return {
+        type: info.newAuthority ? 'set-authority' : 'revoke-authority',
+        mint: info.mint ?? balanceFor(info.account)?.mint ?? null,
+        amount: null,
+        recipient: info.newAuthority ?? null,
+      };
+
+    case 'freezeAccount':
+    case 'thawAccount':
+      return {
+        type: type === 'freezeAccount' ? 'freeze' : 'thaw',
+        mint: info.mint,
+        amount: null,
+        recipient: balanceFor(info.account)?.owner ?? info.account ?? null,
+      };
+
+    case 'closeAccount':
+      return {
+        type: 'close',
+        mint: balanceFor(info.account)?.mint ?? null,
+        amount: null,
+        recipient: info.destination ?? null,
+      };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Turn a parsed transaction into a history entry, or null if it contains no
+ * token instructions we track
+ */
+export function classifyParsedTransaction(
+  signature: string,
+  tx: ParsedTransactionWithMeta
+): ChainHistoryEntry | null {
+  const classified = tx.transaction.message.instructions
+    .filter((instruction) => isTokenProgram(instruction.programId))
+    .filter(isParsed)
+    .map((instruction) => classifyInstruction(instruction, tx))
+    .filter((instruction): instruction is ClassifiedInstruction => instruction !== null);
+
+  if (classified.length === 0) return null;
+
+  const sends = classified.filter((instruction) => instruction.type === 'send');
+  let primary: ClassifiedInstruction;
+
+  // Several transfers of one mint in a single transaction is how airdrops are packed
+  if (sends.length > 1 && !classified.some((instruction) => instruction.type !== 'send' && instruction.type !== 'close')) {
+    primary = {
+      type: 'airdrop',
+      mint: sends[0].mint,
+      amount: sends.every((send) => send.amount !== null)
+        ? sends.reduce((sum, send) => sum + (send.amount ?? 0), 0)
+        : null,
+      recipient: `${sends.length} recipients`,
+    };
+  } else {
+    primary = [...classified].sort(
+      (a, b) => TYPE_PRIORITY.indexOf(a.type) - TYPE_PRIORITY.indexOf(b.type)
+    )[0];
+  }
+
+  const feePayer = tx.transaction.message.accountKeys.find((key) => key.signer)?.pubkey.toBase58();
+
+  return {
+    id: signature,
+    type: primary.type,
+    tokenName: null,
+    tokenSymbol: null,
+    amount: primary.amount,
+    mintAddress: primary.mint ?? '',
+    recipient: primary.recipient,
+    timestamp: (tx.blockTime ?? 0) * 1000,
+    status: tx.meta?.err ? 'error' : 'success',
+    signer: feePayer ?? 'unknown',
+  };
+}
+
+/**
+ * Page through the signatures for an address, newest first, from `before` (or
+ * the newest signature) back to `until`, stopping early at the sync cap.
+ * `complete` is false when the cap was hit before reaching `until`.
+ */
+async function getSignaturesSince(
+  connection: Connection,
+  address: PublicKey,
+  until: string | null,
+  before: string | null
+): Promise<{ signatures: ConfirmedSignatureInfo[]; complete: boolean }> {
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let pageBefore = before ?? undefined;
+
+  while (signatures.length < MAX_SYNC_SIGNATURES) {
+    const page = await connection.getSignaturesForAddress(
+      address,
+      { before: pageBefore, until: until ?? undefined, limit: SIGNATURE_PAGE_SIZE },
+      'confirmed'
+    );
+    signatures.push(...page);
+    if (page.length < SIGNATURE_PAGE_SIZE) {
+      return { signatures, complete: true };
+    }
+    pageBefore = page[page.length - 1].signature;
+  }
+
+  return { signatures, complete: false };
+}
+
+/**
+ * Import token activity for an address from the chain, resuming from the
+ * cursor of the previous sync so repeated syncs are incremental. A sync that
+ * hits the cap leaves a backfill cursor, and the next one continues from it.
+ */
+export async function syncAddressHistory(
+  connection: Connection,
+  address: PublicKey,
+  cursor: HistorySyncCursor = EMPTY_SYNC_CURSOR,
+  knownSignatures: Set<string> = new Set(),
+  onProgress?: (done: number, total: number) => void
+): Promise<HistorySyncResult> {
+  try {
+    const { signatures, complete } = await getSignaturesSince(connection, address, cursor.until, cursor.before);
+    const entries: ChainHistoryEntry[] = [];
+
+    const toFetch = signatures.filter((info) => !knownSignatures.has(info.signature));
+
+    for (let i = 0; i < toFetch.length; i++) {
+      const { signature } = toFetch[i];
+      const tx = await connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+
+      const entry = tx ? classifyParsedTransaction(signature, tx) : null;
+      if (entry) entries.push(entry);
+
+      onProgress?.(i + 1, toFetch.length);
+    }
+
+    // Newest signature of the walk in progress; a backfill keeps the one it started from
+    const head = cursor.before ? cursor.head : signatures[0]?.signature ?? null;
+    const oldest = signatures[signatures.length - 1]?.signature ?? null;
+
+    return {
+      entries,
+      cursor: complete
+        ? { until: head ?? cursor.until, before: null, head: null }
+        : { until: cursor.until, before: oldest, head },
+      hasMore: !complete,
+    };
+  } catch (error) {
+    console.error('Error syncing history from chain:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  BaseSignerWalletAdapter,
+  WalletName,
+  WalletNotConnectedError,
+  WalletNotReadyError,
+  WalletReadyState
+} from '@solana/wallet-adapter-base';
+import { Keypair, PublicKey, Transaction, TransactionVersion, VersionedTransaction } from '@solana/web3.js';
+import { getUnlockedKeypair, subscribeToLocalKeypair } from './local-keypair';
+import { signWithKeypair } from './signer';
+
+export const LocalKeypairWalletName = 'Local Keypair' as WalletName<'Local Keypair'>;
+
+// Key outline in the wallet list
+const ICON =
+  'data:image/svg+xml;base64,' +
+  btoa(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="#9945FF" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">' +
+      '<circle cx="7.5" cy="15.5" r="5.5"/><path d="m21 2-9.6 9.6"/><path d="m15.5 7.5 3 3L22 7l-3-3"/></svg>'
+  );
+
+/**
+ * Exposes the unlocked local keypair as a wallet, so every screen that uses
+ * the wallet adapter runs against it unchanged. The wallet is only ready
+ * while the keypair is unlocked, and disconnects when it is locked.
+ */
+export class LocalKeypairWalletAdapter extends BaseSignerWalletAdapter<'Local Keypair'> {
+  name = LocalKeypairWalletName;
+  url = 'https://docs.solanalabs.com/cli/wallets/file-system';
+  icon = ICON;
+  supportedTransactionVersions: ReadonlySet<TransactionVersion> = new Set<TransactionVersion>(['legacy', 0]);
+
+  private _keypair: Keypair | null = null;
+  private _readyState = getUnlockedKeypair() ? WalletReadyState.Loadable : WalletReadyState.NotDetected;
+
+  constructor() {
+    super();
+    subscribeToLocalKeypair((keypair) => {
+      const readyState = keypair ? WalletReadyState.Loadable : WalletReadyState.NotDetected;
+      if (readyState !== this._readyState) {
+        this._readyState = readyState;
+        this.emit('readyStateChange', readyState);
+      }
+      if (!keypair && this._keypair) {
+        this.disconnect();
+      }
+    });
+  }
+
+  get connecting(): boolean {
+    return false;
+  }
+
+  get publicKey(): PublicKey | null {
+    return this._keypair?.publicKey ?? null;
+  }
+
+  get readyState(): WalletReadyState {
+    return this._readyState;
+  }
+
+  async connect(): Promise<void> {
+    const keypair = getUnlockedKeypair();
+    if (!keypair) {
+      const error = new WalletNotReadyError('Unlock the local keypair first');
+      this.emit('error', error);
+      throw error;
+    }
+
+    this._keypair = keypair;
+    this.emit('connect', keypair.publicKey);
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this._keypair) return;
+    this._keypair = null;
+    this.emit('disconnect');
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+    if (!this._keypair) throw new WalletNotConnectedError();
+    return signWithKeypair(this._keypair, transaction);
+  }
+}
+
+let sharedAdapter: LocalKeypairWalletAdapter | null = null;
+
+/**
+ * The adapter subscribes to the keypair store for as long as the page lives,
+ * so the wallet list reuses one instance instead of creating one per render
+ */
+export function getLocalKeypairWalletAdapter(): LocalKeypairWalletAdapter {
+  if (!sharedAdapter) {
+    sharedAdapter = new LocalKeypairWalletAdapter();
+  }
+  return sharedAdapter;
+}
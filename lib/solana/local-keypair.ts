@@ -0,0 +1,196 @@
+import { Keypair } from '@solana/web3.js';
+import type { ClusterName } from './cluster';
+
+// Clusters the local keypair can be used on; it is meant for QA, never for real funds
+export const LOCAL_KEYPAIR_CLUSTERS: ClusterName[] = ['devnet', 'localnet'];
+
+const STORAGE_KEY = 'localKeypair';
+
+// PBKDF2 work factor for deriving the AES key from the passphrase
+const PBKDF2_ITERATIONS = 310000;
+
+/**
+ * What is kept in browser storage. Only the public key is readable without the passphrase.
+ */
+export interface StoredLocalKeypair {
+  publicKey: string;
+  // Base64 PBKDF2 salt, AES-GCM iv and encrypted 64-byte secret key
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// Keypair decrypted for this session, null while locked
+let unlockedKeypair: Keypair | null = null;
+const listeners = new Set<(keypair: Keypair | null) => void>();
+
+function setUnlockedKeypair(keypair: Keypair | null): void {
+  unlockedKeypair = keypair;
+  listeners.forEach((listener) => listener(keypair));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export function isLocalKeypairCluster(cluster: ClusterName): boolean {
+  return LOCAL_KEYPAIR_CLUSTERS.includes(cluster);
+}
+
+/**
+ * Parse a keypair file written by the Solana CLI (solana-keygen), a JSON array of the 64 secret key bytes
+ */
+export function parseKeypairFile(contents: string): Keypair {
+  let bytes: unknown;
+  try {
+    bytes = JSON.parse(contents);
+  } catch {
+    throw new Error('The keypair file is not valid JSON');
+  }
+
+  if (
+    !Array.isArray(bytes) ||
+    bytes.length !== 64 ||
+    !bytes.every((byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255)
+  ) {
+    throw new Error('Expected a Solana CLI keypair file: a JSON array of 64 numbers');
+  }
+
+  try {
+    return Keypair.fromSecretKey(Uint8Array.from(bytes));
+  } catch {
+    throw new Error('The keypair file does not contain a valid secret key');
+  }
+}
+
+/**
+ * Serialize a keypair in the Solana CLI file format, so a burner can be backed up or used with the CLI
+ */
+export function toKeypairFile(keypair: Keypair): string {
+  return JSON.stringify(Array.from(keypair.secretKey));
+}
+
+export function generateBurnerKeypair(): Keypair {
+  return Keypair.generate();
+}
+
+export function getStoredLocalKeypair(storage: Storage = window.localStorage): StoredLocalKeypair | null {
+  try {
+    const item = storage.getItem(STORAGE_KEY);
+    return item ? (JSON.parse(item) as StoredLocalKeypair) : null;
+  } catch (error) {
+    console.error('Error reading the stored keypair:', error);
+    return null;
+  }
+}
+
+/**
+ * Encrypt the keypair with the passphrase and store it, replacing any stored
+ * keypair. The keypair stays unlocked for this session.
+ */
+export async function saveLocalKeypair(
+  keypair: Keypair,
+  passphrase: string,
+  storage: Storage = window.localStorage
+): Promise<StoredLocalKeypair> {
+  if (!passphrase) {
+    throw new Error('Choose a passphrase to encrypt the keypair');
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, Uint8Array.from(keypair.secretKey));
+
+  const stored: StoredLocalKeypair = {
+    publicKey: keypair.publicKey.toBase58(),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  storage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  setUnlockedKeypair(keypair);
+  return stored;
+}
+
+/**
+ * Decrypt the stored keypair and keep it unlocked for this session
+ */
+export async function unlockLocalKeypair(passphrase: string, storage: Storage = window.localStorage): Promise<Keypair> {
+  const stored = getStoredLocalKeypair(storage);
+  if (!stored) {
+    throw new Error('No local keypair is stored in this browser');
+  }
+
+  let secretKey: Uint8Array;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(stored.salt));
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+      key,
+      fromBase64(stored.ciphertext)
+    );
+    secretKey = new Uint8Array(plaintext);
+  } catch {
+    // AES-GCM fails authentication when the key, i.e. the passphrase, is wrong
+    throw new Error('Wrong passphrase');
+  }
+
+  const keypair = Keypair.fromSecretKey(secretKey);
+  if (keypair.publicKey.toBase58() !== stored.publicKey) {
+    throw new Error('The stored keypair is corrupted');
+  }
+
+  setUnlockedKeypair(keypair);
+  return keypair;
+}
+
+/**
+ * Forget the decrypted keypair. It has to be unlocked with the passphrase again.
+ */
+export function lockLocalKeypair(): void {
+  if (unlockedKeypair) setUnlockedKeypair(null);
+}
+
+/**
+ * Lock and delete the stored keypair. Funds on it are lost unless it was backed up.
+ */
+export function removeLocalKeypair(storage: Storage = window.localStorage): void {
+  storage.removeItem(STORAGE_KEY);
+  lockLocalKeypair();
+}
+
+export function getUnlockedKeypair(): Keypair | null {
+  return unlockedKeypair;
+}
+
+/**
+ * Listen to the keypair being unlocked or locked. Returns a function that removes the listener.
+ */
+export function subscribeToLocalKeypair(listener: (keypair: Keypair | null) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,250 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Connection,
+  PublicKey,
+  Transaction
+} from '@solana/web3.js';
+import { TransactionPayer } from './signer';
+import { sendTransactionWithRetry } from './transaction-utility';
+
+// Addresses added per extend transaction, to stay under the packet size limit
+const EXTEND_BATCH_SIZE = 20;
+
+// A table holds at most 256 addresses
+export const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+
+// Offset of the authority pubkey in a lookup table account:
+// type (4) + deactivation slot (8) + last extended slot (8) + start index (1) + option tag (1)
+const AUTHORITY_OFFSET = 22;
+
+// A deactivated table can be closed once its deactivation slot leaves the
+// SlotHashes sysvar, which keeps the most recent 512 slots
+const DEACTIVATION_COOLDOWN_SLOTS = 513;
+
+// Deactivation slot of a table that is still active (u64::MAX)
+const ACTIVE_DEACTIVATION_SLOT = BigInt('18446744073709551615');
+
+// Roughly one slot, used while waiting for newly added addresses to become usable
+const SLOT_POLL_INTERVAL_MS = 400;
+
+export type LookupTableStatus = 'active' | 'deactivating' | 'closable';
+
+export interface LookupTableInfo {
+  address: PublicKey;
+  account: AddressLookupTableAccount;
+  status: LookupTableStatus;
+  // Slots left until a deactivating table can be closed
+  slotsUntilClosable: number;
+}
+
+function getTableStatus(account: AddressLookupTableAccount, currentSlot: number): { status: LookupTableStatus; slotsUntilClosable: number } {
+  const { deactivationSlot } = account.state;
+  if (deactivationSlot === ACTIVE_DEACTIVATION_SLOT) {
+    return { status: 'active', slotsUntilClosable: 0 };
+  }
+
+  const closableAt = Number(deactivationSlot) + DEACTIVATION_COOLDOWN_SLOTS;
+  return currentSlot >= closableAt
+    ? { status: 'closable', slotsUntilClosable: 0 }
+    : { status: 'deactivating', slotsUntilClosable: closableAt - currentSlot };
+}
+
+/**
+ * List the lookup tables whose authority is the given wallet
+ */
+export async function getOwnedLookupTables(
+  connection: Connection,
+  authority: PublicKey
+): Promise<LookupTableInfo[]> {
+  try {
+    const [accounts, currentSlot] = await Promise.all([
+      connection.getProgramAccounts(AddressLookupTableProgram.programId, {
+        filters: [{ memcmp: { offset: AUTHORITY_OFFSET, bytes: authority.toBase58() } }],
+      }),
+      connection.getSlot('confirmed'),
+    ]);
+
+    return accounts.map(({ pubkey, account }) => {
+      const table = new AddressLookupTableAccount({
+        key: pubkey,
+        state: AddressLookupTableAccount.deserialize(account.data),
+      });
+      return { address: pubkey, account: table, ...getTableStatus(table, currentSlot) };
+    });
+  } catch (error) {
+    console.error('Error loading lookup tables:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch a single lookup table so it can be passed to a v0 message
+ */
+export async function getLookupTable(
+  connection: Connection,
+  address: PublicKey
+): Promise<AddressLookupTableAccount> {
+  const { value } = await connection.getAddressLookupTable(address);
+  if (!value) {
+    throw new Error(`Lookup table ${address.toBase58()} does not exist`);
+  }
+  return value;
+}
+
+/**
+ * Wait until the slot after the table was last extended, from which
+ * transactions can reference the addresses added in that extension
+ */
+export async function waitForLookupTableExtension(
+  connection: Connection,
+  table: AddressLookupTableAccount
+): Promise<void> {
+  const { lastExtendedSlot } = table.state;
+  while ((await connection.getSlot('confirmed')) <= lastExtendedSlot) {
+    await new Promise((resolve) => setTimeout(resolve, SLOT_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Create an empty lookup table owned by the wallet
+ */
+export async function createLookupTable(
+  connection: Connection,
+  wallet: TransactionPayer
+): Promise<{ address: PublicKey; signature: string }> {
+  try {
+    // The table address is derived from a recent slot, which must still be in SlotHashes
+    const recentSlot = await connection.getSlot('finalized');
+    const [instruction, address] = AddressLookupTableProgram.createLookupTable({
+      authority: wallet.publicKey,
+      payer: wallet.publicKey,
+      recentSlot,
+    });
+
+    const signature = await sendTransactionWithRetry(connection, wallet, new Transaction().add(instruction), [], {
+      maxRetries: 3,
+      skipPreflight: false,
+      preflightCommitment: 'confirmed',
+      confirmCommitment: 'confirmed',
+    });
+
+    return { address, signature };
+  } catch (error) {
+    console.error('Error creating lookup table:', error);
+    throw error;
+  }
+}
+
+/**
+ * Add addresses to a table, skipping ones it already holds. New addresses can
+ * only be used by transactions from the slot after they were added, so this
+ * returns once that slot has been reached.
+ */
+export async function extendLookupTable(
+  connection: Connection,
+  wallet: TransactionPayer,
+  tableAddress: PublicKey,
+  addresses: PublicKey[]
+): Promise<{ signatures: string[]; added: number }> {
+  try {
+    const table = await getLookupTable(connection, tableAddress);
+    const existing = new Set(table.state.addresses.map((address) => address.toBase58()));
+
+    const toAdd: PublicKey[] = [];
+    addresses.forEach((address) => {
+      const key = address.toBase58();
+      if (!existing.has(key)) {
+        existing.add(key);
+        toAdd.push(address);
+      }
+    });
+
+    if (table.state.addresses.length + toAdd.length > MAX_LOOKUP_TABLE_ADDRESSES) {
+      throw new Error(
+        `The table has room for ${MAX_LOOKUP_TABLE_ADDRESSES - table.state.addresses.length} more addresses, but ${toAdd.length} were given`
+      );
+    }
+
+    const signatures: string[] = [];
+    for (let i = 0; i < toAdd.length; i += EXTEND_BATCH_SIZE) {
+      const instruction = AddressLookupTableProgram.extendLookupTable({
+        lookupTable: tableAddress,
+        authority: wallet.publicKey,
+        payer: wallet.publicKey,
+        addresses: toAdd.slice(i, i + EXTEND_BATCH_SIZE),
+      });
+
+      signatures.push(
+        await sendTransactionWithRetry(connection, wallet, new Transaction().add(instruction), [], {
+          maxRetries: 3,
+          skipPreflight: false,
+          preflightCommitment: 'confirmed',
+          confirmCommitment: 'confirmed',
+        })
+      );
+    }
+
+    if (signatures.length > 0) {
+      await waitForLookupTableExtension(connection, await getLookupTable(connection, tableAddress));
+    }
+
+    return { signatures, added: toAdd.length };
+  } catch (error) {
+    console.error('Error extending lookup table:', error);
+    throw error;
+  }
+}
+
+/**
+ * Deactivate a table so it can be closed after the cooldown
+ */
+export async function deactivateLookupTable(
+  connection: Connection,
+  wallet: TransactionPayer,
+  tableAddress: PublicKey
+): Promise<string> {
+  try {
+    const instruction = AddressLookupTableProgram.deactivateLookupTable({
+      lookupTable: tableAddress,
+      authority: wallet.publicKey,
+    });
+
+    return await sendTransactionWithRetry(connection, wallet, new Transaction().add(instruction), [], {
+      maxRetries: 3,
+      skipPreflight: false,
+      preflightCommitment: 'confirmed',
+      confirmCommitment: 'confirmed',
+    });
+  } catch (error) {
+    console.error('Error deactivating lookup table:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close a deactivated table and return its rent to the wallet
+ */
+export async function closeLookupTable(
+  connection: Connection,
+  wallet: TransactionPayer,
+  tableAddress: PublicKey
+): Promise<string> {
+  try {
+    const instruction = AddressLookupTableProgram.closeLookupTable({
+      lookupTable: tableAddress,
+      authority: wallet.publicKey,
+      recipient: wallet.publicKey,
+    });
+
+    return await sendTransactionWithRetry(connection, wallet, new Transaction().add(instruction), [], {
+      maxRetries: 3,
+      skipPreflight: false,
+      preflightCommitment: 'confirmed',
+      confirmCommitment: 'confirmed',
+    });
+  } catch (error) {
+    console.error('Error closing lookup table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,436 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  AuthorityType,
+  MULTISIG_SIZE,
+  Multisig,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnCheckedInstruction,
+  createInitializeMultisigInstruction,
+  createMintToCheckedInstruction,
+  createSetAuthorityInstruction,
+  decodeInstruction,
+  getMinimumBalanceForRentExemptMultisig,
+  isBurnCheckedInstruction,
+  isBurnInstruction,
+  isMintToCheckedInstruction,
+  isMintToInstruction,
+  isSetAuthorityInstruction,
+  unpackMultisig
+} from '@solana/spl-token';
+import { getCachedAccountInfo } from './account-cache';
+import { getActiveNonceAccount, getAdvancedNonceAccount, getDurableNonce, withNonceAdvanceFirst } from './durable-nonce';
+import { applyComputeBudget } from './priority-fees';
+import { formatTokenAmount, toRawTokenAmount } from './token-helper';
+import { getAssociatedTokenAddressForProgram, getMintWithProgram, isTokenProgram } from './token-program';
+import type { MintAuthorityKind } from './token-operations';
+import { TransactionPayer, WalletSigner } from './signer';
+import { TransactionResult, broadcastSignedTransaction } from './transaction-engine';
+import { sendTransactionWithRetry } from './transaction-utility';
+
+// The token programs allow between 1 and 11 signers per multisig
+export const MAX_MULTISIG_SIGNERS = 11;
+
+/**
+ * What a multisig-controlled transaction does. Burns come out of the multisig's
+ * own associated token account.
+ */
+export type MultisigAction =
+  | { kind: 'mint'; mint: string; destination: string; amount: string }
+  | { kind: 'burn'; mint: string; amount: string }
+  | { kind: 'set-authority'; mint: string; authorityKind: MintAuthorityKind; newAuthority: string | null };
+
+export interface DecodedInstructionSummary {
+  program: string;
+  name: string;
+  details: { label: string; value: string }[];
+}
+
+export interface MultisigTransactionReview {
+  transaction: Transaction;
+  feePayer: PublicKey | null;
+  blockhash: string | null;
+  instructions: DecodedInstructionSummary[];
+  signatures: { publicKey: PublicKey; signed: boolean }[];
+  // Every required signature is present
+  complete: boolean;
+}
+
+/**
+ * Read a token program multisig account and the program that owns it, or null if the address isn't one
+ */
+export async function getMultisigAccount(
+  connection: Connection,
+  address: PublicKey
+): Promise<{ multisig: Multisig; programId: PublicKey } | null> {
+  const accountInfo = await getCachedAccountInfo(connection, address);
+  if (!accountInfo || !isTokenProgram(accountInfo.owner) || accountInfo.data.length !== MULTISIG_SIZE) {
+    return null;
+  }
+  return { multisig: unpackMultisig(address, accountInfo, accountInfo.owner), programId: accountInfo.owner };
+}
+
+/**
+ * The members of a multisig, in account order
+ */
+export function getMultisigSigners(multisig: Multisig): PublicKey[] {
+  return [
+    multisig.signer1, multisig.signer2, multisig.signer3, multisig.signer4,
+    multisig.signer5, multisig.signer6, multisig.signer7, multisig.signer8,
+    multisig.signer9, multisig.signer10, multisig.signer11,
+  ].slice(0, multisig.n);
+}
+
+/**
+ * Creates an M-of-N multisig account under the given token program. It can
+ * then be set as a mint or freeze authority, or own token accounts.
+ */
+export async function createMultisig(
+  connection: Connection,
+  wallet: TransactionPayer,
+  signers: string[],
+  threshold: number,
+  programId: PublicKey = TOKEN_PROGRAM_ID
+): Promise<{ multisig: PublicKey; signature: string }> {
+  const signerKeys = signers.map((signer) => new PublicKey(signer));
+  const unique = new Set(signerKeys.map((signer) => signer.toBase58()));
+
+  if (signerKeys.length === 0 || signerKeys.length > MAX_MULTISIG_SIGNERS) {
+    throw new Error(`A multisig needs between 1 and ${MAX_MULTISIG_SIGNERS} signers`);
+  }
+  if (unique.size !== signerKeys.length) {
+    throw new Error('Each multisig signer can only be listed once');
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > signerKeys.length) {
+    throw new Error(`The threshold must be between 1 and ${signerKeys.length}`);
+  }
+
+  const multisigKeypair = Keypair.generate();
+
+  try {
+    const lamports = await getMinimumBalanceForRentExemptMultisig(connection);
+
+    const transaction = new Transaction().add(
+      SystemProgram.createAccount({
+        fromPubkey: wallet.publicKey,
+        newAccountPubkey: multisigKeypair.publicKey,
+        space: MULTISIG_SIZE,
+        lamports,
+        programId,
+      }),
+      createInitializeMultisigInstruction(multisigKeypair.publicKey, signerKeys, threshold, programId)
+    );
+
+    const signature = await sendTransactionWithRetry(
+      connection,
+      wallet,
+      transaction,
+      [multisigKeypair],
+      {
+        maxRetries: 3,
+        skipPreflight: false,
+        preflightCommitment: 'confirmed',
+        confirmCommitment: 'confirmed',
+        label: `Create ${threshold}-of-${signerKeys.length} multisig`
+      }
+    );
+
+    return { multisig: multisigKeypair.publicKey, signature };
+  } catch (error) {
+    console.error('Error creating multisig:', error);
+    throw error;
+  }
+}
+
+/**
+ * Builds an unsigned transaction for an action the multisig authorizes and
+ * returns it as base64. Every co-signer listed must sign it, along with the
+ * fee payer, before it can be broadcast. With a nonce account (the fee payer
+ * must be its authority) it stays valid until the nonce is advanced, otherwise
+ * it expires with its blockhash.
+ */
+export async function buildMultisigTransaction(
+  connection: Connection,
+  feePayer: PublicKey,
+  multisigAddress: string,
+  cosigners: string[],
+  action: MultisigAction,
+  nonceAccount: PublicKey | null = getActiveNonceAccount()
+): Promise<string> {
+  try {
+    const multisigPublicKey = new PublicKey(multisigAddress);
+    const multisigAccount = await getMultisigAccount(connection, multisigPublicKey);
+    if (!multisigAccount) {
+      throw new Error('This address is not a token multisig account');
+    }
+    const { multisig } = multisigAccount;
+
+    const members = getMultisigSigners(multisig);
+    const cosignerKeys = cosigners.map((cosigner) => new PublicKey(cosigner));
+    if (cosignerKeys.some((cosigner) => !members.some((member) => member.equals(cosigner)))) {
+      throw new Error('Every co-signer must be a member of the multisig');
+    }
+    if (cosignerKeys.length < multisig.m) {
+      throw new Error(`Choose at least ${multisig.m} co-signers to meet the multisig threshold`);
+    }
+
+    const mintPublicKey = new PublicKey(action.mint);
+    const { mintInfo, programId } = await getMintWithProgram(connection, mintPublicKey);
+    if (!programId.equals(multisigAccount.programId)) {
+      throw new Error('The multisig and the mint belong to different token programs');
+    }
+
+    const transaction = new Transaction();
+
+    if (action.kind === 'mint' || action.kind === 'burn') {
+      const rawAmount = toRawTokenAmount(action.amount, mintInfo.decimals);
+      if (rawAmount === null || rawAmount <= BigInt(0)) {
+        throw new Error(`Invalid amount. Use a positive number with at most ${mintInfo.decimals} decimals`);
+      }
+
+      if (action.kind === 'mint') {
+        if (!mintInfo.mintAuthority?.equals(multisigPublicKey)) {
+          throw new Error('This multisig is not the mint authority for this token');
+        }
+
+        const destinationOwner = new PublicKey(action.destination);
+        const destination = getAssociatedTokenAddressForProgram(mintPublicKey, destinationOwner, programId, true);
+        transaction.add(
+          createAssociatedTokenAccountIdempotentInstruction(
+            feePayer,
+            destination,
+            destinationOwner,
+            mintPublicKey,
+            programId,
+            ASSOCIATED_TOKEN_PROGRAM_ID
+          ),
+          createMintToCheckedInstruction(
+            mintPublicKey,
+            destination,
+            multisigPublicKey,
+            rawAmount,
+            mintInfo.decimals,
+            cosignerKeys,
+            programId
+          )
+        );
+      } else {
+        const tokenAccount = getAssociatedTokenAddressForProgram(mintPublicKey, multisigPublicKey, programId, true);
+        transaction.add(
+          createBurnCheckedInstruction(
+            tokenAccount,
+            mintPublicKey,
+            multisigPublicKey,
+            rawAmount,
+            mintInfo.decimals,
+            cosignerKeys,
+            programId
+          )
+        );
+      }
+    } else {
+      const currentAuthority = action.authorityKind === 'mint' ? mintInfo.mintAuthority : mintInfo.freezeAuthority;
+      if (!currentAuthority?.equals(multisigPublicKey)) {
+        throw new Error(`This multisig is not the ${action.authorityKind} authority for this token`);
+      }
+
+      transaction.add(
+        createSetAuthorityInstruction(
+          mintPublicKey,
+          multisigPublicKey,
+          action.authorityKind === 'mint' ? AuthorityType.MintTokens : AuthorityType.FreezeAccount,
+          action.newAuthority ? new PublicKey(action.newAuthority) : null,
+          cosignerKeys,
+          programId
+        )
+      );
+    }
+
+    const nonce = nonceAccount ? await getDurableNonce(connection, nonceAccount, feePayer) : null;
+    transaction.feePayer = feePayer;
+    transaction.recentBlockhash = nonce
+      ? nonce.nonce
+      : (await connection.getLatestBlockhash({ commitment: 'finalized' })).blockhash;
+    await applyComputeBudget(connection, transaction, feePayer);
+
+    if (nonce) {
+      transaction.instructions = withNonceAdvanceFirst(transaction.instructions, nonce.advanceInstruction);
+    }
+
+    return encodeTransaction(transaction);
+  } catch (error) {
+    console.error('Error building multisig transaction:', error);
+    throw error;
+  }
+}
+
+/**
+ * Serialize a partially signed transaction for passing to the next signer
+ */
+export function encodeTransaction(transaction: Transaction): string {
+  return transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+}
+
+/**
+ * Parse a base64 transaction from another signer. Rejects it if any signature
+ * already on it doesn't match the message, i.e. it was altered after signing.
+ */
+export function decodeTransaction(encoded: string): Transaction {
+  let transaction: Transaction;
+  try {
+    transaction = Transaction.from(Buffer.from(encoded.trim(), 'base64'));
+  } catch {
+    throw new Error('This is not a valid base64-encoded transaction');
+  }
+
+  if (!transaction.verifySignatures(false)) {
+    throw new Error('A signature on this transaction does not match its contents');
+  }
+
+  return transaction;
+}
+
+function shortAddress(address: PublicKey): string {
+  const value = address.toBase58();
+  return `${value.slice(0, 4)}...${value.slice(-4)}`;
+}
+
+async function describeTokenInstruction(
+  connection: Connection,
+  instruction: TransactionInstruction
+): Promise<DecodedInstructionSummary> {
+  const program = instruction.programId.equals(TOKEN_PROGRAM_ID) ? 'SPL Token' : 'Token-2022';
+  const name = TokenInstruction[instruction.data[0]] ?? `Instruction ${instruction.data[0]}`;
+  const details: { label: string; value: string }[] = [];
+
+  try {
+    const decoded = decodeInstruction(instruction, instruction.programId);
+
+    if (isMintToCheckedInstruction(decoded)) {
+      details.push({ label: 'Amount', value: formatTokenAmount(decoded.data.amount, decoded.data.decimals) });
+      details.push({ label: 'Mint', value: decoded.keys.mint.pubkey.toBase58() });
+      details.push({ label: 'To account', value: decoded.keys.destination.pubkey.toBase58() });
+      details.push({ label: 'Authority', value: decoded.keys.authority.pubkey.toBase58() });
+    } else if (isBurnCheckedInstruction(decoded)) {
+      details.push({ label: 'Amount', value: formatTokenAmount(decoded.data.amount, decoded.data.decimals) });
+      details.push({ label: 'Mint', value: decoded.keys.mint.pubkey.toBase58() });
+      details.push({ label: 'From account', value: decoded.keys.account.pubkey.toBase58() });
+      details.push({ label: 'Authority', value: decoded.keys.owner.pubkey.toBase58() });
+    } else if (isMintToInstruction(decoded) || isBurnInstruction(decoded)) {
+      const { mintInfo } = await getMintWithProgram(connection, decoded.keys.mint.pubkey);
+      details.push({ label: 'Amount', value: formatTokenAmount(decoded.data.amount, mintInfo.decimals) });
+      details.push({ label: 'Mint', value: decoded.keys.mint.pubkey.toBase58() });
+    } else if (isSetAuthorityInstruction(decoded)) {
+      details.push({ label: 'Account', value: decoded.keys.account.pubkey.toBase58() });
+      details.push({ label: 'Authority type', value: AuthorityType[decoded.data.authorityType] });
+      details.push({ label: 'New authority', value: decoded.data.newAuthority?.toBase58() ?? 'None (revoked)' });
+    }
+  } catch (error) {
+    console.log('Could not decode token instruction:', error);
+  }
+
+  const signers = instruction.keys.filter((key) => key.isSigner).map((key) => shortAddress(key.pubkey));
+  if (signers.length > 0) {
+    details.push({ label: 'Signers', value: signers.join(', ') });
+  }
+
+  return { program, name, details };
+}
+
+/**
+ * Decode what a transaction does and who still has to sign it, for review before signing
+ */
+export async function reviewMultisigTransaction(
+  connection: Connection,
+  transaction: Transaction
+): Promise<MultisigTransactionReview> {
+  const instructions = await Promise.all(
+    transaction.instructions.map(async (instruction): Promise<DecodedInstructionSummary> => {
+      if (isTokenProgram(instruction.programId)) {
+        return describeTokenInstruction(connection, instruction);
+      }
+      if (instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+        return {
+          program: 'Associated Token',
+          name: 'Create associated token account',
+          details: [
+            { label: 'Account', value: instruction.keys[1]?.pubkey.toBase58() ?? '' },
+            { label: 'Owner', value: instruction.keys[2]?.pubkey.toBase58() ?? '' },
+          ],
+        };
+      }
+      if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+        return { program: 'Compute Budget', name: 'Set compute budget', details: [] };
+      }
+      if (instruction.programId.equals(SystemProgram.programId)) {
+        const nonceAccount = getAdvancedNonceAccount(instruction);
+        return nonceAccount
+          ? { program: 'System', name: 'Advance nonce', details: [{ label: 'Nonce account', value: nonceAccount.toBase58() }] }
+          : { program: 'System', name: 'System instruction', details: [] };
+      }
+      return { program: instruction.programId.toBase58(), name: 'Unknown instruction', details: [] };
+    })
+  );
+
+  const signatures = transaction.signatures.map(({ publicKey, signature }) => ({
+    publicKey,
+    signed: signature !== null,
+  }));
+
+  return {
+    transaction,
+    feePayer: transaction.feePayer ?? null,
+    blockhash: transaction.recentBlockhash ?? null,
+    instructions,
+    signatures,
+    complete: signatures.length > 0 && signatures.every((signature) => signature.signed),
+  };
+}
+
+/**
+ * Add the wallet's signature to a partially signed transaction. Signatures
+ * from earlier signers are carried over in case the wallet drops them.
+ */
+export async function cosignTransaction(wallet: WalletSigner, transaction: Transaction): Promise<Transaction> {
+  const required = transaction.signatures.find(({ publicKey }) => publicKey.equals(wallet.publicKey));
+  if (!required) {
+    throw new Error('Your wallet is not one of the signers of this transaction');
+  }
+
+  const existing = transaction.signatures.filter(({ signature }) => signature !== null);
+  const signed = await wallet.signTransaction(transaction);
+
+  existing.forEach(({ publicKey, signature }) => {
+    const current = signed.signatures.find((entry) => entry.publicKey.equals(publicKey));
+    if (signature && !current?.signature) {
+      signed.addSignature(publicKey, signature);
+    }
+  });
+
+  return signed;
+}
+
+/**
+ * Broadcast a transaction once every co-signer has signed it
+ */
+export async function broadcastMultisigTransaction(
+  connection: Connection,
+  transaction: Transaction | VersionedTransaction
+): Promise<TransactionResult> {
+  return broadcastSignedTransaction(connection, transaction, {
+    preflightCommitment: 'confirmed',
+    confirmCommitment: 'confirmed',
+    label: 'Multisig transaction'
+  });
+}
@@ -0,0 +1,148 @@
+import {
+  Connection,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  PublicKey,
+  SystemProgram,
+  Transaction
+} from '@solana/web3.js';
+import { getNonceAccountInfo } from './durable-nonce';
+import { TransactionPayer } from './signer';
+import { sendTransactionWithRetry } from './transaction-utility';
+
+// Authority offset in a nonce account: version (4) + state (4)
+const NONCE_AUTHORITY_OFFSET = 8;
+
+// Managing a nonce account never uses a nonce itself
+const SEND_OPTIONS = {
+  maxRetries: 3,
+  skipPreflight: false,
+  preflightCommitment: 'confirmed',
+  confirmCommitment: 'confirmed',
+  durableNonce: null,
+};
+
+/**
+ * List the nonce accounts whose authority is the given wallet
+ */
+export async function getOwnedNonceAccounts(connection: Connection, authority: PublicKey): Promise<PublicKey[]> {
+  try {
+    const accounts = await connection.getProgramAccounts(SystemProgram.programId, {
+      filters: [
+        { dataSize: NONCE_ACCOUNT_LENGTH },
+        { memcmp: { offset: NONCE_AUTHORITY_OFFSET, bytes: authority.toBase58() } },
+      ],
+      dataSlice: { offset: 0, length: 0 },
+    });
+    return accounts.map(({ pubkey }) => pubkey);
+  } catch (error) {
+    console.error('Error loading nonce accounts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a rent-exempt nonce account with the wallet as its authority
+ */
+export async function createNonceAccount(
+  connection: Connection,
+  wallet: TransactionPayer
+): Promise<{ address: PublicKey; signature: string }> {
+  const nonceKeypair = Keypair.generate();
+
+  try {
+    const lamports = await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+    const transaction = SystemProgram.createNonceAccount({
+      fromPubkey: wallet.publicKey,
+      noncePubkey: nonceKeypair.publicKey,
+      authorizedPubkey: wallet.publicKey,
+      lamports,
+    });
+
+    const signature = await sendTransactionWithRetry(connection, wallet, transaction, [nonceKeypair], {
+      ...SEND_OPTIONS,
+      label: 'Create nonce account',
+    });
+
+    return { address: nonceKeypair.publicKey, signature };
+  } catch (error) {
+    console.error('Error creating nonce account:', error);
+    throw error;
+  }
+}
+
+/**
+ * Advance the nonce, invalidating every transaction signed against the current value
+ */
+export async function advanceNonceAccount(
+  connection: Connection,
+  wallet: TransactionPayer,
+  nonceAccount: PublicKey
+): Promise<string> {
+  try {
+    const instruction = SystemProgram.nonceAdvance({
+      noncePubkey: nonceAccount,
+      authorizedPubkey: wallet.publicKey,
+    });
+
+    return await sendTransactionWithRetry(connection, wallet, new Transaction().add(instruction), [], {
+      ...SEND_OPTIONS,
+      label: 'Advance nonce',
+    });
+  } catch (error) {
+    console.error('Error advancing nonce:', error);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw SOL from a nonce account to the wallet. Whatever stays must keep
+ * the account rent exempt; withdrawing everything closes it.
+ */
+export async function withdrawFromNonceAccount(
+  connection: Connection,
+  wallet: TransactionPayer,
+  nonceAccount: PublicKey,
+  lamports: number
+): Promise<string> {
+  try {
+    const [info, rentExempt] = await Promise.all([
+      getNonceAccountInfo(connection, nonceAccount),
+      connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH),
+    ]);
+
+    if (!Number.isInteger(lamports) || lamports <= 0 || lamports > info.lamports) {
+      throw new Error(`Withdraw between 1 and ${info.lamports} lamports`);
+    }
+    if (lamports < info.lamports && info.lamports - lamports < rentExempt) {
+      throw new Error(`At least ${rentExempt} lamports must stay in the account, or withdraw everything to close it`);
+    }
+
+    const instruction = SystemProgram.nonceWithdraw({
+      noncePubkey: nonceAccount,
+      authorizedPubkey: wallet.publicKey,
+      toPubkey: wallet.publicKey,
+      lamports,
+    });
+
+    return await sendTransactionWithRetry(connection, wallet, new Transaction().add(instruction), [], {
+      ...SEND_OPTIONS,
+      label: lamports === info.lamports ? 'Close nonce account' : 'Withdraw from nonce account',
+    });
+  } catch (error) {
+    console.error('Error withdrawing from nonce account:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close a nonce account by withdrawing its whole balance to the wallet
+ */
+export async function closeNonceAccount(
+  connection: Connection,
+  wallet: TransactionPayer,
+  nonceAccount: PublicKey
+): Promise<string> {
+  const { lamports } = await getNonceAccountInfo(connection, nonceAccount);
+  return withdrawFromNonceAccount(connection, wallet, nonceAccount, lamports);
+}
@@ -0,0 +1,103 @@
+import { Connection, ParsedAccountData, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { decodeMetadataAccount, getMetadataAddress } from './token-metadata';
+
+// getMultiple*Accounts calls accept at most 100 keys per request
+const ACCOUNT_LOOKUP_BATCH_SIZE = 100;
+
+export interface TokenHolding {
+  tokenAccount: PublicKey;
+  mint: PublicKey;
+  programId: PublicKey;
+  amount: string;
+  uiAmount: string;
+  decimals: number;
+  frozen: boolean;
+  isMintAuthority: boolean;
+  name: string | null;
+  symbol: string | null;
+}
+
+async function fetchInBatches<T>(
+  keys: PublicKey[],
+  fetch: (batch: PublicKey[]) => Promise<T[]>
+): Promise<T[]> {
+  const results: T[] = [];
+  for (let i = 0; i < keys.length; i += ACCOUNT_LOOKUP_BATCH_SIZE) {
+    results.push(...(await fetch(keys.slice(i, i + ACCOUNT_LOOKUP_BATCH_SIZE))));
+  }
+  return results;
+}
+
+/**
+ * Lists every token account the owner holds under both token programs,
+ * enriched with mint authority and name/symbol where metadata exists.
+ * Token-2022 embedded metadata takes precedence over Metaplex metadata.
+ */
+export async function getWalletTokenHoldings(
+  connection: Connection,
+  owner: PublicKey
+): Promise<TokenHolding[]> {
+  const programIds = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+  const responses = await Promise.all(
+    programIds.map((programId) => connection.getParsedTokenAccountsByOwner(owner, { programId }))
+  );
+
+  const accounts = responses.flatMap((response, i) =>
+    response.value.map(({ pubkey, account }) => ({
+      pubkey,
+      programId: programIds[i],
+      info: account.data.parsed.info,
+    }))
+  );
+
+  if (accounts.length === 0) return [];
+
+  const mints = Array.from(new Set(accounts.map((account) => account.info.mint as string))).map(
+    (mint) => new PublicKey(mint)
+  );
+
+  const [mintAccounts, metadataAccounts] = await Promise.all([
+    fetchInBatches(mints, async (batch) => (await connection.getMultipleParsedAccounts(batch)).value),
+    fetchInBatches(mints.map(getMetadataAddress), (batch) => connection.getMultipleAccountsInfo(batch)),
+  ]);
+
+  const mintDetails = new Map<string, { mintAuthority: string | null; name: string | null; symbol: string | null }>();
+
+  mints.forEach((mint, i) => {
+    const parsed = (mintAccounts[i]?.data as ParsedAccountData | undefined)?.parsed?.info;
+    const embedded = parsed?.extensions?.find(
+      (extension: { extension: string }) => extension.extension === 'tokenMetadata'
+    )?.state;
+    const metaplexData = metadataAccounts[i]?.data;
+    const metaplex = metaplexData ? decodeMetadataAccount(metaplexData) : null;
+
+    mintDetails.set(mint.toBase58(), {
+      mintAuthority: parsed?.mintAuthority ?? null,
+      name: embedded?.name || metaplex?.name || null,
+      symbol: embedded?.symbol || metaplex?.symbol || null,
+    });
+  });
+
+  const ownerAddress = owner.toBase58();
+
+  return accounts
+    .map(({ pubkey, programId, info }) => {
+      const details = mintDetails.get(info.mint);
+      return {
+        tokenAccount: pubkey,
+        mint: new PublicKey(info.mint),
+        programId,
+        amount: info.tokenAmount.amount as string,
+        uiAmount: info.tokenAmount.uiAmountString as string,
+        decimals: info.tokenAmount.decimals as number,
+        frozen: info.state === 'frozen',
+        isMintAuthority: details?.mintAuthority === ownerAddress,
+        name: details?.name ?? null,
+        symbol: details?.symbol ?? null,
+      };
+    })
+    // Show accounts that actually hold tokens first
+    .sort((a, b) => Number(b.amount !== '0') - Number(a.amount !== '0'));
+}
@@ -0,0 +1,194 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+
+export type PriorityFeeLevel = 'low' | 'medium' | 'high' | 'custom';
+
+export interface PriorityFeeSettings {
+  level: PriorityFeeLevel;
+  // Only used with the 'custom' level
+  customMicroLamports?: number;
+}
+
+export interface ComputeBudget {
+  microLamports: number;
+  units: number | null;
+}
+
+// Percentile of recent non-zero fees used for each preset, and the floor
+// applied when the network is quiet and recent fees are all zero
+export const PRIORITY_FEE_LEVELS: Record<Exclude<PriorityFeeLevel, 'custom'>, { label: string; percentile: number; minimum: number }> = {
+  low: { label: 'Low', percentile: 25, minimum: 1_000 },
+  medium: { label: 'Medium', percentile: 50, minimum: 10_000 },
+  high: { label: 'High', percentile: 75, minimum: 100_000 },
+};
+
+export const DEFAULT_PRIORITY_FEE: PriorityFeeSettings = { level: 'medium' };
+
+// Highest compute unit limit a transaction may request
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+// Headroom on top of the simulated compute units, since state can change before landing
+const COMPUTE_UNIT_MARGIN = 1.1;
+
+// The network-wide settings picked in the UI; every send reads these
+let currentSettings: PriorityFeeSettings = DEFAULT_PRIORITY_FEE;
+
+/**
+ * Set the fee strategy used for all outgoing transactions
+ */
+export function setPriorityFeeSettings(settings: PriorityFeeSettings): void {
+  currentSettings = settings;
+}
+
+export function getPriorityFeeSettings(): PriorityFeeSettings {
+  return currentSettings;
+}
+
+/**
+ * Placeholder compute budget instructions with the same size as the real ones,
+ * for code that measures transaction size before the fee is known
+ */
+export function getComputeBudgetPlaceholders(): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 0 }),
+  ];
+}
+
+function isComputeBudgetInstruction(instruction: TransactionInstruction): boolean {
+  return instruction.programId.equals(ComputeBudgetProgram.programId);
+}
+
+function getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+  const writable = new Map<string, PublicKey>();
+  instructions.forEach((instruction) =>
+    instruction.keys
+      .filter((key) => key.isWritable)
+      .forEach((key) => writable.set(key.pubkey.toBase58(), key.pubkey))
+  );
+  // getRecentPrioritizationFees accepts at most 128 accounts
+  return Array.from(writable.values()).slice(0, 128);
+}
+
+/**
+ * Estimate a compute unit price in micro-lamports from the recent fees paid
+ * to write the same accounts
+ */
+export async function estimatePriorityFee(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  settings: PriorityFeeSettings = currentSettings
+): Promise<number> {
+  if (settings.level === 'custom') {
+    return Math.max(0, Math.floor(settings.customMicroLamports ?? 0));
+  }
+
+  const { percentile, minimum } = PRIORITY_FEE_LEVELS[settings.level];
+
+  try {
+    const recentFees = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts });
+    const fees = recentFees
+      .map((fee) => fee.prioritizationFee)
+      .filter((fee) => fee > 0)
+      .sort((a, b) => a - b);
+
+    if (fees.length === 0) return minimum;
+
+    const index = Math.min(fees.length - 1, Math.floor((percentile / 100) * fees.length));
+    return Math.max(minimum, fees[index]);
+  } catch (error) {
+    // Fees are best effort; fall back to the preset floor rather than blocking the send
+    console.error('Error fetching recent prioritization fees:', error);
+    return minimum;
+  }
+}
+
+/**
+ * Simulate the instructions to find how many compute units they need. Pass the
+ * lookup tables the transaction will be sent with, or a large transaction may
+ * be too big to simulate. Returns null when the simulation fails, so the
+ * default limit applies.
+ */
+export async function estimateComputeUnits(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = []
+): Promise<number | null> {
+  try {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...instructions],
+    }).compileToV0Message(lookupTables);
+
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    });
+
+    if (value.err || !value.unitsConsumed) return null;
+
+    return Math.min(MAX_COMPUTE_UNITS, Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN));
+  } catch (error) {
+    console.error('Error simulating compute units:', error);
+    return null;
+  }
+}
+
+/**
+ * Work out the compute budget for a set of instructions with the current settings
+ */
+export async function getComputeBudget(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = [],
+  settings: PriorityFeeSettings = currentSettings
+): Promise<ComputeBudget> {
+  const [microLamports, units] = await Promise.all([
+    estimatePriorityFee(connection, getWritableAccounts(instructions), settings),
+    estimateComputeUnits(connection, instructions, payer, lookupTables),
+  ]);
+  return { microLamports, units };
+}
+
+/**
+ * Build the ComputeBudget instructions for a budget
+ */
+export function createComputeBudgetInstructions(budget: ComputeBudget): TransactionInstruction[] {
+  const instructions: TransactionInstruction[] = [];
+  if (budget.units !== null) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: budget.units }));
+  }
+  if (budget.microLamports > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: budget.microLamports }));
+  }
+  return instructions;
+}
+
+/**
+ * Prepend a compute unit limit and price to a transaction. Transactions that
+ * already set their own compute budget are left alone.
+ */
+export async function applyComputeBudget(
+  connection: Connection,
+  transaction: Transaction,
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = [],
+  settings: PriorityFeeSettings = currentSettings
+): Promise<ComputeBudget | null> {
+  if (transaction.instructions.some(isComputeBudgetInstruction)) return null;
+
+  const budget = await getComputeBudget(connection, transaction.instructions, payer, lookupTables, settings);
+  transaction.instructions = [...createComputeBudgetInstructions(budget), ...transaction.instructions];
+  return budget;
+}
@@ -0,0 +1,338 @@
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionError,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+
+interface ErrorDefinition {
+  name: string;
+  message: string;
+  suggestion?: string;
+}
+
+interface ProgramErrorTable {
+  programName: string;
+  errors: Record<number, ErrorDefinition>;
+}
+
+const SYSTEM_ERRORS: Record<number, ErrorDefinition> = {
+  0: { name: 'AccountAlreadyInUse', message: 'An account with the same address already exists', suggestion: 'Generate a new keypair or address and try again.' },
+  1: { name: 'ResultWithNegativeLamports', message: 'Account does not have enough SOL to perform the operation', suggestion: 'Add SOL to the paying account.' },
+  2: { name: 'InvalidProgramId', message: 'Cannot assign account to this program id' },
+  3: { name: 'InvalidAccountDataLength', message: 'Cannot allocate account data of this length' },
+  4: { name: 'MaxSeedLengthExceeded', message: 'Length of requested seed is too long' },
+  5: { name: 'AddressWithSeedMismatch', message: 'Provided address does not match addressed derived from seed' },
+  6: { name: 'NonceNoRecentBlockhashes', message: 'Advancing stored nonce requires a populated RecentBlockhashes sysvar' },
+  7: { name: 'NonceBlockhashNotExpired', message: 'Stored nonce is still in recent_blockhashes', suggestion: 'Wait for the next block before advancing the nonce again.' },
+  8: { name: 'NonceUnexpectedBlockhashValue', message: 'Specified nonce does not match stored nonce', suggestion: 'Reload the nonce account and rebuild the transaction.' },
+};
+
+// Errors shared by SPL Token and Token-2022
+const TOKEN_ERRORS: Record<number, ErrorDefinition> = {
+  0: { name: 'NotRentExempt', message: 'Lamport balance below rent-exempt threshold', suggestion: 'Fund the account with enough SOL to be rent exempt.' },
+  1: { name: 'InsufficientFunds', message: 'Insufficient token balance', suggestion: 'Lower the amount or top up the source token account.' },
+  2: { name: 'InvalidMint', message: 'Invalid mint', suggestion: 'Check the mint address.' },
+  3: { name: 'MintMismatch', message: 'Account not associated with this mint', suggestion: 'Use a token account that belongs to this mint.' },
+  4: { name: 'OwnerMismatch', message: 'Owner does not match', suggestion: 'Sign with the wallet that owns the account or holds the authority.' },
+  5: { name: 'FixedSupply', message: 'This token has a fixed supply', suggestion: 'The mint authority was revoked, so no more tokens can be minted.' },
+  6: { name: 'AlreadyInUse', message: 'The account cannot be initialized because it is already in use' },
+  7: { name: 'InvalidNumberOfProvidedSigners', message: 'Invalid number of provided signers' },
+  8: { name: 'InvalidNumberOfRequiredSigners', message: 'Invalid number of required signers' },
+  9: { name: 'UninitializedState', message: 'State is uninitialized', suggestion: 'Create the token account before using it.' },
+  10: { name: 'NativeNotSupported', message: 'Instruction does not support native tokens' },
+  11: { name: 'NonNativeHasBalance', message: 'Non-native account can only be closed if its balance is zero', suggestion: 'Burn or transfer the remaining tokens before closing the account.' },
+  12: { name: 'InvalidInstruction', message: 'Invalid instruction' },
+  13: { name: 'InvalidState', message: 'State is invalid for requested operation' },
+  14: { name: 'Overflow', message: 'Operation overflowed', suggestion: 'The amount would exceed the maximum supply; try a smaller amount.' },
+  15: { name: 'AuthorityTypeNotSupported', message: 'Account does not support specified authority type' },
+  16: { name: 'MintCannotFreeze', message: 'This token mint cannot freeze accounts', suggestion: 'The mint has no freeze authority.' },
+  17: { name: 'AccountFrozen', message: 'Account is frozen', suggestion: 'Ask the freeze authority to thaw the account.' },
+  18: { name: 'MintDecimalsMismatch', message: 'The provided decimals value different from the Mint decimals', suggestion: 'Reload the token and retry with its actual decimals.' },
+  19: { name: 'NonNativeNotSupported', message: 'Instruction does not support non-native tokens' },
+};
+
+const TOKEN_2022_ERRORS: Record<number, ErrorDefinition> = {
+  ...TOKEN_ERRORS,
+  20: { name: 'ExtensionTypeMismatch', message: 'Extension type does not match already existing extensions' },
+  21: { name: 'ExtensionBaseMismatch', message: 'Extension does not match the base type provided' },
+  22: { name: 'ExtensionAlreadyInitialized', message: 'Extension already initialized on this account' },
+  23: { name: 'ConfidentialTransferAccountHasBalance', message: 'An account can only be closed if its confidential balance is zero' },
+  24: { name: 'ConfidentialTransferAccountNotApproved', message: 'Account not approved for confidential transfers' },
+  25: { name: 'ConfidentialTransferDepositsAndTransfersDisabled', message: 'Account not accepting deposits or transfers' },
+  26: { name: 'ConfidentialTransferElGamalPubkeyMismatch', message: 'ElGamal public key mismatch' },
+  27: { name: 'ConfidentialTransferBalanceMismatch', message: 'Balance mismatch' },
+  28: { name: 'MintHasSupply', message: 'Mint has non-zero supply', suggestion: 'Burn the whole supply before closing the mint.' },
+  29: { name: 'NoAuthorityExists', message: 'No authority exists to perform the desired operation' },
+  30: { name: 'TransferFeeExceedsMaximum', message: 'Transfer fee exceeds maximum of 10,000 basis points' },
+  31: { name: 'MintRequiredForTransfer', message: 'Mint required for this account to transfer tokens', suggestion: 'Use a checked transfer that includes the mint.' },
+  32: { name: 'FeeMismatch', message: 'Calculated fee does not match expected fee' },
+  33: { name: 'FeeParametersMismatch', message: 'Fee parameters associated with confidential transfer zero-knowledge proofs do not match fee parameters in mint' },
+  34: { name: 'ImmutableOwner', message: 'The owner authority cannot be changed' },
+  35: { name: 'AccountHasWithheldTransferFees', message: 'An account can only be closed if its withheld fee balance is zero', suggestion: 'Harvest the withheld fees to the mint first.' },
+  36: { name: 'NoMemo', message: 'No memo in previous instruction; required for recipient to receive a transfer', suggestion: 'The recipient requires a memo with incoming transfers.' },
+  37: { name: 'NonTransferable', message: 'Transfer is disabled for this mint', suggestion: 'This is a non-transferable token.' },
+  38: { name: 'NonTransferableNeedsImmutableOwnership', message: 'Non-transferable tokens cannot be held by accounts without immutable ownership' },
+  39: { name: 'MaximumPendingBalanceCounterExceeded', message: 'The total number of pending deposits and transfers has exceeded the limit' },
+  40: { name: 'MaximumDepositAmountExceeded', message: 'The deposit amount for the confidential extension exceeds the maximum limit' },
+  41: { name: 'CpiGuardSettingsLocked', message: 'CPI Guard cannot be enabled or disabled in CPI' },
+  42: { name: 'CpiGuardTransferBlocked', message: 'CPI Guard is enabled, and a program attempted to transfer user funds via CPI without using a delegate' },
+  43: { name: 'CpiGuardBurnBlocked', message: 'CPI Guard is enabled, and a program attempted to burn user funds via CPI without using a delegate' },
+  44: { name: 'CpiGuardCloseAccountBlocked', message: 'CPI Guard is enabled, and a program attempted to close an account via CPI without returning lamports to owner' },
+  45: { name: 'CpiGuardApproveBlocked', message: 'CPI Guard is enabled, and a program attempted to approve a delegate via CPI' },
+  46: { name: 'CpiGuardSetAuthorityBlocked', message: 'CPI Guard is enabled, and a program attempted to add or replace an authority via CPI' },
+  47: { name: 'CpiGuardOwnerChangeBlocked', message: 'Account ownership cannot be changed while CPI Guard is enabled' },
+  48: { name: 'ExtensionNotFound', message: 'Extension not found in account data' },
+};
+
+const ASSOCIATED_TOKEN_ERRORS: Record<number, ErrorDefinition> = {
+  0: { name: 'InvalidOwner', message: 'Associated token account owner does not match address derivation', suggestion: 'Derive the associated token account from the right owner and token program.' },
+};
+
+const PROGRAM_ERRORS = new Map<string, ProgramErrorTable>([
+  [SystemProgram.programId.toBase58(), { programName: 'System Program', errors: SYSTEM_ERRORS }],
+  [TOKEN_PROGRAM_ID.toBase58(), { programName: 'Token Program', errors: TOKEN_ERRORS }],
+  [TOKEN_2022_PROGRAM_ID.toBase58(), { programName: 'Token-2022 Program', errors: TOKEN_2022_ERRORS }],
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(), { programName: 'Associated Token Program', errors: ASSOCIATED_TOKEN_ERRORS }],
+]);
+
+// Runtime errors any instruction can fail with, keyed by their InstructionError name
+const INSTRUCTION_ERRORS: Record<string, ErrorDefinition> = {
+  InsufficientFunds: { name: 'InsufficientFunds', message: 'Insufficient funds for instruction', suggestion: 'Add SOL to the paying account.' },
+  MissingRequiredSignature: { name: 'MissingRequiredSignature', message: 'A required signature is missing', suggestion: 'Sign with the wallet that holds the authority.' },
+  IllegalOwner: { name: 'IllegalOwner', message: 'Provided owner is not allowed', suggestion: 'Check that the account belongs to the expected program.' },
+  InvalidAccountData: { name: 'InvalidAccountData', message: 'Invalid account data for instruction', suggestion: 'Check that the address is the right kind of account.' },
+  AccountAlreadyInitialized: { name: 'AccountAlreadyInitialized', message: 'Account is already initialized' },
+  UninitializedAccount: { name: 'UninitializedAccount', message: 'Account is not initialized', suggestion: 'Create the account before using it.' },
+  IncorrectProgramId: { name: 'IncorrectProgramId', message: 'Incorrect program id for instruction', suggestion: 'Check whether the token uses SPL Token or Token-2022.' },
+  InvalidArgument: { name: 'InvalidArgument', message: 'Invalid program argument' },
+  ComputationalBudgetExceeded: { name: 'ComputationalBudgetExceeded', message: 'Computational budget exceeded', suggestion: 'Split the work across more transactions.' },
+  ProgramFailedToComplete: { name: 'ProgramFailedToComplete', message: 'Program failed to complete' },
+};
+
+// Errors for the transaction as a whole, before any instruction runs
+const TRANSACTION_ERRORS: Record<string, ErrorDefinition> = {
+  AccountNotFound: { name: 'AccountNotFound', message: 'Attempt to debit an account but found no record of a prior credit', suggestion: 'Fund the fee payer with SOL.' },
+  InsufficientFundsForFee: { name: 'InsufficientFundsForFee', message: 'Insufficient funds for fee', suggestion: 'Add SOL to the fee payer.' },
+  InsufficientFundsForRent: { name: 'InsufficientFundsForRent', message: 'Transaction leaves an account with insufficient funds for rent', suggestion: 'Add SOL to cover the rent-exempt minimum.' },
+  BlockhashNotFound: { name: 'BlockhashNotFound', message: 'Blockhash not found', suggestion: 'The transaction expired; try again.' },
+  AlreadyProcessed: { name: 'AlreadyProcessed', message: 'This transaction has already been processed' },
+  AccountInUse: { name: 'AccountInUse', message: 'Account in use', suggestion: 'Wait for the previous transaction to finish and try again.' },
+  SignatureFailure: { name: 'SignatureFailure', message: 'Transaction signature verification failed', suggestion: 'Check your wallet connection and sign again.' },
+};
+
+// Message text from preflight errors, mapped back to the runtime error names
+const INSTRUCTION_ERROR_TEXT: Record<string, string> = {
+  'insufficient funds for instruction': 'InsufficientFunds',
+  'missing required signature for instruction': 'MissingRequiredSignature',
+  'Provided owner is not allowed': 'IllegalOwner',
+  'invalid account data for instruction': 'InvalidAccountData',
+  'instruction requires an uninitialized account': 'AccountAlreadyInitialized',
+  'instruction requires an initialized account': 'UninitializedAccount',
+  'incorrect program id for instruction': 'IncorrectProgramId',
+  'invalid program argument': 'InvalidArgument',
+  'Computational budget exceeded': 'ComputationalBudgetExceeded',
+  'Program failed to complete': 'ProgramFailedToComplete',
+};
+
+const TRANSACTION_ERROR_TEXT: Record<string, string> = {
+  'Attempt to debit an account but found no record of a prior credit': 'AccountNotFound',
+  'Transaction leaves an account with a lower balance than rent-exempt minimum': 'InsufficientFundsForRent',
+  'insufficient funds for fee': 'InsufficientFundsForFee',
+  'Blockhash not found': 'BlockhashNotFound',
+  'This transaction has already been processed': 'AlreadyProcessed',
+};
+
+/**
+ * A program or transaction error decoded from a simulation, preflight or
+ * confirmation result
+ */
+export class ProgramError extends Error {
+  constructor(
+    public code: number | null,
+    public errorName: string,
+    public description: string,
+    public instructionIndex: number | null,
+    public programId: string | null,
+    public programName: string | null,
+    public suggestion: string | null,
+    public signature: string | null = null,
+    public logs: string[] = []
+  ) {
+    super(formatProgramError(errorName, description, code, instructionIndex, programName));
+    this.name = 'ProgramError';
+  }
+}
+
+function formatProgramError(
+  errorName: string,
+  description: string,
+  code: number | null,
+  instructionIndex: number | null,
+  programName: string | null
+): string {
+  const source = [
+    programName,
+    instructionIndex !== null ? `instruction ${instructionIndex}` : null,
+    code !== null ? `${errorName} 0x${code.toString(16)}` : errorName,
+  ].filter(Boolean).join(', ');
+  return `${description} (${source})`;
+}
+
+/**
+ * The program invoked by each top-level instruction, in order
+ */
+export function getInstructionProgramIds(transaction: VersionedTransaction): PublicKey[] {
+  const keys = transaction.message.staticAccountKeys;
+  return transaction.message.compiledInstructions.map((instruction) => keys[instruction.programIdIndex]);
+}
+
+// The program that failed, from the "Program <id> failed: ..." log line
+function getFailedProgramFromLogs(logs: string[]): string | null {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    const match = logs[i].match(/^Program (\w+) failed/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function decodeInstructionError(
+  instructionIndex: number,
+  instructionError: unknown,
+  programIds: PublicKey[],
+  logs: string[]
+): ProgramError {
+  const programId = programIds[instructionIndex]?.toBase58() ?? getFailedProgramFromLogs(logs);
+  const table = programId ? PROGRAM_ERRORS.get(programId) : undefined;
+  const programName = table?.programName ?? null;
+
+  if (instructionError && typeof instructionError === 'object' && 'Custom' in instructionError) {
+    const code = (instructionError as { Custom: number }).Custom;
+    const definition = table?.errors[code];
+    return new ProgramError(
+      code,
+      definition?.name ?? 'Custom',
+      definition?.message ?? 'Custom program error',
+      instructionIndex,
+      programId,
+      programName,
+      definition?.suggestion ?? null,
+      null,
+      logs
+    );
+  }
+
+  const name = typeof instructionError === 'string' ? instructionError : Object.keys(instructionError ?? {})[0] ?? 'InstructionError';
+  const definition = INSTRUCTION_ERRORS[name];
+  return new ProgramError(
+    null,
+    name,
+    definition?.message ?? `Instruction failed: ${typeof instructionError === 'string' ? instructionError : JSON.stringify(instructionError)}`,
+    instructionIndex,
+    programId,
+    programName,
+    definition?.suggestion ?? null,
+    null,
+    logs
+  );
+}
+
+/**
+ * Decode the error object from a simulation or signature status. Pass the
+ * program id of each instruction (see getInstructionProgramIds) so custom
+ * error codes are looked up in the right program's table; without them the
+ * failing program is taken from the logs, if there are any.
+ */
+export function decodeTransactionError(
+  err: TransactionError,
+  programIds: PublicKey[] = [],
+  logs: string[] = []
+): ProgramError {
+  if (err && typeof err === 'object' && 'InstructionError' in err) {
+    const [index, instructionError] = (err as { InstructionError: [number, unknown] }).InstructionError;
+    return decodeInstructionError(index, instructionError, programIds, logs);
+  }
+
+  const name = typeof err === 'string' ? err : Object.keys(err ?? {})[0] ?? 'TransactionError';
+  const definition = TRANSACTION_ERRORS[name];
+  return new ProgramError(
+    null,
+    name,
+    definition?.message ?? `Transaction failed: ${typeof err === 'string' ? err : JSON.stringify(err)}`,
+    null,
+    null,
+    null,
+    definition?.suggestion ?? null,
+    null,
+    logs
+  );
+}
+
+function getErrorLogs(error: any): string[] {
+  const logs = error?.logs ?? error?.transactionLogs ?? error?.error?.logs;
+  return Array.isArray(logs) ? logs : [];
+}
+
+/**
+ * Decode a thrown error. Handles ProgramErrors, preflight failures from the
+ * RPC node or a wallet ("Error processing Instruction 1: custom program error:
+ * 0x1") and transaction-level failures. Returns null for anything that is not
+ * a program or transaction error, such as a rejected signature or a timeout.
+ */
+export function decodeError(error: unknown, programIds: PublicKey[] = []): ProgramError | null {
+  if (!error) return null;
+  if (error instanceof ProgramError) return error;
+
+  const message: string = (error as any).message ?? String(error);
+  const logs = getErrorLogs(error);
+
+  const instructionMatch = message.match(/Error processing Instruction (\d+): (.+?)(?:\.?$|\n)/m);
+  if (instructionMatch) {
+    const index = Number(instructionMatch[1]);
+    const detail = instructionMatch[2].trim();
+    const customMatch = detail.match(/custom program error: 0x([0-9a-fA-F]+)/);
+    if (customMatch) {
+      return decodeInstructionError(index, { Custom: parseInt(customMatch[1], 16) }, programIds, logs);
+    }
+    const knownText = Object.keys(INSTRUCTION_ERROR_TEXT).find((text) => detail.includes(text));
+    return decodeInstructionError(index, knownText ? INSTRUCTION_ERROR_TEXT[knownText] : detail, programIds, logs);
+  }
+
+  const transactionText = Object.keys(TRANSACTION_ERROR_TEXT).find((text) => message.includes(text));
+  if (transactionText) {
+    return decodeTransactionError(TRANSACTION_ERROR_TEXT[transactionText], [], logs);
+  }
+
+  return null;
+}
+
+/**
+ * The one place to turn any transaction error into a message for the user,
+ * including a suggested fix when one is known
+ */
+export function getErrorMessage(error: any): string {
+  if (!error) return 'Unknown error';
+
+  const decoded = decodeError(error);
+  if (decoded) {
+    return decoded.suggestion ? `${decoded.message}. ${decoded.suggestion}` : decoded.message;
+  }
+
+  const message: string = error.message || error.toString();
+
+  // Errors from the wallet or the network rather than a program
+  if (message.includes('block height exceeded')) {
+    return 'Transaction took too long to confirm. Please try again.';
+  } else if (message.includes('blockhash not found')) {
+    return 'Transaction expired. Please try again.';
+  } else if (message.includes('user rejected') || message.includes('User rejected')) {
+    return 'You declined the transaction. Please try again.';
+  } else if (message.includes('rejected')) {
+    return 'Transaction rejected by user.';
+  } else if (message.toLowerCase().includes('timeout')) {
+    return 'Network timeout. Solana may be congested, please try again.';
+  }
+
+  return message;
+}
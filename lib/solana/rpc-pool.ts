@@ -0,0 +1,282 @@
+import type { FetchFn } from '@solana/web3.js';
+
+// How often every endpoint is probed with getSlot and getHealth
+const HEALTH_CHECK_INTERVAL_MS = 15000;
+
+// Requests (and probes) slower than this count as a timeout and fail over
+const REQUEST_TIMEOUT_MS = 15000;
+
+// An endpoint this many slots behind the best one is treated as unhealthy
+export const MAX_SLOT_LAG = 50;
+
+// Weight of the newest sample in the moving averages for latency and error rate
+const SAMPLE_WEIGHT = 0.2;
+
+// How long an endpoint is skipped after it answers with 429 Too Many Requests
+const RATE_LIMIT_BACKOFF_MS = 10000;
+
+// An endpoint whose recent error rate is above this is skipped while others are healthy
+const MAX_ERROR_RATE = 0.5;
+
+export interface RpcEndpointState {
+  url: string;
+  // Moving average of request and probe round trips
+  latencyMs: number | null;
+  slot: number | null;
+  // Slots behind the most advanced endpoint in the pool
+  slotLag: number | null;
+  // Moving average of failed requests, between 0 and 1
+  errorRate: number;
+  requests: number;
+  failures: number;
+  // Result of the last getHealth probe
+  nodeHealthy: boolean | null;
+  rateLimitedUntil: number;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+export interface RpcPoolState {
+  endpoints: RpcEndpointState[];
+  // Endpoint the next request will be sent to
+  activeEndpoint: string | null;
+}
+
+type RpcPoolListener = (state: RpcPoolState) => void;
+
+let endpoints: RpcEndpointState[] = [];
+let healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+const listeners = new Set<RpcPoolListener>();
+
+function createEndpointState(url: string): RpcEndpointState {
+  return {
+    url,
+    latencyMs: null,
+    slot: null,
+    slotLag: null,
+    errorRate: 0,
+    requests: 0,
+    failures: 0,
+    nodeHealthy: null,
+    rateLimitedUntil: 0,
+    lastError: null,
+    lastCheckedAt: null,
+  };
+}
+
+function movingAverage(previous: number | null, sample: number): number {
+  return previous === null ? sample : previous * (1 - SAMPLE_WEIGHT) + sample * SAMPLE_WEIGHT;
+}
+
+function isAvailable(endpoint: RpcEndpointState, now = Date.now()): boolean {
+  return (
+    endpoint.rateLimitedUntil <= now &&
+    endpoint.nodeHealthy !== false &&
+    endpoint.errorRate <= MAX_ERROR_RATE &&
+    (endpoint.slotLag ?? 0) <= MAX_SLOT_LAG
+  );
+}
+
+// Lower is better: latency, plus penalties for lag and recent errors
+function score(endpoint: RpcEndpointState): number {
+  return (endpoint.latencyMs ?? REQUEST_TIMEOUT_MS / 10) + (endpoint.slotLag ?? 0) * 20 + endpoint.errorRate * 1000;
+}
+
+/**
+ * Endpoints in the order requests should try them: available ones by score,
+ * then the rest, so a request is still attempted when every endpoint looks down
+ */
+function getRankedEndpoints(): RpcEndpointState[] {
+  const now = Date.now();
+  const available = endpoints.filter((endpoint) => isAvailable(endpoint, now));
+  const unavailable = endpoints.filter((endpoint) => !isAvailable(endpoint, now));
+  return [
+    ...available.sort((a, b) => score(a) - score(b)),
+    ...unavailable.sort((a, b) => a.rateLimitedUntil - b.rateLimitedUntil || score(a) - score(b)),
+  ];
+}
+
+export function getRpcPoolState(): RpcPoolState {
+  return {
+    endpoints: endpoints.map((endpoint) => ({ ...endpoint })),
+    activeEndpoint: getRankedEndpoints()[0]?.url ?? null,
+  };
+}
+
+function notify(): void {
+  const state = getRpcPoolState();
+  listeners.forEach((listener) => listener(state));
+}
+
+/**
+ * Listen to health and routing changes. Returns a function that removes the listener.
+ */
+export function subscribeToRpcPool(listener: RpcPoolListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function recordSuccess(endpoint: RpcEndpointState, latencyMs: number): void {
+  endpoint.requests++;
+  endpoint.latencyMs = Math.round(movingAverage(endpoint.latencyMs, latencyMs));
+  endpoint.errorRate = movingAverage(endpoint.errorRate, 0);
+}
+
+function recordFailure(endpoint: RpcEndpointState, error: string, rateLimited = false): void {
+  endpoint.requests++;
+  endpoint.failures++;
+  endpoint.errorRate = movingAverage(endpoint.errorRate, 1);
+  endpoint.lastError = error;
+  if (rateLimited) {
+    endpoint.rateLimitedUntil = Date.now() + RATE_LIMIT_BACKOFF_MS;
+  }
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit | undefined): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  // Keep honouring an abort signal from the caller
+  const callerSignal = init?.signal;
+  callerSignal?.addEventListener('abort', () => controller.abort());
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function rpcRequest<T>(url: string, method: string): Promise<T> {
+  const response = await fetchWithTimeout(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method }),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  const json = await response.json();
+  if (json.error) {
+    throw new Error(json.error.message ?? `${method} failed`);
+  }
+  return json.result as T;
+}
+
+async function probeEndpoint(endpoint: RpcEndpointState): Promise<void> {
+  const startedAt = Date.now();
+  try {
+    const [slot, health] = await Promise.all([
+      rpcRequest<number>(endpoint.url, 'getSlot'),
+      rpcRequest<string>(endpoint.url, 'getHealth').then(
+        (result) => result === 'ok',
+        () => false
+      ),
+    ]);
+    endpoint.slot = slot;
+    endpoint.nodeHealthy = health;
+    recordSuccess(endpoint, Date.now() - startedAt);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    endpoint.slot = null;
+    endpoint.nodeHealthy = false;
+    recordFailure(endpoint, message, message.startsWith('429'));
+  } finally {
+    endpoint.lastCheckedAt = Date.now();
+  }
+}
+
+/**
+ * Probe every endpoint once and update slot lag against the most advanced one
+ */
+export async function checkRpcHealth(): Promise<RpcPoolState> {
+  await Promise.all(endpoints.map(probeEndpoint));
+
+  const highestSlot = Math.max(0, ...endpoints.map((endpoint) => endpoint.slot ?? 0));
+  endpoints.forEach((endpoint) => {
+    endpoint.slotLag = endpoint.slot === null ? null : highestSlot - endpoint.slot;
+  });
+
+  notify();
+  return getRpcPoolState();
+}
+
+/**
+ * Set the endpoints requests are spread over. Stats are kept for endpoints
+ * that stay in the pool. Starts the periodic health checks when running in a browser.
+ */
+export function configureRpcPool(urls: string[]): void {
+  const unique = Array.from(new Set(urls.filter(Boolean)));
+  const previous = new Map(endpoints.map((endpoint) => [endpoint.url, endpoint]));
+  endpoints = unique.map((url) => previous.get(url) ?? createEndpointState(url));
+  notify();
+
+  if (typeof window !== 'undefined') {
+    startHealthChecks();
+  }
+}
+
+export function getRpcPoolEndpoints(): string[] {
+  return endpoints.map((endpoint) => endpoint.url);
+}
+
+export function startHealthChecks(intervalMs = HEALTH_CHECK_INTERVAL_MS): void {
+  stopHealthChecks();
+  checkRpcHealth().catch(console.error);
+  healthCheckTimer = setInterval(() => {
+    checkRpcHealth().catch(console.error);
+  }, intervalMs);
+}
+
+export function stopHealthChecks(): void {
+  if (healthCheckTimer) {
+    clearInterval(healthCheckTimer);
+    healthCheckTimer = null;
+  }
+}
+
+/**
+ * A fetch for Connection that sends each JSON-RPC call to the healthiest
+ * endpoint and moves on to the next one on 429s, 5xx responses, network
+ * errors and timeouts. Requests to URLs outside the pool pass straight through.
+ */
+export const failoverFetch: FetchFn = async (input, init) => {
+  const requestUrl = typeof input === 'string' ? input : input instanceof URL ? input.toString() : (input as Request).url;
+  if (!endpoints.some((endpoint) => endpoint.url === requestUrl)) {
+    return fetch(input, init);
+  }
+
+  let lastResponse: Response | null = null;
+  let lastError: unknown = null;
+
+  for (const endpoint of getRankedEndpoints()) {
+    const startedAt = Date.now();
+    try {
+      const response = await fetchWithTimeout(endpoint.url, init);
+
+      if (response.status === 429 || response.status >= 500) {
+        recordFailure(endpoint, `${response.status} ${response.statusText}`, response.status === 429);
+        lastResponse = response;
+        continue;
+      }
+
+      recordSuccess(endpoint, Date.now() - startedAt);
+      notify();
+      return response;
+    } catch (error) {
+      // The caller gave up; don't blame the endpoint or try another
+      if (init?.signal?.aborted) throw error;
+
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      recordFailure(endpoint, timedOut ? 'Request timed out' : error instanceof Error ? error.message : String(error));
+      lastError = error;
+    }
+  }
+
+  notify();
+  // Every endpoint failed: hand back the last response so Connection can apply its own 429 backoff
+  if (lastResponse) return lastResponse;
+  throw lastError ?? new Error('No RPC endpoints configured');
+};
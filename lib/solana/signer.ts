@@ -0,0 +1,62 @@
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SendOptions,
+  Signer,
+  Transaction,
+  VersionedTransaction
+} from '@solana/web3.js';
+
+/**
+ * A wallet that signs and submits transactions itself (wallet adapter sendTransaction)
+ */
+export interface WalletSender {
+  publicKey: PublicKey;
+  sendTransaction: (transaction: Transaction | VersionedTransaction, connection: Connection, options?: SendOptions) => Promise<string>;
+}
+
+/**
+ * A wallet that only signs; the engine submits the signed transaction
+ */
+export interface WalletSigner {
+  publicKey: PublicKey;
+  signTransaction: <T extends Transaction | VersionedTransaction>(transaction: T) => Promise<T>;
+}
+
+/**
+ * Who pays for and approves a transaction. Every library function that sends
+ * takes one of these: the connected browser wallet, a local keypair signer,
+ * or a plain keypair in scripts.
+ */
+export type TransactionPayer = WalletSender | WalletSigner | Signer;
+
+/**
+ * A local keypair that signs like a wallet without exposing its secret key
+ */
+export interface KeypairSigner extends WalletSigner {
+  signAllTransactions: <T extends Transaction | VersionedTransaction>(transactions: T[]) => Promise<T[]>;
+}
+
+/**
+ * Add the keypair's signature, keeping signatures already on the transaction
+ */
+export function signWithKeypair<T extends Transaction | VersionedTransaction>(keypair: Keypair, transaction: T): T {
+  if (transaction instanceof VersionedTransaction) {
+    transaction.sign([keypair]);
+  } else {
+    transaction.partialSign(keypair);
+  }
+  return transaction;
+}
+
+/**
+ * Wrap a keypair, e.g. one loaded from a Solana CLI file, so it signs the same way a browser wallet does
+ */
+export function createKeypairSigner(keypair: Keypair): KeypairSigner {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async (transaction) => signWithKeypair(keypair, transaction),
+    signAllTransactions: async (transactions) => transactions.map((transaction) => signWithKeypair(keypair, transaction)),
+  };
+}
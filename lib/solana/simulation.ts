@@ -0,0 +1,256 @@
+import {
+  AccountInfo,
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { decodeTransactionError, getErrorMessage, getInstructionProgramIds } from './program-errors';
+import { isTokenProgram } from './token-program';
+
+// Base layout shared by SPL Token and Token-2022 accounts
+const TOKEN_ACCOUNT_SIZE = 165;
+const MINT_SIZE = 82;
+const MINT_DECIMALS_OFFSET = 44;
+// Token-2022 stores an account type byte right after the base account size
+const ACCOUNT_TYPE_OFFSET = 165;
+const ACCOUNT_TYPE_MINT = 1;
+const ACCOUNT_TYPE_ACCOUNT = 2;
+
+// getMultipleAccountsInfo accepts at most 100 keys per request
+const ACCOUNT_LOOKUP_BATCH_SIZE = 100;
+
+export interface SolBalanceChange {
+  address: string;
+  before: number;
+  after: number;
+}
+
+export interface TokenBalanceChange {
+  account: string;
+  mint: string;
+  owner: string;
+  before: bigint;
+  after: bigint;
+  decimals: number | null;
+}
+
+export interface SimulationPreview {
+  success: boolean;
+  error: string | null;
+  logs: string[];
+  unitsConsumed: number | null;
+  // Fee in lamports, including the priority fee
+  fee: number | null;
+  solChanges: SolBalanceChange[];
+  tokenChanges: TokenBalanceChange[];
+  // Lamports moved into accounts created by the transaction
+  rentLocked: number;
+}
+
+/**
+ * Thrown after a dry run has been simulated and reviewed, instead of sending
+ */
+export class DryRunError extends Error {
+  constructor(public preview: SimulationPreview) {
+    super('Dry run: the transaction was simulated but not sent');
+    this.name = 'DryRunError';
+  }
+}
+
+/**
+ * Thrown when the user rejects a transaction in the review dialog
+ */
+export class ReviewCancelledError extends Error {
+  constructor() {
+    super('Transaction cancelled after review');
+    this.name = 'ReviewCancelledError';
+  }
+}
+
+/**
+ * Shows the simulation to the user and resolves with whether to go ahead
+ */
+export type TransactionReviewHandler = (preview: SimulationPreview, options: { dryRun: boolean }) => Promise<boolean>;
+
+// Registered by the UI; when no handler is set, transactions are sent without review
+let reviewHandler: TransactionReviewHandler | null = null;
+let dryRun = false;
+
+export function setTransactionReviewHandler(handler: TransactionReviewHandler | null): void {
+  reviewHandler = handler;
+}
+
+export function setDryRun(enabled: boolean): void {
+  dryRun = enabled;
+}
+
+export function isDryRun(): boolean {
+  return dryRun;
+}
+
+function isTokenAccountData(owner: PublicKey, data: Buffer): boolean {
+  if (!isTokenProgram(owner) || data.length < TOKEN_ACCOUNT_SIZE) return false;
+  return data.length === TOKEN_ACCOUNT_SIZE || data[ACCOUNT_TYPE_OFFSET] === ACCOUNT_TYPE_ACCOUNT;
+}
+
+function getMintDecimals(owner: PublicKey, data: Buffer): number | null {
+  if (!isTokenProgram(owner)) return null;
+  const isMint =
+    data.length === MINT_SIZE || (data.length > ACCOUNT_TYPE_OFFSET && data[ACCOUNT_TYPE_OFFSET] === ACCOUNT_TYPE_MINT);
+  return isMint ? data[MINT_DECIMALS_OFFSET] : null;
+}
+
+async function getAccountsInBatches(
+  connection: Connection,
+  addresses: PublicKey[]
+): Promise<(AccountInfo<Buffer> | null)[]> {
+  const accounts: (AccountInfo<Buffer> | null)[] = [];
+  for (let i = 0; i < addresses.length; i += ACCOUNT_LOOKUP_BATCH_SIZE) {
+    accounts.push(
+      ...(await connection.getMultipleAccountsInfo(addresses.slice(i, i + ACCOUNT_LOOKUP_BATCH_SIZE), 'confirmed'))
+    );
+  }
+  return accounts;
+}
+
+function readTokenAccount(data: Buffer): { mint: string; owner: string; amount: bigint } {
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    owner: new PublicKey(data.subarray(32, 64)).toBase58(),
+    amount: data.readBigUInt64LE(64),
+  };
+}
+
+/**
+ * Simulate a transaction and work out what it would change: SOL and token
+ * balance deltas per account, rent locked in new accounts, compute units,
+ * fee and program logs
+ */
+export async function simulateTransactionPreview(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  lookupTables: AddressLookupTableAccount[] = []
+): Promise<SimulationPreview> {
+  const addresses = transaction.message
+    .getAccountKeys({ addressLookupTableAccounts: lookupTables })
+    .keySegments()
+    .flat();
+
+  const [preAccounts, { value: simulation }, { value: fee }] = await Promise.all([
+    getAccountsInBatches(connection, addresses),
+    connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+      accounts: { encoding: 'base64', addresses: addresses.map((address) => address.toBase58()) },
+    }),
+    connection.getFeeForMessage(transaction.message, 'confirmed'),
+  ]);
+
+  const postAccounts: (AccountInfo<Buffer> | null)[] = (simulation.accounts ?? []).map((account) =>
+    account
+      ? {
+          executable: account.executable,
+          owner: new PublicKey(account.owner),
+          lamports: account.lamports,
+          data: Buffer.from(account.data[0], 'base64'),
+        }
+      : null
+  );
+
+  const solChanges: SolBalanceChange[] = [];
+  const tokenChanges: TokenBalanceChange[] = [];
+  const decimalsByMint = new Map<string, number>();
+  let rentLocked = 0;
+
+  addresses.forEach((address, i) => {
+    const pre = preAccounts[i];
+    const post = postAccounts[i] ?? null;
+
+    for (const account of [pre, post]) {
+      const decimals = account ? getMintDecimals(account.owner, account.data) : null;
+      if (decimals !== null) decimalsByMint.set(address.toBase58(), decimals);
+    }
+
+    // Without post state (e.g. a failed simulation) there is nothing to compare
+    if (!post) return;
+
+    const before = pre?.lamports ?? 0;
+    if (before !== post.lamports) {
+      solChanges.push({ address: address.toBase58(), before, after: post.lamports });
+    }
+    if (!pre && post.lamports > 0) {
+      rentLocked += post.lamports;
+    }
+
+    const preToken = pre && isTokenAccountData(pre.owner, pre.data) ? readTokenAccount(pre.data) : null;
+    const postToken = isTokenAccountData(post.owner, post.data) ? readTokenAccount(post.data) : null;
+    const token = postToken ?? preToken;
+    const beforeAmount = preToken?.amount ?? BigInt(0);
+    const afterAmount = postToken?.amount ?? BigInt(0);
+
+    if (token && beforeAmount !== afterAmount) {
+      tokenChanges.push({
+        account: address.toBase58(),
+        mint: token.mint,
+        owner: token.owner,
+        before: beforeAmount,
+        after: afterAmount,
+        decimals: null,
+      });
+    }
+  });
+
+  // Look up decimals for mints that were not part of the transaction itself
+  const missingMints = Array.from(new Set(tokenChanges.map((change) => change.mint))).filter(
+    (mint) => !decimalsByMint.has(mint)
+  );
+  if (missingMints.length > 0) {
+    const mintAccounts = await getAccountsInBatches(connection, missingMints.map((mint) => new PublicKey(mint)));
+    mintAccounts.forEach((account, i) => {
+      const decimals = account ? getMintDecimals(account.owner, account.data) : null;
+      if (decimals !== null) decimalsByMint.set(missingMints[i], decimals);
+    });
+  }
+  tokenChanges.forEach((change) => {
+    change.decimals = decimalsByMint.get(change.mint) ?? null;
+  });
+
+  return {
+    success: simulation.err === null,
+    error:
+      simulation.err === null
+        ? null
+        : getErrorMessage(decodeTransactionError(simulation.err, getInstructionProgramIds(transaction), simulation.logs ?? [])),
+    logs: simulation.logs ?? [],
+    unitsConsumed: simulation.unitsConsumed ?? null,
+    fee,
+    solChanges,
+    tokenChanges,
+    rentLocked,
+  };
+}
+
+/**
+ * Whether transactions should be simulated for review before signing: a
+ * review handler is registered or dry-run mode is on
+ */
+export function isReviewEnabled(): boolean {
+  return reviewHandler !== null || dryRun;
+}
+
+/**
+ * Let the user review a simulated transaction before it goes to the wallet.
+ * Throws if the user cancels, or a DryRunError in dry-run mode.
+ */
+export async function reviewTransaction(preview: SimulationPreview): Promise<void> {
+  const approved = reviewHandler ? await reviewHandler(preview, { dryRun }) : true;
+
+  if (dryRun) {
+    throw new DryRunError(preview);
+  }
+  if (!approved) {
+    throw new ReviewCancelledError();
+  }
+}
@@ -0,0 +1,260 @@
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  AccountState,
+  ExtensionType,
+  LENGTH_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TYPE_SIZE,
+  createInitializeDefaultAccountStateInstruction,
+  createInitializeInterestBearingMintInstruction,
+  createInitializeMetadataPointerInstruction,
+  createInitializeMintCloseAuthorityInstruction,
+  createInitializeMintInstruction,
+  createInitializeNonTransferableMintInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  getMintLen
+} from '@solana/spl-token';
+import { createInitializeInstruction, pack, TokenMetadata } from '@solana/spl-token-metadata';
+
+// Transfer fees are capped at 100% by the program
+export const MAX_TRANSFER_FEE_BASIS_POINTS = 10000;
+
+// Interest rates are stored as an i16 in basis points
+export const MAX_INTEREST_RATE = 32767;
+export const MIN_INTEREST_RATE = -32768;
+
+export interface MintExtensionConfig {
+  transferFee?: {
+    basisPoints: number;
+    // Raw base units, not UI amount
+    maxFee: bigint;
+  };
+  interestBearing?: {
+    rate: number;
+  };
+  nonTransferable?: boolean;
+  permanentDelegate?: PublicKey;
+  defaultAccountState?: AccountState;
+  mintCloseAuthority?: PublicKey;
+  embeddedMetadata?: {
+    name: string;
+    symbol: string;
+    uri: string;
+  };
+}
+
+export interface MintWithExtensionsPlan {
+  instructions: TransactionInstruction[];
+  extensions: ExtensionType[];
+  space: number;
+  lamports: number;
+}
+
+/**
+ * List the extension types a config enables
+ */
+export function getMintExtensionTypes(config: MintExtensionConfig): ExtensionType[] {
+  const extensions: ExtensionType[] = [];
+
+  if (config.transferFee) extensions.push(ExtensionType.TransferFeeConfig);
+  if (config.interestBearing) extensions.push(ExtensionType.InterestBearingConfig);
+  if (config.nonTransferable) extensions.push(ExtensionType.NonTransferable);
+  if (config.permanentDelegate) extensions.push(ExtensionType.PermanentDelegate);
+  if (config.defaultAccountState !== undefined) extensions.push(ExtensionType.DefaultAccountState);
+  if (config.mintCloseAuthority) extensions.push(ExtensionType.MintCloseAuthority);
+  if (config.embeddedMetadata) extensions.push(ExtensionType.MetadataPointer);
+
+  return extensions;
+}
+
+/**
+ * Check a config for combinations the program would reject
+ */
+export function validateMintExtensionConfig(
+  config: MintExtensionConfig,
+  freezeAuthority: PublicKey | null
+): string | null {
+  if (config.transferFee) {
+    const { basisPoints, maxFee } = config.transferFee;
+    if (!Number.isInteger(basisPoints) || basisPoints < 0 || basisPoints > MAX_TRANSFER_FEE_BASIS_POINTS) {
+      return `Transfer fee must be between 0 and ${MAX_TRANSFER_FEE_BASIS_POINTS} basis points`;
+    }
+    if (maxFee < BigInt(0)) {
+      return 'Maximum transfer fee cannot be negative';
+    }
+  }
+
+  if (config.interestBearing) {
+    const { rate } = config.interestBearing;
+    if (!Number.isInteger(rate) || rate < MIN_INTEREST_RATE || rate > MAX_INTEREST_RATE) {
+      return `Interest rate must be a whole number of basis points between ${MIN_INTEREST_RATE} and ${MAX_INTEREST_RATE}`;
+    }
+  }
+
+  if (config.nonTransferable && config.transferFee) {
+    return 'Non-transferable mints cannot charge a transfer fee';
+  }
+
+  if (config.defaultAccountState === AccountState.Frozen && !freezeAuthority) {
+    return 'A frozen default account state requires a freeze authority';
+  }
+
+  return null;
+}
+
+/**
+ * Size of the TLV entry the embedded metadata will occupy once initialized
+ */
+function getEmbeddedMetadataLen(mint: PublicKey, updateAuthority: PublicKey, config: MintExtensionConfig): number {
+  if (!config.embeddedMetadata) return 0;
+
+  const metadata: TokenMetadata = {
+    mint,
+    updateAuthority,
+    name: config.embeddedMetadata.name,
+    symbol: config.embeddedMetadata.symbol,
+    uri: config.embeddedMetadata.uri,
+    additionalMetadata: [],
+  };
+
+  return TYPE_SIZE + LENGTH_SIZE + pack(metadata).length;
+}
+
+/**
+ * Build every instruction needed to create a Token-2022 mint with extensions.
+ *
+ * Extension initializers must run after the account is allocated but before
+ * InitializeMint, while the embedded metadata can only be written once the
+ * mint is initialized. The account is allocated for the fixed-size extensions
+ * only, but funded for the metadata as well so the later realloc stays rent-exempt.
+ */
+export async function buildCreateMintWithExtensionsInstructions(
+  connection: Connection,
+  payer: PublicKey,
+  mint: PublicKey,
+  decimals: number,
+  mintAuthority: PublicKey,
+  freezeAuthority: PublicKey | null,
+  config: MintExtensionConfig
+): Promise<MintWithExtensionsPlan> {
+  const validationError = validateMintExtensionConfig(config, freezeAuthority);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const programId = TOKEN_2022_PROGRAM_ID;
+  const extensions = getMintExtensionTypes(config);
+  const space = getMintLen(extensions);
+  const lamports = await connection.getMinimumBalanceForRentExemption(
+    space + getEmbeddedMetadataLen(mint, mintAuthority, config)
+  );
+
+  const instructions: TransactionInstruction[] = [
+    SystemProgram.createAccount({
+      fromPubkey: payer,
+      newAccountPubkey: mint,
+      space,
+      lamports,
+      programId,
+    }),
+  ];
+
+  if (config.transferFee) {
+    instructions.push(
+      createInitializeTransferFeeConfigInstruction(
+        mint,
+        mintAuthority,
+        mintAuthority,
+        config.transferFee.basisPoints,
+        config.transferFee.maxFee,
+        programId
+      )
+    );
+  }
+
+  if (config.interestBearing) {
+    instructions.push(
+      createInitializeInterestBearingMintInstruction(mint, mintAuthority, config.interestBearing.rate, programId)
+    );
+  }
+
+  if (config.nonTransferable) {
+    instructions.push(createInitializeNonTransferableMintInstruction(mint, programId));
+  }
+
+  if (config.permanentDelegate) {
+    instructions.push(createInitializePermanentDelegateInstruction(mint, config.permanentDelegate, programId));
+  }
+
+  if (config.defaultAccountState !== undefined) {
+    instructions.push(createInitializeDefaultAccountStateInstruction(mint, config.defaultAccountState, programId));
+  }
+
+  if (config.mintCloseAuthority) {
+    instructions.push(createInitializeMintCloseAuthorityInstruction(mint, config.mintCloseAuthority, programId));
+  }
+
+  if (config.embeddedMetadata) {
+    // Point the metadata at the mint itself so it is stored in the same account
+    instructions.push(createInitializeMetadataPointerInstruction(mint, mintAuthority, mint, programId));
+  }
+
+  instructions.push(createInitializeMintInstruction(mint, decimals, mintAuthority, freezeAuthority, programId));
+
+  if (config.embeddedMetadata) {
+    instructions.push(
+      createInitializeInstruction({
+        programId,
+        metadata: mint,
+        updateAuthority: mintAuthority,
+        mint,
+        mintAuthority,
+        name: config.embeddedMetadata.name,
+        symbol: config.embeddedMetadata.symbol,
+        uri: config.embeddedMetadata.uri,
+      })
+    );
+  }
+
+  return { instructions, extensions, space, lamports };
+}
+
+/**
+ * Human-readable summary of a mint configuration for review before signing
+ */
+export function describeMintExtensionConfig(config: MintExtensionConfig, decimals: number): string[] {
+  const lines: string[] = [];
+
+  if (config.transferFee) {
+    const maxFeeUi = Number(config.transferFee.maxFee) / Math.pow(10, decimals);
+    lines.push(
+      `Transfer fee: ${(config.transferFee.basisPoints / 100).toFixed(2)}% (max ${maxFeeUi} tokens per transfer)`
+    );
+  }
+  if (config.interestBearing) {
+    lines.push(`Interest rate: ${(config.interestBearing.rate / 100).toFixed(2)}% per year`);
+  }
+  if (config.nonTransferable) {
+    lines.push('Non-transferable: tokens cannot be moved once minted');
+  }
+  if (config.permanentDelegate) {
+    lines.push(`Permanent delegate: ${config.permanentDelegate.toBase58()}`);
+  }
+  if (config.defaultAccountState !== undefined) {
+    lines.push(
+      `Default account state: ${config.defaultAccountState === AccountState.Frozen ? 'Frozen' : 'Initialized'}`
+    );
+  }
+  if (config.mintCloseAuthority) {
+    lines.push(`Mint close authority: ${config.mintCloseAuthority.toBase58()}`);
+  }
+  if (config.embeddedMetadata) {
+    lines.push(
+      `Embedded metadata: ${config.embeddedMetadata.name} (${config.embeddedMetadata.symbol})` +
+        (config.embeddedMetadata.uri ? ` - ${config.embeddedMetadata.uri}` : '')
+    );
+  }
+
+  return lines;
+}
@@ -1,13 +1,16 @@
 import {
   createAssociatedTokenAccountInstruction,
-  getAssociatedTokenAddress,
-  TOKEN_PROGRAM_ID,
-  ASSOCIATED_TOKEN_PROGRAM_ID,
-  getMint
+  ASSOCIATED_TOKEN_PROGRAM_ID
 } from '@solana/spl-token';
 import { Connection, PublicKey, TransactionInstruction, Transaction } from '@solana/web3.js';
-import { toast } from 'react-hot-toast';
+import { TransactionPayer } from './signer';
 import { sendAndConfirmTransaction } from './transaction-helper';
+import { decodeError } from './program-errors';
+import {
+  getAssociatedTokenAddressForProgram,
+  getMintProgramId,
+  getMintWithProgram
+} from './token-program';
 
 /**
  * Ensures that a token account exists for the owner and mint.
@@ -16,18 +19,16 @@ import { sendAndConfirmTransaction } from './transaction-helper';
  */
 export async function getOrCreateAssociatedTokenAccount(
   connection: Connection,
-  payer: { publicKey: PublicKey; secretKey: Uint8Array },
+  payer: TransactionPayer,
   mint: PublicKey,
   owner: PublicKey,
+  programId?: PublicKey,
 ): Promise<PublicKey> {
   try {
-    const associatedTokenAddress = await getAssociatedTokenAddress(
-      mint,
-      owner,
-      false,
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
-    );
+    // Resolve the owning token program if the caller didn't pass one
+    programId = programId ?? await getMintProgramId(connection, mint);
+
+    const associatedTokenAddress = getAssociatedTokenAddressForProgram(mint, owner, programId);
 
     // Check if the token account exists
     try {
@@ -52,14 +53,11 @@ export async function getOrCreateAssociatedTokenAccount(
         associatedTokenAddress,
         owner,
         mint,
-        TOKEN_PROGRAM_ID,
+        programId,
         ASSOCIATED_TOKEN_PROGRAM_ID
       )
     );
 
-    // Toast for account creation
-    toast.loading('Creating token account...');
-
     // Send the transaction
     await sendAndConfirmTransaction(
       connection,
@@ -72,23 +70,14 @@ export async function getOrCreateAssociatedTokenAccount(
       }
     );
 
-    toast.success('Token account created successfully!');
     return associatedTokenAddress;
   } catch (error: any) {
     console.error('Error creating token account:', error);
-    if (!error.message.includes('already in use')) {
-      toast.error('Failed to create token account: ' + error.message);
+    if (decodeError(error)?.errorName !== 'AccountAlreadyInUse') {
       throw error;
     }
     // If the error was because the account exists, that's fine - return the address
-    const associatedTokenAddress = await getAssociatedTokenAddress(
-      mint,
-      owner,
-      false,
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
-    );
-    return associatedTokenAddress;
+    return getAssociatedTokenAddressForProgram(mint, owner, programId ?? await getMintProgramId(connection, mint));
   }
 }
 
@@ -98,15 +87,14 @@ export async function getOrCreateAssociatedTokenAccount(
 export async function doesTokenAccountExist(
   connection: Connection,
   mint: PublicKey,
-  owner: PublicKey
+  owner: PublicKey,
+  programId?: PublicKey
 ): Promise<boolean> {
   try {
-    const associatedTokenAddress = await getAssociatedTokenAddress(
+    const associatedTokenAddress = getAssociatedTokenAddressForProgram(
       mint,
       owner,
-      false,
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
+      programId ?? await getMintProgramId(connection, mint)
     );
     
     const tokenAccount = await connection.getAccountInfo(associatedTokenAddress);
@@ -128,13 +116,8 @@ export async function isMintAuthority(
   try {
     const mintPublicKey = new PublicKey(mintAddress);
     
-    // Get mint info
-    const mintInfo = await getMint(
-      connection,
-      mintPublicKey,
-      'confirmed',
-      TOKEN_PROGRAM_ID
-    );
+    // Get mint info from whichever token program owns it
+    const { mintInfo } = await getMintWithProgram(connection, mintPublicKey);
     
     // Check if wallet is mint authority
     return (
@@ -147,6 +130,51 @@ export async function isMintAuthority(
   }
 }
 
+/**
+ * Reads the current mint and freeze authorities of a token
+ */
+export async function getMintAuthorities(
+  connection: Connection,
+  mintAddress: string
+): Promise<{ mintAuthority: PublicKey | null; freezeAuthority: PublicKey | null; programId: PublicKey }> {
+  const mintPublicKey = new PublicKey(mintAddress);
+  const { mintInfo, programId } = await getMintWithProgram(connection, mintPublicKey);
+
+  return {
+    mintAuthority: mintInfo.mintAuthority,
+    freezeAuthority: mintInfo.freezeAuthority,
+    programId,
+  };
+}
+
+/**
+ * Convert a UI amount string such as "1.5" into raw base units without
+ * going through floating point. Returns null if the amount is malformed or
+ * has more fractional digits than the token supports.
+ */
+export function toRawTokenAmount(value: string, decimals: number): bigint | null {
+  const trimmed = value.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) return null;
+
+  const [whole, fraction = ''] = trimmed.split('.');
+  if (fraction.length > decimals) return null;
+
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+/**
+ * Format raw base units as a UI amount string
+ */
+export function formatTokenAmount(raw: bigint, decimals: number): string {
+  if (decimals === 0) return raw.toString();
+
+  const padded = raw.toString().padStart(decimals + 1, '0');
+  const whole = padded.slice(0, -decimals);
+  const fraction = padded.slice(-decimals).replace(/0+$/, '');
+
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
 /**
  * Get token decimals
  */
@@ -157,13 +185,8 @@ export async function getTokenDecimals(
   try {
     const mintPublicKey = new PublicKey(mintAddress);
     
-    // Get mint info
-    const mintInfo = await getMint(
-      connection,
-      mintPublicKey,
-      'confirmed',
-      TOKEN_PROGRAM_ID
-    );
+    // Get mint info from whichever token program owns it
+    const { mintInfo } = await getMintWithProgram(connection, mintPublicKey);
     
     return mintInfo.decimals;
   } catch (error) {
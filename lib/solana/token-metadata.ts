@@ -0,0 +1,193 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+
+/**
+ * Metaplex Token Metadata program
+ */
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+// Limits enforced on-chain by the Token Metadata program
+export const MAX_NAME_LENGTH = 32;
+export const MAX_SYMBOL_LENGTH = 10;
+export const MAX_URI_LENGTH = 200;
+export const MAX_CREATOR_LIMIT = 5;
+export const MAX_SELLER_FEE_BASIS_POINTS = 10000;
+
+// Instruction discriminator for CreateMetadataAccountV3
+const CREATE_METADATA_ACCOUNT_V3 = 33;
+
+export interface TokenMetadataCreator {
+  address: PublicKey;
+  verified: boolean;
+  share: number;
+}
+
+export interface TokenMetadataInput {
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: TokenMetadataCreator[] | null;
+  isMutable?: boolean;
+}
+
+/**
+ * Derive the metadata account address for a mint
+ */
+export function getMetadataAddress(mint: PublicKey): PublicKey {
+  const [metadataAddress] = PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    TOKEN_METADATA_PROGRAM_ID
+  );
+  return metadataAddress;
+}
+
+/**
+ * Validate metadata against the limits the program enforces, so we fail
+ * before asking the wallet to sign instead of during simulation
+ */
+export function validateTokenMetadata(metadata: TokenMetadataInput): string | null {
+  if (Buffer.byteLength(metadata.name) > MAX_NAME_LENGTH) {
+    return `Name must be at most ${MAX_NAME_LENGTH} bytes`;
+  }
+  if (Buffer.byteLength(metadata.symbol) > MAX_SYMBOL_LENGTH) {
+    return `Symbol must be at most ${MAX_SYMBOL_LENGTH} bytes`;
+  }
+  if (Buffer.byteLength(metadata.uri) > MAX_URI_LENGTH) {
+    return `URI must be at most ${MAX_URI_LENGTH} bytes`;
+  }
+  if (
+    !Number.isInteger(metadata.sellerFeeBasisPoints) ||
+    metadata.sellerFeeBasisPoints < 0 ||
+    metadata.sellerFeeBasisPoints > MAX_SELLER_FEE_BASIS_POINTS
+  ) {
+    return `Seller fee must be between 0 and ${MAX_SELLER_FEE_BASIS_POINTS} basis points`;
+  }
+
+  if (metadata.creators && metadata.creators.length > 0) {
+    if (metadata.creators.length > MAX_CREATOR_LIMIT) {
+      return `At most ${MAX_CREATOR_LIMIT} creators are allowed`;
+    }
+
+    const seen = new Set<string>();
+    let totalShare = 0;
+    for (const creator of metadata.creators) {
+      const key = creator.address.toBase58();
+      if (seen.has(key)) {
+        return `Duplicate creator address: ${key}`;
+      }
+      seen.add(key);
+      if (!Number.isInteger(creator.share) || creator.share < 0 || creator.share > 100) {
+        return 'Creator shares must be whole numbers between 0 and 100';
+      }
+      totalShare += creator.share;
+    }
+
+    if (totalShare !== 100) {
+      return 'Creator shares must add up to 100';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode the name, symbol and URI from a metadata account. Only the leading
+ * fields are read, which is all the UI needs.
+ */
+export function decodeMetadataAccount(data: Buffer): { name: string; symbol: string; uri: string } | null {
+  try {
+    // key (1) + update authority (32) + mint (32)
+    let offset = 1 + 32 + 32;
+
+    const readString = () => {
+      const length = data.readUInt32LE(offset);
+      offset += 4;
+      const value = data.subarray(offset, offset + length).toString('utf8');
+      offset += length;
+      // Older metadata accounts pad strings with null bytes
+      return value.replace(/\0/g, '').trim();
+    };
+
+    const name = readString();
+    const symbol = readString();
+    const uri = readString();
+
+    return { name, symbol, uri };
+  } catch {
+    return null;
+  }
+}
+
+function encodeString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length, 0);
+  return Buffer.concat([length, bytes]);
+}
+
+function encodeCreators(creators: TokenMetadataCreator[] | null): Buffer {
+  if (!creators || creators.length === 0) {
+    return Buffer.from([0]);
+  }
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(creators.length, 0);
+
+  return Buffer.concat([
+    Buffer.from([1]),
+    length,
+    ...creators.map((creator) =>
+      Buffer.concat([
+        creator.address.toBuffer(),
+        Buffer.from([creator.verified ? 1 : 0, creator.share]),
+      ])
+    ),
+  ]);
+}
+
+/**
+ * Build a CreateMetadataAccountV3 instruction.
+ *
+ * The data is Borsh-encoded by hand so we don't need to pull in the full
+ * Metaplex SDK just for this one instruction.
+ */
+export function createMetadataAccountV3Instruction(
+  mint: PublicKey,
+  mintAuthority: PublicKey,
+  payer: PublicKey,
+  updateAuthority: PublicKey,
+  metadata: TokenMetadataInput
+): TransactionInstruction {
+  const sellerFee = Buffer.alloc(2);
+  sellerFee.writeUInt16LE(metadata.sellerFeeBasisPoints, 0);
+
+  const data = Buffer.concat([
+    Buffer.from([CREATE_METADATA_ACCOUNT_V3]),
+    // DataV2
+    encodeString(metadata.name),
+    encodeString(metadata.symbol),
+    encodeString(metadata.uri),
+    sellerFee,
+    encodeCreators(metadata.creators),
+    Buffer.from([0]), // collection: None
+    Buffer.from([0]), // uses: None
+    // is_mutable
+    Buffer.from([metadata.isMutable === false ? 0 : 1]),
+    // collection_details: None
+    Buffer.from([0]),
+  ]);
+
+  return new TransactionInstruction({
+    programId: TOKEN_METADATA_PROGRAM_ID,
+    keys: [
+      { pubkey: getMetadataAddress(mint), isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: mintAuthority, isSigner: true, isWritable: false },
+      { pubkey: payer, isSigner: true, isWritable: true },
+      // Signing as update authority lets the program accept verified creators
+      { pubkey: updateAuthority, isSigner: true, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data,
+  });
+}
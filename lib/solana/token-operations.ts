@@ -9,41 +9,85 @@ import {
 import {
   createMint,
   getOrCreateAssociatedTokenAccount,
-  createTransferInstruction,
+  createTransferCheckedInstruction,
   mintTo,
-  getMint,
-  getAssociatedTokenAddress,
   TOKEN_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID,
   createAssociatedTokenAccountInstruction,
-  createMintToInstruction
+  createMintToInstruction,
+  createInitializeMintInstruction,
+  createSetAuthorityInstruction,
+  createFreezeAccountInstruction,
+  createThawAccountInstruction,
+  createBurnCheckedInstruction,
+  createCloseAccountInstruction,
+  getMint,
+  TOKEN_2022_PROGRAM_ID,
+  unpackAccount,
+  AuthorityType,
+  MINT_SIZE
 } from '@solana/spl-token';
 import { sendTransactionWithRetry } from './transaction-utility';
-import { toast } from 'react-hot-toast';
+import { TransactionEventListener } from './transaction-engine';
+import { TransactionPayer } from './signer';
+import { toRawTokenAmount } from './token-helper';
+import {
+  getAssociatedTokenAddressForProgram,
+  getMintWithProgram,
+  getMintProgramId
+} from './token-program';
+import {
+  createMetadataAccountV3Instruction,
+  getMetadataAddress,
+  validateTokenMetadata,
+  TokenMetadataInput
+} from './token-metadata';
+import { getMultisigAccount } from './multisig';
+import { DryRunError } from './simulation';
+
+export type MintAuthorityKind = 'mint' | 'freeze';
+
+// Freeze and thaw instructions are small, so this many fit comfortably in one transaction
+const FREEZE_BATCH_SIZE = 12;
+
+// Close instructions only touch three accounts each
+const CLOSE_BATCH_SIZE = 20;
 
-interface WalletAdapter {
-  publicKey: PublicKey;
-  sendTransaction: (transaction: Transaction, connection: Connection) => Promise<string>;
+// getMultipleAccountsInfo accepts at most 100 keys per request
+const ACCOUNT_LOOKUP_BATCH_SIZE = 100;
+
+export interface EmptyTokenAccount {
+  address: PublicKey;
+  mint: PublicKey;
+  programId: PublicKey;
+  lamports: number;
+}
+
+export interface TokenAccountFreezeState {
+  input: string;
+  tokenAccount: PublicKey;
+  owner: PublicKey | null;
+  exists: boolean;
+  frozen: boolean;
 }
 
 /**
- * Creates a new SPL token
+ * Creates a new SPL token owned by the given token program
  */
 export async function createToken(
   connection: Connection,
-  wallet: WalletAdapter,
+  wallet: TransactionPayer,
   name: string,
   symbol: string,
-  decimals: number
+  decimals: number,
+  programId: PublicKey = TOKEN_PROGRAM_ID
 ): Promise<{ mintKeypair: Keypair; signature: string }> {
   // Generate a new keypair for token mint
   const mintKeypair = Keypair.generate();
   
   try {
     // Get minimum lamports needed for the mint
-    const lamports = await connection.getMinimumBalanceForRentExemption(
-      82 // Token mint size
-    );
+    const lamports = await connection.getMinimumBalanceForRentExemption(MINT_SIZE);
     
     // Create transaction
     const transaction = new Transaction().add(
@@ -51,13 +95,17 @@ export async function createToken(
       SystemProgram.createAccount({
         fromPubkey: wallet.publicKey,
         newAccountPubkey: mintKeypair.publicKey,
-        space: 82,
+        space: MINT_SIZE,
         lamports,
-        programId: TOKEN_PROGRAM_ID,
+        programId,
       }),
-      // Initialize mint instruction
-      // This will be created by the SPL Token library
-      // We are using the wrapper below
+      createInitializeMintInstruction(
+        mintKeypair.publicKey,
+        decimals,
+        wallet.publicKey,
+        wallet.publicKey,
+        programId
+      )
     );
     
     // Send the transaction
@@ -82,13 +130,83 @@ export async function createToken(
 }
 
 /**
- * Mints tokens to a specific address
+ * Creates a new SPL token and writes its Metaplex metadata account in the
+ * same transaction, so wallets and explorers can show its name and symbol
+ */
+export async function createTokenWithMetadata(
+  connection: Connection,
+  wallet: TransactionPayer,
+  metadata: TokenMetadataInput,
+  decimals: number,
+  programId: PublicKey = TOKEN_PROGRAM_ID
+): Promise<{ mintKeypair: Keypair; metadataAddress: PublicKey; signature: string }> {
+  const validationError = validateTokenMetadata(metadata);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  // Generate a new keypair for token mint
+  const mintKeypair = Keypair.generate();
+  const metadataAddress = getMetadataAddress(mintKeypair.publicKey);
+
+  try {
+    const lamports = await connection.getMinimumBalanceForRentExemption(MINT_SIZE);
+
+    const transaction = new Transaction().add(
+      SystemProgram.createAccount({
+        fromPubkey: wallet.publicKey,
+        newAccountPubkey: mintKeypair.publicKey,
+        space: MINT_SIZE,
+        lamports,
+        programId,
+      }),
+      createInitializeMintInstruction(
+        mintKeypair.publicKey,
+        decimals,
+        wallet.publicKey,
+        wallet.publicKey,
+        programId
+      ),
+      // The mint must be initialized before the metadata program reads it
+      createMetadataAccountV3Instruction(
+        mintKeypair.publicKey,
+        wallet.publicKey,
+        wallet.publicKey,
+        wallet.publicKey,
+        metadata
+      )
+    );
+
+    const signature = await sendTransactionWithRetry(
+      connection,
+      wallet,
+      transaction,
+      [mintKeypair],
+      {
+        maxRetries: 3,
+        skipPreflight: false,
+        preflightCommitment: 'confirmed',
+        confirmCommitment: 'confirmed'
+      }
+    );
+
+    return { mintKeypair, metadataAddress, signature };
+  } catch (error) {
+    console.error('Error creating token with metadata:', error);
+    throw error;
+  }
+}
+
+/**
+ * Mints tokens to a specific address. onEvent receives the send's lifecycle
+ * events, e.g. to record the signature as soon as it is sent.
  */
 export async function mintTokens(
   connection: Connection,
-  wallet: WalletAdapter,
+  wallet: TransactionPayer,
   mintAddress: string,
-  rawAmount: string | number // Accept either string or number for flexibility
+  rawAmount: string | number, // Accept either string or number for flexibility
+  onEvent?: TransactionEventListener
 ): Promise<string> {
   console.log('Minting tokens started...');
   
@@ -100,13 +218,16 @@ export async function mintTokens(
     // Convert mint address to PublicKey
     const mintPubkey = new PublicKey(mintAddress);
     
-    // Get mint info
-    const mintInfo = await getMint(connection, mintPubkey);
+    // Get mint info from whichever token program owns it
+    const { mintInfo, programId } = await getMintWithProgram(connection, mintPubkey);
     
     // Check if wallet is the mint authority
     if (mintInfo.mintAuthority !== null) {
       const mintAuth = new PublicKey(mintInfo.mintAuthority.toString());
       if (!wallet.publicKey.equals(mintAuth)) {
+        if (await getMultisigAccount(connection, mintAuth)) {
+          throw new Error('The mint authority for this token is a multisig. Build a co-signed transaction in the Multisig tab');
+        }
         throw new Error('Your wallet is not the mint authority for this token');
       }
     } else {
@@ -128,12 +249,10 @@ export async function mintTokens(
     }
     
     // Get associated token account
-    const tokenAccount = await getAssociatedTokenAddress(
+    const tokenAccount = getAssociatedTokenAddressForProgram(
       mintPubkey,
       wallet.publicKey,
-      false,
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
+      programId
     )
     
     // Check if token account exists
@@ -148,7 +267,7 @@ export async function mintTokens(
         tokenAccount,
         wallet.publicKey,
         mintPubkey,
-        TOKEN_PROGRAM_ID,
+        programId,
         ASSOCIATED_TOKEN_PROGRAM_ID
       )
       transaction.add(createATAInstruction)
@@ -161,7 +280,7 @@ export async function mintTokens(
       wallet.publicKey,
       amountBigInt,
       [],
-      TOKEN_PROGRAM_ID
+      programId
     )
     transaction.add(mintInstruction)
     
@@ -176,7 +295,8 @@ export async function mintTokens(
         skipPreflight: false,
         preflightCommitment: 'processed', // Use 'processed' for faster initial confirmation
         confirmCommitment: 'confirmed',  // But still wait for 'confirmed' status
-        maxTimeout: 180000 // 3 minutes to allow for network congestion
+        maxTimeout: 180000, // 3 minutes to allow for network congestion
+        onEvent
       }
     )
     
@@ -184,77 +304,49 @@ export async function mintTokens(
     
   } catch (error) {
     console.error('Error in mintTokens:', error)
-    
-    // Provide more specific error messages
-    if (error instanceof Error) {
-      const errorMessage = error.message || '';
-      
-      // Check common error patterns
-      if (errorMessage.includes('not the mint authority') || errorMessage.includes('Invalid mint authority')) {
-        throw new Error('Your wallet is not the mint authority for this token')
-      } 
-      else if (errorMessage.includes('insufficient funds')) {
-        throw new Error('Insufficient SOL balance to pay for transaction fees')
-      } 
-      else if (errorMessage.includes('0x1') || errorMessage.includes('custom program error: 0x1')) {
-        throw new Error('Transaction simulation failed. The amount may be too large or there may be an issue with the token')
-      } 
-      else if (errorMessage.includes('blockhash') || errorMessage.includes('Block height exceeded')) {
-        throw new Error('Transaction timed out. The Solana network may be congested, please try again')
-      } 
-      else if (errorMessage.includes('Transaction was not confirmed') || errorMessage.includes('timeout')) {
-        throw new Error('Transaction was not confirmed in time. Check Solana Explorer for transaction status')
-      }
-      else if (errorMessage.includes('invalid mint')) {
-        throw new Error('Invalid mint address. Please check the address and try again')
-      }
-      else if (errorMessage.includes('Account does not exist')) {
-        throw new Error('Token account does not exist. This may be an invalid mint address')
-      }
-    }
-    
-    // For any other errors, just pass through the original error
     throw error
   }
 }
 
 /**
- * Transfers tokens from one account to another
+ * Transfers tokens from one account to another. A string amount is a UI
+ * amount (e.g. "1.5") converted using the mint's decimals; a bigint is
+ * already in raw base units. onEvent receives the send's lifecycle events.
  */
 export async function transferTokens(
   connection: Connection,
-  wallet: WalletAdapter,
+  wallet: TransactionPayer,
   mintAddress: string,
   recipient: string,
-  amount: number
+  amount: string | bigint,
+  onEvent?: TransactionEventListener
 ): Promise<string> {
   try {
     // Parse addresses
     const mintPublicKey = new PublicKey(mintAddress);
     const recipientPublicKey = new PublicKey(recipient);
     
-    // Get mint info to determine decimals
-    const mintInfo = await getMint(connection, mintPublicKey);
+    // Get mint info to determine decimals and the owning token program
+    const { mintInfo, programId } = await getMintWithProgram(connection, mintPublicKey);
     
-    // Calculate amount with decimals
-    const tokenAmount = Math.floor(amount * Math.pow(10, mintInfo.decimals));
+    // Convert without floating point so large or precise amounts keep every digit
+    const tokenAmount = typeof amount === 'bigint' ? amount : toRawTokenAmount(amount, mintInfo.decimals);
+    if (tokenAmount === null || tokenAmount <= BigInt(0)) {
+      throw new Error(`Invalid amount. Use a positive number with at most ${mintInfo.decimals} decimals`);
+    }
     
     // Get source token account (wallet's token account)
-    const sourceTokenAccount = await getAssociatedTokenAddress(
+    const sourceTokenAccount = getAssociatedTokenAddressForProgram(
       mintPublicKey,
       wallet.publicKey,
-      false,
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
+      programId
     );
     
     // Get destination token account (recipient's token account)
-    const destinationTokenAccount = await getAssociatedTokenAddress(
+    const destinationTokenAccount = getAssociatedTokenAddressForProgram(
       mintPublicKey,
       recipientPublicKey,
-      false,
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
+      programId
     );
     
     // Check if destination token account exists
@@ -265,18 +357,29 @@ export async function transferTokens(
     // If destination token account doesn't exist, create it
     if (!destinationAccountInfo) {
       transaction.add(
-        // Create associated token account instruction
-        // Will be created via SPL Token library
+        createAssociatedTokenAccountInstruction(
+          wallet.publicKey,
+          destinationTokenAccount,
+          recipientPublicKey,
+          mintPublicKey,
+          programId,
+          ASSOCIATED_TOKEN_PROGRAM_ID
+        )
       );
     }
     
-    // Add transfer instruction
+    // Add transfer instruction. TransferChecked works for both programs and is
+    // required by Token-2022 mints with extensions such as transfer fees
     transaction.add(
-      createTransferInstruction(
+      createTransferCheckedInstruction(
         sourceTokenAccount,
+        mintPublicKey,
         destinationTokenAccount,
         wallet.publicKey,
-        tokenAmount
+        tokenAmount,
+        mintInfo.decimals,
+        [],
+        programId
       )
     );
     
@@ -290,7 +393,8 @@ export async function transferTokens(
         maxRetries: 3,
         skipPreflight: false,
         preflightCommitment: 'confirmed',
-        confirmCommitment: 'confirmed'
+        confirmCommitment: 'confirmed',
+        onEvent
       }
     );
     
@@ -301,6 +405,358 @@ export async function transferTokens(
   }
 }
 
+/**
+ * Transfers the mint or freeze authority of a token to another address,
+ * or permanently revokes it when newAuthority is null. onEvent receives the
+ * send's lifecycle events.
+ */
+export async function setTokenAuthority(
+  connection: Connection,
+  wallet: TransactionPayer,
+  mintAddress: string,
+  authorityKind: MintAuthorityKind,
+  newAuthority: string | null,
+  onEvent?: TransactionEventListener
+): Promise<string> {
+  try {
+    const mintPublicKey = new PublicKey(mintAddress);
+    const newAuthorityPublicKey = newAuthority ? new PublicKey(newAuthority) : null;
+
+    const { mintInfo, programId } = await getMintWithProgram(connection, mintPublicKey);
+
+    const currentAuthority = authorityKind === 'mint' ? mintInfo.mintAuthority : mintInfo.freezeAuthority;
+    if (!currentAuthority) {
+      throw new Error(`This token has no ${authorityKind} authority set`);
+    }
+    if (!currentAuthority.equals(wallet.publicKey)) {
+      if (await getMultisigAccount(connection, currentAuthority)) {
+        throw new Error(`The ${authorityKind} authority for this token is a multisig. Build a co-signed transaction in the Multisig tab`);
+      }
+      throw new Error(`Your wallet is not the ${authorityKind} authority for this token`);
+    }
+
+    const transaction = new Transaction().add(
+      createSetAuthorityInstruction(
+        mintPublicKey,
+        wallet.publicKey,
+        authorityKind === 'mint' ? AuthorityType.MintTokens : AuthorityType.FreezeAccount,
+        newAuthorityPublicKey,
+        [],
+        programId
+      )
+    );
+
+    const signature = await sendTransactionWithRetry(
+      connection,
+      wallet,
+      transaction,
+      [],
+      {
+        maxRetries: 3,
+        skipPreflight: false,
+        preflightCommitment: 'confirmed',
+        confirmCommitment: 'confirmed',
+        onEvent
+      }
+    );
+
+    return signature;
+  } catch (error) {
+    console.error('Error setting token authority:', error);
+    throw error;
+  }
+}
+
+// getMultipleAccountsInfo over any number of addresses, in RPC-sized batches
+async function getMultipleAccountsInfoBatched(connection: Connection, addresses: PublicKey[]) {
+  const infos: Awaited<ReturnType<Connection['getMultipleAccountsInfo']>> = [];
+  for (let i = 0; i < addresses.length; i += ACCOUNT_LOOKUP_BATCH_SIZE) {
+    infos.push(...await connection.getMultipleAccountsInfo(addresses.slice(i, i + ACCOUNT_LOOKUP_BATCH_SIZE)));
+  }
+  return infos;
+}
+
+/**
+ * Resolves a list of owner addresses or token accounts to the token accounts
+ * for a mint, along with whether each one is currently frozen
+ */
+export async function getTokenAccountFreezeStates(
+  connection: Connection,
+  mintAddress: string,
+  targets: string[]
+): Promise<TokenAccountFreezeState[]> {
+  const mintPublicKey = new PublicKey(mintAddress);
+  const programId = await getMintProgramId(connection, mintPublicKey);
+
+  const inputs = targets.map((target) => new PublicKey(target));
+  const inputInfos = await getMultipleAccountsInfoBatched(connection, inputs);
+
+  // Anything that is not already a token account for this mint is treated as an owner
+  const tokenAccounts = inputs.map((input, i) => {
+    const info = inputInfos[i];
+    if (info && info.owner.equals(programId)) {
+      try {
+        const account = unpackAccount(input, info, programId);
+        if (account.mint.equals(mintPublicKey)) {
+          return input;
+        }
+      } catch {
+        // Not a token account (it may be the mint itself), fall through
+      }
+    }
+    return getAssociatedTokenAddressForProgram(mintPublicKey, input, programId, true);
+  });
+
+  const accountInfos = await getMultipleAccountsInfoBatched(connection, tokenAccounts);
+
+  return tokenAccounts.map((tokenAccount, i) => {
+    const info = accountInfos[i];
+    if (!info) {
+      return { input: targets[i], tokenAccount, owner: null, exists: false, frozen: false };
+    }
+    const account = unpackAccount(tokenAccount, info, programId);
+    return {
+      input: targets[i],
+      tokenAccount,
+      owner: account.owner,
+      exists: true,
+      frozen: account.isFrozen,
+    };
+  });
+}
+
+/**
+ * Freezes or thaws token accounts as the mint's freeze authority, batching
+ * several accounts per transaction. Returns one signature per batch. In
+ * dry-run mode every batch is simulated before the DryRunError is thrown.
+ */
+export async function setTokenAccountsFrozen(
+  connection: Connection,
+  wallet: TransactionPayer,
+  mintAddress: string,
+  tokenAccounts: PublicKey[],
+  freeze: boolean
+): Promise<string[]> {
+  try {
+    const mintPublicKey = new PublicKey(mintAddress);
+    const { mintInfo, programId } = await getMintWithProgram(connection, mintPublicKey);
+
+    if (!mintInfo.freezeAuthority) {
+      throw new Error('This token has no freeze authority set');
+    }
+    if (!mintInfo.freezeAuthority.equals(wallet.publicKey)) {
+      throw new Error('Your wallet is not the freeze authority for this token');
+    }
+
+    const signatures: string[] = [];
+    let dryRun: DryRunError | null = null;
+
+    for (let i = 0; i < tokenAccounts.length; i += FREEZE_BATCH_SIZE) {
+      const batch = tokenAccounts.slice(i, i + FREEZE_BATCH_SIZE);
+      const transaction = new Transaction().add(
+        ...batch.map((account) =>
+          freeze
+            ? createFreezeAccountInstruction(account, mintPublicKey, wallet.publicKey, [], programId)
+            : createThawAccountInstruction(account, mintPublicKey, wallet.publicKey, [], programId)
+        )
+      );
+
+      try {
+        const signature = await sendTransactionWithRetry(
+          connection,
+          wallet,
+          transaction,
+          [],
+          {
+            maxRetries: 3,
+            skipPreflight: false,
+            preflightCommitment: 'confirmed',
+            confirmCommitment: 'confirmed'
+          }
+        );
+        signatures.push(signature);
+      } catch (error) {
+        // In dry-run mode keep going so every batch gets simulated
+        if (!(error instanceof DryRunError)) throw error;
+        dryRun = error;
+      }
+    }
+
+    if (dryRun) throw dryRun;
+    return signatures;
+  } catch (error) {
+    console.error(`Error ${freeze ? 'freezing' : 'thawing'} token accounts:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Burns tokens from the wallet's associated token account. The amount is a UI
+ * amount (e.g. "1.5") and is converted using the mint's decimals.
+ * Returns the raw supply before and after the burn.
+ */
+export async function burnTokens(
+  connection: Connection,
+  wallet: TransactionPayer,
+  mintAddress: string,
+  amount: string
+): Promise<{ signature: string; decimals: number; supplyBefore: bigint; supplyAfter: bigint }> {
+  try {
+    const mintPublicKey = new PublicKey(mintAddress);
+    const { mintInfo, programId } = await getMintWithProgram(connection, mintPublicKey);
+
+    const rawAmount = toRawTokenAmount(amount, mintInfo.decimals);
+    if (rawAmount === null || rawAmount <= BigInt(0)) {
+      throw new Error(`Invalid amount. Use a positive number with at most ${mintInfo.decimals} decimals`);
+    }
+
+    const tokenAccount = getAssociatedTokenAddressForProgram(mintPublicKey, wallet.publicKey, programId);
+
+    const transaction = new Transaction().add(
+      createBurnCheckedInstruction(
+        tokenAccount,
+        mintPublicKey,
+        wallet.publicKey,
+        rawAmount,
+        mintInfo.decimals,
+        [],
+        programId
+      )
+    );
+
+    const signature = await sendTransactionWithRetry(
+      connection,
+      wallet,
+      transaction,
+      [],
+      {
+        maxRetries: 3,
+        skipPreflight: false,
+        preflightCommitment: 'confirmed',
+        confirmCommitment: 'confirmed'
+      }
+    );
+
+    const updatedMint = await getMint(connection, mintPublicKey, 'confirmed', programId);
+
+    return {
+      signature,
+      decimals: mintInfo.decimals,
+      supplyBefore: mintInfo.supply,
+      supplyAfter: updatedMint.supply,
+    };
+  } catch (error) {
+    console.error('Error burning tokens:', error);
+    throw error;
+  }
+}
+
+// The fields of a jsonParsed token account that decide whether it can be closed
+interface ParsedTokenAccountInfo {
+  mint: string;
+  owner: string;
+  state: 'uninitialized' | 'initialized' | 'frozen';
+  tokenAmount: { amount: string };
+  closeAuthority?: string;
+  extensions?: { extension: string; state?: { withheldAmount?: number | string } }[];
+}
+
+// Token-2022 accounts can still block a close when the balance is zero: withheld
+// transfer fees must be harvested first, and a separate close authority has to sign
+function isClosableByOwner(info: ParsedTokenAccountInfo, owner: PublicKey): boolean {
+  if (info.closeAuthority && info.closeAuthority !== owner.toBase58()) return false;
+
+  return !(info.extensions ?? []).some(
+    ({ extension, state }) => extension === 'transferFeeAmount' && BigInt(state?.withheldAmount ?? 0) > BigInt(0)
+  );
+}
+
+/**
+ * Lists the owner's token accounts under both token programs that hold no
+ * tokens and can be closed by the owner to recover their rent
+ */
+export async function getEmptyTokenAccounts(
+  connection: Connection,
+  owner: PublicKey
+): Promise<EmptyTokenAccount[]> {
+  const programIds = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+  const responses = await Promise.all(
+    programIds.map((programId) => connection.getParsedTokenAccountsByOwner(owner, { programId }))
+  );
+
+  return responses.flatMap((response, i) =>
+    response.value.flatMap(({ pubkey, account }) => {
+      const info: ParsedTokenAccountInfo | undefined = account.data.parsed?.info;
+      // Frozen accounts cannot be closed until they are thawed
+      if (!info || info.tokenAmount.amount !== '0' || info.state === 'frozen' || !isClosableByOwner(info, owner)) {
+        return [];
+      }
+      return [{ address: pubkey, mint: new PublicKey(info.mint), programId: programIds[i], lamports: account.lamports }];
+    })
+  );
+}
+
+/**
+ * Closes empty token accounts in batches, returning the rent to the wallet.
+ * Returns one signature per batch and the total lamports recovered. In
+ * dry-run mode every batch is simulated before the DryRunError is thrown.
+ */
+export async function closeTokenAccounts(
+  connection: Connection,
+  wallet: TransactionPayer,
+  accounts: EmptyTokenAccount[]
+): Promise<{ signatures: string[]; lamportsRecovered: number }> {
+  const signatures: string[] = [];
+  let lamportsRecovered = 0;
+  let dryRun: DryRunError | null = null;
+
+  try {
+    for (let i = 0; i < accounts.length; i += CLOSE_BATCH_SIZE) {
+      const batch = accounts.slice(i, i + CLOSE_BATCH_SIZE);
+      const transaction = new Transaction().add(
+        ...batch.map((account) =>
+          createCloseAccountInstruction(
+            account.address,
+            wallet.publicKey,
+            wallet.publicKey,
+            [],
+            account.programId
+          )
+        )
+      );
+
+      try {
+        const signature = await sendTransactionWithRetry(
+          connection,
+          wallet,
+          transaction,
+          [],
+          {
+            maxRetries: 3,
+            skipPreflight: false,
+            preflightCommitment: 'confirmed',
+            confirmCommitment: 'confirmed'
+          }
+        );
+
+        signatures.push(signature);
+        lamportsRecovered += batch.reduce((sum, account) => sum + account.lamports, 0);
+      } catch (error) {
+        // In dry-run mode keep going so every batch gets simulated
+        if (!(error instanceof DryRunError)) throw error;
+        dryRun = error;
+      }
+    }
+
+    if (dryRun) throw dryRun;
+    return { signatures, lamportsRecovered };
+  } catch (error) {
+    console.error('Error closing token accounts:', error);
+    throw error;
+  }
+}
+
 /**
  * Gets the balance of a specific token for an address
  */
@@ -313,13 +769,12 @@ export async function getTokenBalance(
     // Parse mint address
     const mintPublicKey = new PublicKey(mintAddress);
     
-    // Get token account address
-    const tokenAccount = await getAssociatedTokenAddress(
+    // Get token account address for the program that owns the mint
+    const programId = await getMintProgramId(connection, mintPublicKey);
+    const tokenAccount = getAssociatedTokenAddressForProgram(
       mintPublicKey,
       walletAddress,
-      false,
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
+      programId
     );
     
     // Check if token account exists
@@ -0,0 +1,95 @@
+import { Commitment, Connection, PublicKey } from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+  unpackMint,
+  Mint
+} from '@solana/spl-token';
+import { getCachedAccountInfo } from './account-cache';
+
+export type TokenProgramKind = 'spl-token' | 'token-2022';
+
+// Most decimals a new mint may have, in the UI, the CLI and the API routes alike
+export const MAX_MINT_DECIMALS = 25;
+
+export const TOKEN_PROGRAMS: Record<TokenProgramKind, { label: string; programId: PublicKey }> = {
+  'spl-token': { label: 'SPL Token', programId: TOKEN_PROGRAM_ID },
+  'token-2022': { label: 'Token-2022', programId: TOKEN_2022_PROGRAM_ID },
+};
+
+/**
+ * Check whether a program ID is one of the token programs we support
+ */
+export function isTokenProgram(programId: PublicKey): boolean {
+  return programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID);
+}
+
+/**
+ * Map a program ID back to its kind
+ */
+export function getTokenProgramKind(programId: PublicKey): TokenProgramKind {
+  return programId.equals(TOKEN_2022_PROGRAM_ID) ? 'token-2022' : 'spl-token';
+}
+
+// Read a mint account through the shared cache and check it belongs to a token program
+async function getMintAccount(connection: Connection, mint: PublicKey, commitment: Commitment, maxAgeMs?: number) {
+  const accountInfo = await getCachedAccountInfo(connection, mint, commitment, maxAgeMs);
+
+  if (!accountInfo) {
+    throw new Error('Account does not exist. This may be an invalid mint address');
+  }
+
+  if (!isTokenProgram(accountInfo.owner)) {
+    throw new Error('invalid mint: account is not owned by a token program');
+  }
+
+  return accountInfo;
+}
+
+/**
+ * Detect which token program owns a mint by reading the mint account's owner
+ */
+export async function getMintProgramId(
+  connection: Connection,
+  mint: PublicKey,
+  commitment: Commitment = 'confirmed',
+  maxAgeMs?: number
+): Promise<PublicKey> {
+  const accountInfo = await getMintAccount(connection, mint, commitment, maxAgeMs);
+  return accountInfo.owner;
+}
+
+/**
+ * Fetch a mint through whichever token program owns it. Pass maxAgeMs = 0 to
+ * skip cached reads, e.g. on a server where nothing invalidates the cache.
+ */
+export async function getMintWithProgram(
+  connection: Connection,
+  mint: PublicKey,
+  commitment: Commitment = 'confirmed',
+  maxAgeMs?: number
+): Promise<{ mintInfo: Mint; programId: PublicKey }> {
+  const accountInfo = await getMintAccount(connection, mint, commitment, maxAgeMs);
+  const mintInfo = unpackMint(mint, accountInfo, accountInfo.owner);
+  return { mintInfo, programId: accountInfo.owner };
+}
+
+/**
+ * Derive an associated token account for the given token program
+ */
+export function getAssociatedTokenAddressForProgram(
+  mint: PublicKey,
+  owner: PublicKey,
+  programId: PublicKey,
+  allowOwnerOffCurve = false
+): PublicKey {
+  return getAssociatedTokenAddressSync(
+    mint,
+    owner,
+    allowOwnerOffCurve,
+    programId,
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+}
@@ -0,0 +1,577 @@
+import {
+  AddressLookupTableAccount,
+  Commitment,
+  Connection,
+  PublicKey,
+  SendOptions,
+  SignatureStatus,
+  Signer,
+  Transaction,
+  TransactionConfirmationStrategy,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { applyComputeBudget } from './priority-fees';
+import { TransactionPayer, WalletSender } from './signer';
+import { invalidateAccounts } from './account-cache';
+import {
+  getActiveNonceAccount,
+  getAdvancedNonceAccount,
+  getDurableNonce,
+  getNonceAccountInfo,
+  NonceReference,
+  withNonceAdvanceFirst
+} from './durable-nonce';
+import {
+  DryRunError,
+  ReviewCancelledError,
+  SimulationPreview,
+  isReviewEnabled,
+  reviewTransaction,
+  simulateTransactionPreview
+} from './simulation';
+import { ProgramError, decodeError, decodeTransactionError, getErrorMessage, getInstructionProgramIds } from './program-errors';
+
+// How often signature statuses are polled while waiting for finalization
+const FINALIZATION_POLL_INTERVAL_MS = 2000;
+
+// Upper bound on waiting for finalization after a transaction is confirmed
+const FINALIZATION_TIMEOUT_MS = 60000;
+
+// How often the block height is polled while waiting for a timed-out transaction to expire
+const BLOCK_HEIGHT_POLL_INTERVAL_MS = 2000;
+
+export type TransactionFailureReason = 'error' | 'cancelled' | 'dry-run';
+
+/**
+ * Every step a transaction goes through. Each event carries the id of the
+ * execution it belongs to, so listeners can follow several sends at once.
+ */
+export type TransactionLifecycleEvent =
+  | { type: 'built'; id: string; label: string; attempt: number; maxAttempts: number; transaction: VersionedTransaction }
+  | { type: 'simulated'; id: string; label: string; preview: SimulationPreview }
+  | { type: 'awaiting-signature'; id: string; label: string; attempt: number; maxAttempts: number }
+  | {
+      type: 'sent';
+      id: string;
+      label: string;
+      signature: string;
+      attempt: number;
+      lastValidBlockHeight: number;
+      // Set for durable nonce transactions, which don't expire by block height
+      nonce: NonceReference | null;
+    }
+  | { type: 'confirmed'; id: string; label: string; signature: string; commitment: Commitment }
+  | { type: 'finalized'; id: string; label: string; signature: string }
+  | { type: 'expired'; id: string; label: string; signature: string | null; attempt: number; willRetry: boolean }
+  | { type: 'failed'; id: string; label: string; reason: TransactionFailureReason; message: string; error: unknown };
+
+export type TransactionLifecycleEventType = TransactionLifecycleEvent['type'];
+
+export type TransactionEventListener = (event: TransactionLifecycleEvent) => void;
+
+export interface ExecuteTransactionOptions {
+  // Extra keypairs that must sign, e.g. a new mint account
+  signers?: Signer[];
+  // Tables the v0 message may use to reference accounts by index
+  lookupTables?: AddressLookupTableAccount[];
+  // Nonce account to build against instead of a recent blockhash, with the
+  // payer as its authority. Defaults to the active nonce account; null opts out.
+  durableNonce?: PublicKey | null;
+  maxRetries?: number;
+  skipPreflight?: boolean;
+  preflightCommitment?: Commitment;
+  confirmCommitment?: Commitment;
+  maxTimeout?: number;
+  // Keep polling after confirmation and emit 'finalized' (default true)
+  trackFinalization?: boolean;
+  // Show the simulation review before signing (default true)
+  review?: boolean;
+  // Short description shown by listeners, e.g. in toasts
+  label?: string;
+  // Listener for this execution only, in addition to the global ones
+  onEvent?: TransactionEventListener;
+}
+
+export interface TransactionResult {
+  signature: string;
+  lastValidBlockHeight: number;
+}
+
+/**
+ * Thrown when a transaction was not confirmed within the timeout. It may still land.
+ */
+export class ConfirmationTimeoutError extends Error {
+  constructor(public signature: string) {
+    super('Transaction confirmation timeout');
+    this.name = 'ConfirmationTimeoutError';
+  }
+}
+
+const listeners = new Set<TransactionEventListener>();
+let executionCounter = 0;
+
+/**
+ * Listen to the lifecycle events of every transaction sent through the engine.
+ * Returns a function that removes the listener.
+ */
+export function subscribeToTransactionEvents(listener: TransactionEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function emit(event: TransactionLifecycleEvent, onEvent?: TransactionEventListener): void {
+  for (const listener of [...Array.from(listeners), ...(onEvent ? [onEvent] : [])]) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Transaction event listener failed:', error);
+    }
+  }
+}
+
+function isSigner(payer: TransactionPayer): payer is Signer {
+  return 'secretKey' in payer;
+}
+
+function isWalletSender(payer: TransactionPayer): payer is WalletSender {
+  return 'sendTransaction' in payer && typeof payer.sendTransaction === 'function';
+}
+
+function isBlockhashError(message: string): boolean {
+  return (
+    message.includes('block height exceeded') ||
+    message.includes('blockhash not found') ||
+    message.includes('invalid blockhash') ||
+    message.includes('nonce is no longer valid')
+  );
+}
+
+function isWalletError(message: string): boolean {
+  return (
+    message.includes('Wallet is not connected') ||
+    message.includes('Wallet disconnected') ||
+    message.includes('wallet adapter')
+  );
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Accounts the transaction can write to, whose cached reads are stale once it lands
+function getWritableAccounts(
+  message: VersionedMessage,
+  lookupTables: AddressLookupTableAccount[]
+): PublicKey[] {
+  const keys = message.getAccountKeys({ addressLookupTableAccounts: lookupTables });
+  const writable: PublicKey[] = [];
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys.get(i);
+    if (key && message.isAccountWritable(i)) writable.push(key);
+  }
+  return writable;
+}
+
+/**
+ * Check whether a signature landed even though confirmation reported an error
+ */
+async function getLandedStatus(connection: Connection, signature: string): Promise<'success' | 'failed' | null> {
+  try {
+    const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+    if (!value) return null;
+    return value.err ? 'failed' : 'success';
+  } catch (error) {
+    console.log('Error checking transaction status:', error);
+    return null;
+  }
+}
+
+/**
+ * After a confirmation timeout, wait until the blockhash has expired so the
+ * transaction can no longer land, then look up whether it did
+ */
+async function getStatusAfterExpiry(
+  connection: Connection,
+  signature: string,
+  lastValidBlockHeight: number
+): Promise<SignatureStatus | null> {
+  while ((await connection.getBlockHeight('confirmed')) <= lastValidBlockHeight) {
+    await sleep(BLOCK_HEIGHT_POLL_INTERVAL_MS);
+  }
+  const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+  return value;
+}
+
+async function confirmSignature(
+  connection: Connection,
+  signature: string,
+  strategy: TransactionConfirmationStrategy,
+  commitment: Commitment,
+  maxTimeout: number,
+  programIds: PublicKey[]
+): Promise<void> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new ConfirmationTimeoutError(signature)), maxTimeout);
+  });
+
+  try {
+    const confirmation = await Promise.race([
+      connection.confirmTransaction(strategy, commitment),
+      timeout,
+    ]);
+    if (confirmation.value.err) {
+      const error = decodeTransactionError(confirmation.value.err, programIds);
+      error.signature = signature;
+      throw error;
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function waitForFinalization(
+  connection: Connection,
+  signature: string,
+  emitEvent: (event: TransactionLifecycleEvent) => void,
+  base: { id: string; label: string }
+): Promise<void> {
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < FINALIZATION_TIMEOUT_MS) {
+    try {
+      const { value } = await connection.getSignatureStatuses([signature]);
+      if (value[0]?.confirmationStatus === 'finalized') {
+        emitEvent({ ...base, type: 'finalized', signature });
+        return;
+      }
+    } catch (error) {
+      console.log('Error checking finalization:', error);
+    }
+    await sleep(FINALIZATION_POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * The single path every transaction takes: apply the compute budget, build a
+ * v0 message with a fresh blockhash, review the simulation, get it signed,
+ * send, confirm, and retry with a new blockhash when it expires. Progress is
+ * reported as lifecycle events instead of UI calls, so the same engine runs
+ * in the browser and in scripts.
+ */
+export async function executeTransaction(
+  connection: Connection,
+  payer: TransactionPayer,
+  transaction: Transaction | TransactionInstruction[],
+  options: ExecuteTransactionOptions = {}
+): Promise<TransactionResult> {
+  const {
+    signers = [],
+    lookupTables = [],
+    durableNonce = getActiveNonceAccount(),
+    maxRetries = 5,
+    skipPreflight = false,
+    preflightCommitment = 'processed',
+    confirmCommitment = 'confirmed',
+    maxTimeout = 180000, // 3 minutes
+    trackFinalization = true,
+    review = true,
+    label = 'Transaction',
+    onEvent
+  } = options;
+
+  const base = { id: `tx-${Date.now()}-${++executionCounter}`, label };
+  const emitEvent = (event: TransactionLifecycleEvent) => emit(event, onEvent);
+
+  const fail = (error: unknown, reason: TransactionFailureReason = 'error'): never => {
+    emitEvent({
+      ...base,
+      type: 'failed',
+      reason,
+      message: reason === 'error' ? getErrorMessage(error) : (error as Error).message,
+      error,
+    });
+    throw error;
+  };
+
+  // Verify wallet is connected before attempting transaction
+  if (!payer.publicKey) {
+    fail(new Error('Wallet is not connected. Please connect your wallet and try again.'));
+  }
+
+  const legacy = Array.isArray(transaction) ? new Transaction().add(...transaction) : transaction;
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    let signature: string | null = null;
+    let programIds: PublicKey[] = [];
+
+    try {
+      console.log(`Transaction attempt ${attempt}/${maxRetries}`);
+
+      // Get fresh blockhash for each attempt to prevent blockhash expiration issues
+      const { blockhash: latestBlockhash, lastValidBlockHeight } = await connection.getLatestBlockhash({
+        commitment: 'finalized' // Always use finalized for blockhash to prevent rapid expiration
+      });
+
+      // A durable nonce stands in for the blockhash and doesn't expire until it is advanced
+      const nonce = durableNonce ? await getDurableNonce(connection, durableNonce, payer.publicKey) : null;
+      const blockhash = nonce ? nonce.nonce : latestBlockhash;
+      const confirmationStrategy = (signature: string): TransactionConfirmationStrategy => nonce && durableNonce
+        ? { signature, nonceAccountPubkey: durableNonce, nonceValue: nonce.nonce, minContextSlot: nonce.slot }
+        : { signature, blockhash, lastValidBlockHeight };
+
+      // Prepend the priority fee and compute unit limit (skipped once they are present)
+      legacy.feePayer = payer.publicKey;
+      legacy.recentBlockhash = blockhash;
+      await applyComputeBudget(connection, legacy, payer.publicKey, lookupTables);
+
+      // Build a v0 message from the instructions so lookup tables can be used
+      const versionedTransaction = new VersionedTransaction(
+        new TransactionMessage({
+          payerKey: payer.publicKey,
+          recentBlockhash: blockhash,
+          instructions: nonce ? withNonceAdvanceFirst(legacy.instructions, nonce.advanceInstruction) : legacy.instructions,
+        }).compileToV0Message(lookupTables)
+      );
+      programIds = getInstructionProgramIds(versionedTransaction);
+      emitEvent({ ...base, type: 'built', attempt, maxAttempts: maxRetries, transaction: versionedTransaction });
+
+      // Show the simulated effects before the wallet is asked to sign (first attempt only)
+      if (attempt === 1 && review && isReviewEnabled()) {
+        const preview = await simulateTransactionPreview(connection, versionedTransaction, lookupTables);
+        emitEvent({ ...base, type: 'simulated', preview });
+        await reviewTransaction(preview);
+      }
+
+      if (signers.length > 0) {
+        versionedTransaction.sign(signers);
+      }
+
+      emitEvent({ ...base, type: 'awaiting-signature', attempt, maxAttempts: maxRetries });
+
+      const sendOptions: SendOptions = { skipPreflight, preflightCommitment, maxRetries: 5 };
+      if (isSigner(payer)) {
+        versionedTransaction.sign([payer]);
+        signature = await connection.sendRawTransaction(versionedTransaction.serialize(), sendOptions);
+      } else if (isWalletSender(payer)) {
+        signature = await payer.sendTransaction(versionedTransaction, connection, sendOptions);
+      } else {
+        const signed = await payer.signTransaction(versionedTransaction);
+        signature = await connection.sendRawTransaction(signed.serialize(), sendOptions);
+      }
+
+      console.log(`Transaction sent with signature ${signature}`);
+      emitEvent({
+        ...base,
+        type: 'sent',
+        signature,
+        attempt,
+        lastValidBlockHeight,
+        nonce: nonce && durableNonce ? { account: durableNonce.toBase58(), nonce: nonce.nonce } : null,
+      });
+
+      try {
+        await confirmSignature(connection, signature, confirmationStrategy(signature), confirmCommitment, maxTimeout, programIds);
+      } catch (confirmError: any) {
+        if (confirmError instanceof ProgramError) throw confirmError;
+
+        if (confirmError instanceof ConfirmationTimeoutError) {
+          // Signing again while this one can still land could execute it twice,
+          // so only retry once its blockhash has expired without it landing.
+          // A durable nonce doesn't expire by block height, so those fail here.
+          if (nonce) throw confirmError;
+          const status = await getStatusAfterExpiry(connection, signature, lastValidBlockHeight);
+          if (!status) throw new TransactionExpiredBlockheightExceededError(signature);
+          if (status.err) {
+            const error = decodeTransactionError(status.err, programIds);
+            error.signature = signature;
+            throw error;
+          }
+        } else {
+          // Sometimes transactions are confirmed but the confirmation API throws errors
+          if (isBlockhashError(confirmError.message ?? '')) {
+            await sleep(2000);
+          }
+          const landed = await getLandedStatus(connection, signature);
+          if (landed !== 'success') throw confirmError;
+        }
+      }
+
+      invalidateAccounts(connection, getWritableAccounts(versionedTransaction.message, lookupTables));
+      emitEvent({ ...base, type: 'confirmed', signature, commitment: confirmCommitment });
+
+      if (confirmCommitment === 'finalized') {
+        emitEvent({ ...base, type: 'finalized', signature });
+      } else if (trackFinalization) {
+        waitForFinalization(connection, signature, emitEvent, base);
+      }
+
+      return { signature, lastValidBlockHeight };
+    } catch (error: any) {
+      lastError = error;
+
+      // A dry run or a rejected review is an outcome, not a failure to retry
+      if (error instanceof DryRunError) fail(error, 'dry-run');
+      if (error instanceof ReviewCancelledError) fail(error, 'cancelled');
+
+      console.error(`Transaction attempt ${attempt} failed:`, error);
+
+      const message: string = error?.message ?? '';
+
+      // Don't retry on wallet errors
+      if (isWalletError(message)) {
+        fail(error);
+      }
+
+      // Program errors from preflight or confirmation won't go away on retry,
+      // except for an expired blockhash
+      const decoded = decodeError(error, programIds);
+      if (decoded && decoded.errorName !== 'BlockhashNotFound') {
+        fail(decoded);
+      }
+
+      // Retry with a fresh blockhash only when the transaction expired without landing
+      if (!isBlockhashError(message)) {
+        fail(error);
+      }
+
+      const willRetry = attempt < maxRetries;
+      emitEvent({ ...base, type: 'expired', signature, attempt, willRetry });
+      if (!willRetry) {
+        fail(error);
+      }
+
+      // Add exponential backoff between retries
+      await sleep(Math.min(1000 * Math.pow(2, attempt - 1), 8000));
+    }
+  }
+
+  return fail(lastError || new Error('Transaction failed for unknown reason'));
+}
+
+// The nonce account a signed transaction is built against, if its first instruction advances one
+function getTransactionNonceAccount(transaction: Transaction | VersionedTransaction): PublicKey | null {
+  try {
+    const instructions = transaction instanceof Transaction
+      ? transaction.instructions
+      : TransactionMessage.decompile(transaction.message).instructions;
+    return instructions.length > 0 ? getAdvancedNonceAccount(instructions[0]) : null;
+  } catch {
+    // Messages using lookup tables can't be decompiled here; they can't be nonce transactions we built
+    return null;
+  }
+}
+
+export interface BroadcastOptions {
+  skipPreflight?: boolean;
+  preflightCommitment?: Commitment;
+  confirmCommitment?: Commitment;
+  maxTimeout?: number;
+  trackFinalization?: boolean;
+  label?: string;
+  onEvent?: TransactionEventListener;
+}
+
+/**
+ * Send a transaction that already carries every signature, e.g. one co-signed
+ * offline, and confirm it. Unlike executeTransaction it can't rebuild or
+ * re-sign, so an expired blockhash fails instead of being retried. Transactions
+ * built against a durable nonce stay valid until the nonce is advanced. The
+ * simulation review and dry-run mode apply as they do to executeTransaction.
+ */
+export async function broadcastSignedTransaction(
+  connection: Connection,
+  transaction: Transaction | VersionedTransaction,
+  options: BroadcastOptions = {}
+): Promise<TransactionResult> {
+  const {
+    skipPreflight = false,
+    preflightCommitment = 'processed',
+    confirmCommitment = 'confirmed',
+    maxTimeout = 180000, // 3 minutes
+    trackFinalization = true,
+    label = 'Transaction',
+    onEvent
+  } = options;
+
+  const base = { id: `tx-${Date.now()}-${++executionCounter}`, label };
+  const emitEvent = (event: TransactionLifecycleEvent) => emit(event, onEvent);
+
+  const versionedTransaction = transaction instanceof VersionedTransaction
+    ? transaction
+    : new VersionedTransaction(transaction.compileMessage());
+  const blockhash = versionedTransaction.message.recentBlockhash;
+  const programIds = getInstructionProgramIds(versionedTransaction);
+
+  const nonceAccount = getTransactionNonceAccount(transaction);
+
+  try {
+    // The exact expiry of an offline-built transaction isn't known; the current one is an upper bound
+    const { lastValidBlockHeight } = await connection.getLatestBlockhash({ commitment: 'finalized' });
+    let nonceSlot = 0;
+
+    if (nonceAccount) {
+      const { nonce, slot } = await getNonceAccountInfo(connection, nonceAccount);
+      if (nonce !== blockhash) {
+        throw new Error('The nonce has advanced since this transaction was signed, so it can no longer land');
+      }
+      nonceSlot = slot;
+    } else {
+      const { value: blockhashValid } = await connection.isBlockhashValid(blockhash, { commitment: 'processed' });
+      if (!blockhashValid) {
+        throw new Error('Blockhash not found: the transaction expired before it was fully signed');
+      }
+    }
+
+    if (isReviewEnabled()) {
+      const preview = await simulateTransactionPreview(connection, versionedTransaction);
+      emitEvent({ ...base, type: 'simulated', preview });
+      await reviewTransaction(preview);
+    }
+
+    const signature = await connection.sendRawTransaction(transaction.serialize(), {
+      skipPreflight,
+      preflightCommitment,
+      maxRetries: 5
+    });
+    console.log(`Transaction sent with signature ${signature}`);
+    emitEvent({
+      ...base,
+      type: 'sent',
+      signature,
+      attempt: 1,
+      lastValidBlockHeight,
+      nonce: nonceAccount ? { account: nonceAccount.toBase58(), nonce: blockhash } : null,
+    });
+
+    const confirmationStrategy: TransactionConfirmationStrategy = nonceAccount
+      ? { signature, nonceAccountPubkey: nonceAccount, nonceValue: blockhash, minContextSlot: nonceSlot }
+      : { signature, blockhash, lastValidBlockHeight };
+    await confirmSignature(connection, signature, confirmationStrategy, confirmCommitment, maxTimeout, programIds);
+
+    invalidateAccounts(connection, getWritableAccounts(versionedTransaction.message, []));
+    emitEvent({ ...base, type: 'confirmed', signature, commitment: confirmCommitment });
+
+    if (confirmCommitment === 'finalized') {
+      emitEvent({ ...base, type: 'finalized', signature });
+    } else if (trackFinalization) {
+      waitForFinalization(connection, signature, emitEvent, base);
+    }
+
+    return { signature, lastValidBlockHeight };
+  } catch (error) {
+    if (error instanceof DryRunError || error instanceof ReviewCancelledError) {
+      const reason = error instanceof DryRunError ? 'dry-run' : 'cancelled';
+      emitEvent({ ...base, type: 'failed', reason, message: error.message, error });
+      throw error;
+    }
+
+    const decoded = error instanceof ProgramError ? error : decodeError(error, programIds) ?? error;
+    emitEvent({ ...base, type: 'failed', reason: 'error', message: getErrorMessage(decoded), error: decoded });
+    throw decoded;
+  }
+}
@@ -0,0 +1,114 @@
+import { Connection, NONCE_ACCOUNT_LENGTH, NonceAccount, PublicKey, SystemProgram } from '@solana/web3.js';
+import { NonceReference } from './durable-nonce';
+import { decodeTransactionError } from './program-errors';
+
+// getSignatureStatuses accepts at most 256 signatures per request
+const SIGNATURE_STATUS_BATCH_SIZE = 256;
+
+// A blockhash stays valid for 150 blocks after the slot it was fetched in
+const BLOCKHASH_VALIDITY_BLOCKS = 150;
+
+export interface PendingSignature {
+  id: string;
+  lastValidBlockHeight?: number;
+  // Set for durable nonce transactions, which expire when the nonce moves on instead
+  nonce?: NonceReference;
+}
+
+export type ReconciledSignature =
+  | { id: string; status: 'success' }
+  | { id: string; status: 'error'; error: string }
+  | { id: string; status: 'expired' }
+  // Still unknown; lastValidBlockHeight is set when the entry didn't have one yet
+  | { id: string; status: 'pending'; lastValidBlockHeight: number };
+
+/**
+ * The current nonce of each account, or null for accounts that no longer hold one
+ */
+async function getCurrentNonces(connection: Connection, pending: PendingSignature[]): Promise<Map<string, string | null>> {
+  const accounts = Array.from(new Set(pending.flatMap((entry) => (entry.nonce ? [entry.nonce.account] : []))));
+  const nonces = new Map<string, string | null>();
+  if (accounts.length === 0) return nonces;
+
+  const infos = await connection.getMultipleAccountsInfo(
+    accounts.map((account) => new PublicKey(account)),
+    'confirmed'
+  );
+  infos.forEach((info, index) => {
+    // A transaction can't land either once its nonce account is closed
+    const isNonceAccount =
+      info && info.owner.equals(SystemProgram.programId) && info.data.length === NONCE_ACCOUNT_LENGTH;
+    nonces.set(accounts[index], isNonceAccount ? NonceAccount.fromAccountData(info.data).nonce : null);
+  });
+
+  return nonces;
+}
+
+/**
+ * Look up the status of pending signatures in batches. Confirmed ones resolve
+ * to success or error; ones not seen after their blockhash expired, or after
+ * their durable nonce was advanced, are reported as expired. Entries without
+ * a known lastValidBlockHeight get a conservative one based on the current
+ * block height.
+ */
+export async function reconcileSignatures(
+  connection: Connection,
+  pending: PendingSignature[]
+): Promise<ReconciledSignature[]> {
+  if (pending.length === 0) return [];
+
+  try {
+    const blockHeight = await connection.getBlockHeight('confirmed');
+    // Read the nonces before the statuses, so a transaction that advanced its
+    // nonce in between is found by the status lookup rather than expired
+    const nonces = await getCurrentNonces(connection, pending);
+    const results: ReconciledSignature[] = [];
+
+    for (let i = 0; i < pending.length; i += SIGNATURE_STATUS_BATCH_SIZE) {
+      const batch = pending.slice(i, i + SIGNATURE_STATUS_BATCH_SIZE);
+      const { value: statuses } = await connection.getSignatureStatuses(
+        batch.map((entry) => entry.id),
+        { searchTransactionHistory: true }
+      );
+
+      batch.forEach((entry, index) => {
+        const status = statuses[index];
+
+        if (status && (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized')) {
+          results.push(
+            status.err
+              ? { id: entry.id, status: 'error', error: decodeTransactionError(status.err).message }
+              : { id: entry.id, status: 'success' }
+          );
+          return;
+        }
+
+        if (entry.nonce) {
+          if (!status && nonces.get(entry.nonce.account) !== entry.nonce.nonce) {
+            results.push({ id: entry.id, status: 'expired' });
+          }
+          return;
+        }
+
+        // Seen but only processed so far; check again next round
+        if (status) {
+          if (entry.lastValidBlockHeight === undefined) {
+            results.push({ id: entry.id, status: 'pending', lastValidBlockHeight: blockHeight + BLOCKHASH_VALIDITY_BLOCKS });
+          }
+          return;
+        }
+
+        if (entry.lastValidBlockHeight === undefined) {
+          results.push({ id: entry.id, status: 'pending', lastValidBlockHeight: blockHeight + BLOCKHASH_VALIDITY_BLOCKS });
+        } else if (blockHeight > entry.lastValidBlockHeight) {
+          results.push({ id: entry.id, status: 'expired' });
+        }
+      });
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Error reconciling transaction statuses:', error);
+    throw error;
+  }
+}
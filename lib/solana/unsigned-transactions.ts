@@ -0,0 +1,387 @@
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction
+} from '@solana/web3.js';
+import {
+  AuthorityType,
+  MINT_SIZE,
+  Mint,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnCheckedInstruction,
+  createInitializeMintInstruction,
+  createMintToCheckedInstruction,
+  createSetAuthorityInstruction,
+  createTransferCheckedInstruction,
+  unpackAccount
+} from '@solana/spl-token';
+import { formatTokenAmount, toRawTokenAmount } from './token-helper';
+import {
+  TOKEN_PROGRAMS,
+  TokenProgramKind,
+  getAssociatedTokenAddressForProgram,
+  getMintWithProgram
+} from './token-program';
+import type { MintAuthorityKind } from './token-operations';
+
+/**
+ * A transaction built for someone else to sign, e.g. a backend service or another dapp
+ */
+export interface UnsignedTransaction {
+  // Base64 wire format. Only accounts created by the builder itself are signed.
+  transaction: string;
+  summary: string;
+  feePayer: string;
+  // Addresses that still have to sign, fee payer first
+  signers: string[];
+  // Addresses the caller may want to keep, e.g. the new mint
+  accounts: Record<string, string>;
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+/**
+ * The request can't be turned into a valid transaction, e.g. the signer isn't
+ * the mint authority or the balance is too low. Retrying won't help.
+ */
+export class TransactionBuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransactionBuildError';
+  }
+}
+
+export interface CreateMintParams {
+  payer: PublicKey;
+  decimals: number;
+  tokenProgram: TokenProgramKind;
+  // Defaults to the payer
+  mintAuthority?: PublicKey;
+  // Defaults to the mint authority; null creates a token that can't be frozen
+  freezeAuthority?: PublicKey | null;
+  // Address of a mint keypair the caller signs with. Without one a new
+  // keypair is generated and signs on the server.
+  mint?: PublicKey;
+}
+
+export interface MintToParams {
+  payer: PublicKey;
+  mint: PublicKey;
+  // Wallet that receives the tokens in its associated token account
+  owner: PublicKey;
+  amount: string;
+  // Defaults to the payer
+  mintAuthority?: PublicKey;
+}
+
+export interface TransferParams {
+  mint: PublicKey;
+  owner: PublicKey;
+  recipient: PublicKey;
+  amount: string;
+  // Defaults to the owner
+  payer?: PublicKey;
+}
+
+export interface BurnParams {
+  mint: PublicKey;
+  owner: PublicKey;
+  amount: string;
+  // Defaults to the owner
+  payer?: PublicKey;
+}
+
+export interface SetAuthorityParams {
+  mint: PublicKey;
+  authorityType: MintAuthorityKind;
+  currentAuthority: PublicKey;
+  // null revokes the authority for good
+  newAuthority: PublicKey | null;
+  // Defaults to the current authority
+  payer?: PublicKey;
+}
+
+function shorten(address: PublicKey): string {
+  const value = address.toBase58();
+  return `${value.slice(0, 4)}...${value.slice(-4)}`;
+}
+
+// Always read the mint fresh: builders run on the server, where no sent transaction
+// invalidates the account cache, so a cached authority or supply could be stale
+async function loadMint(connection: Connection, mint: PublicKey): Promise<{ mintInfo: Mint; programId: PublicKey }> {
+  try {
+    return await getMintWithProgram(connection, mint, 'confirmed', 0);
+  } catch (error: any) {
+    // Missing or foreign accounts are bad input; anything else is an RPC problem
+    if (/does not exist|invalid mint/i.test(error?.message ?? '')) {
+      throw new TransactionBuildError(`${mint.toBase58()} is not a token mint`);
+    }
+    throw error;
+  }
+}
+
+function toRawAmount(amount: string, decimals: number): bigint {
+  const raw = toRawTokenAmount(amount, decimals);
+  if (raw === null || raw <= BigInt(0)) {
+    throw new TransactionBuildError(`Invalid amount "${amount}": use a positive number with at most ${decimals} decimals`);
+  }
+  return raw;
+}
+
+// Raw balance of a token account, or null when it doesn't exist
+async function getTokenAccountBalance(
+  connection: Connection,
+  tokenAccount: PublicKey,
+  programId: PublicKey
+): Promise<bigint | null> {
+  const info = await connection.getAccountInfo(tokenAccount, 'confirmed');
+  return info ? unpackAccount(tokenAccount, info, programId).amount : null;
+}
+
+async function checkBalance(
+  connection: Connection,
+  tokenAccount: PublicKey,
+  programId: PublicKey,
+  raw: bigint,
+  decimals: number
+): Promise<void> {
+  const balance = await getTokenAccountBalance(connection, tokenAccount, programId);
+  if (balance === null) {
+    throw new TransactionBuildError(`The owner has no token account for this mint (${tokenAccount.toBase58()})`);
+  }
+  if (balance < raw) {
+    throw new TransactionBuildError(
+      `Insufficient balance: ${formatTokenAmount(balance, decimals)} available, ${formatTokenAmount(raw, decimals)} requested`
+    );
+  }
+}
+
+/**
+ * Attach a recent blockhash, sign with any keypairs the builder created, and
+ * serialize without requiring the remaining signatures
+ */
+async function finalize(
+  connection: Connection,
+  feePayer: PublicKey,
+  instructions: TransactionInstruction[],
+  summary: string,
+  accounts: Record<string, string>,
+  keypairs: Keypair[] = []
+): Promise<UnsignedTransaction> {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({ feePayer, blockhash, lastValidBlockHeight }).add(...instructions);
+
+  if (keypairs.length > 0) {
+    transaction.partialSign(...keypairs);
+  }
+
+  const message = transaction.compileMessage();
+  const signed = new Set(keypairs.map((keypair) => keypair.publicKey.toBase58()));
+  const signers = message.accountKeys
+    .slice(0, message.header.numRequiredSignatures)
+    .map((key) => key.toBase58())
+    .filter((key) => !signed.has(key));
+
+  return {
+    transaction: transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64'),
+    summary,
+    feePayer: feePayer.toBase58(),
+    signers,
+    accounts,
+    blockhash,
+    lastValidBlockHeight,
+  };
+}
+
+/**
+ * Create and initialize a new mint
+ */
+export async function buildCreateMintTransaction(
+  connection: Connection,
+  params: CreateMintParams
+): Promise<UnsignedTransaction> {
+  const { payer, decimals, tokenProgram } = params;
+  const programId = TOKEN_PROGRAMS[tokenProgram].programId;
+  const mintAuthority = params.mintAuthority ?? payer;
+  const freezeAuthority = params.freezeAuthority === undefined ? mintAuthority : params.freezeAuthority;
+
+  const mintKeypair = params.mint ? null : Keypair.generate();
+  const mint = params.mint ?? mintKeypair!.publicKey;
+
+  const [lamports, existing] = await Promise.all([
+    connection.getMinimumBalanceForRentExemption(MINT_SIZE),
+    connection.getAccountInfo(mint, 'confirmed'),
+  ]);
+  if (existing) {
+    throw new TransactionBuildError(`${mint.toBase58()} already exists`);
+  }
+
+  const instructions = [
+    SystemProgram.createAccount({
+      fromPubkey: payer,
+      newAccountPubkey: mint,
+      space: MINT_SIZE,
+      lamports,
+      programId,
+    }),
+    createInitializeMintInstruction(mint, decimals, mintAuthority, freezeAuthority, programId),
+  ];
+
+  const summary =
+    `Create a new ${TOKEN_PROGRAMS[tokenProgram].label} mint ${mint.toBase58()} with ${decimals} decimals. ` +
+    `Mint authority: ${mintAuthority.toBase58()}. ` +
+    `Freeze authority: ${freezeAuthority ? freezeAuthority.toBase58() : 'none'}. ` +
+    `${shorten(payer)} pays ${lamports} lamports of rent.`;
+
+  return finalize(
+    connection,
+    payer,
+    instructions,
+    summary,
+    { mint: mint.toBase58() },
+    mintKeypair ? [mintKeypair] : []
+  );
+}
+
+/**
+ * Mint tokens to a wallet, creating its associated token account if needed
+ */
+export async function buildMintToTransaction(
+  connection: Connection,
+  params: MintToParams
+): Promise<UnsignedTransaction> {
+  const { payer, mint, owner, amount } = params;
+  const mintAuthority = params.mintAuthority ?? payer;
+  const { mintInfo, programId } = await loadMint(connection, mint);
+
+  if (!mintInfo.mintAuthority) {
+    throw new TransactionBuildError('This token has no mint authority and cannot be minted');
+  }
+  if (!mintInfo.mintAuthority.equals(mintAuthority)) {
+    throw new TransactionBuildError(`The mint authority is ${mintInfo.mintAuthority.toBase58()}, not ${mintAuthority.toBase58()}`);
+  }
+
+  const raw = toRawAmount(amount, mintInfo.decimals);
+  const tokenAccount = getAssociatedTokenAddressForProgram(mint, owner, programId, true);
+  const exists = (await getTokenAccountBalance(connection, tokenAccount, programId)) !== null;
+
+  const instructions: TransactionInstruction[] = [];
+  if (!exists) {
+    instructions.push(createAssociatedTokenAccountIdempotentInstruction(payer, tokenAccount, owner, mint, programId));
+  }
+  instructions.push(createMintToCheckedInstruction(mint, tokenAccount, mintAuthority, raw, mintInfo.decimals, [], programId));
+
+  const summary =
+    `Mint ${formatTokenAmount(raw, mintInfo.decimals)} of ${mint.toBase58()} to ${owner.toBase58()}` +
+    (exists ? '.' : `, creating its token account ${tokenAccount.toBase58()}.`);
+
+  return finalize(connection, payer, instructions, summary, { tokenAccount: tokenAccount.toBase58() });
+}
+
+/**
+ * Transfer tokens between wallets, creating the recipient's associated token account if needed
+ */
+export async function buildTransferTransaction(
+  connection: Connection,
+  params: TransferParams
+): Promise<UnsignedTransaction> {
+  const { mint, owner, recipient, amount } = params;
+  const payer = params.payer ?? owner;
+  const { mintInfo, programId } = await loadMint(connection, mint);
+
+  const raw = toRawAmount(amount, mintInfo.decimals);
+  const source = getAssociatedTokenAddressForProgram(mint, owner, programId, true);
+  const destination = getAssociatedTokenAddressForProgram(mint, recipient, programId, true);
+
+  if (source.equals(destination)) {
+    throw new TransactionBuildError('The owner and recipient are the same');
+  }
+
+  await checkBalance(connection, source, programId, raw, mintInfo.decimals);
+  const destinationExists = (await getTokenAccountBalance(connection, destination, programId)) !== null;
+
+  const instructions: TransactionInstruction[] = [];
+  if (!destinationExists) {
+    instructions.push(createAssociatedTokenAccountIdempotentInstruction(payer, destination, recipient, mint, programId));
+  }
+  instructions.push(
+    createTransferCheckedInstruction(source, mint, destination, owner, raw, mintInfo.decimals, [], programId)
+  );
+
+  const summary =
+    `Transfer ${formatTokenAmount(raw, mintInfo.decimals)} of ${mint.toBase58()} from ${owner.toBase58()} ` +
+    `to ${recipient.toBase58()}` +
+    (destinationExists ? '.' : `, creating the recipient's token account ${destination.toBase58()}.`);
+
+  return finalize(connection, payer, instructions, summary, {
+    source: source.toBase58(),
+    destination: destination.toBase58(),
+  });
+}
+
+/**
+ * Burn tokens from the owner's associated token account
+ */
+export async function buildBurnTransaction(
+  connection: Connection,
+  params: BurnParams
+): Promise<UnsignedTransaction> {
+  const { mint, owner, amount } = params;
+  const payer = params.payer ?? owner;
+  const { mintInfo, programId } = await loadMint(connection, mint);
+
+  const raw = toRawAmount(amount, mintInfo.decimals);
+  const tokenAccount = getAssociatedTokenAddressForProgram(mint, owner, programId, true);
+  await checkBalance(connection, tokenAccount, programId, raw, mintInfo.decimals);
+
+  const instructions = [
+    createBurnCheckedInstruction(tokenAccount, mint, owner, raw, mintInfo.decimals, [], programId),
+  ];
+
+  const summary =
+    `Burn ${formatTokenAmount(raw, mintInfo.decimals)} of ${mint.toBase58()} from ${owner.toBase58()}. ` +
+    `Supply goes from ${formatTokenAmount(mintInfo.supply, mintInfo.decimals)} ` +
+    `to ${formatTokenAmount(mintInfo.supply - raw, mintInfo.decimals)}.`;
+
+  return finalize(connection, payer, instructions, summary, { tokenAccount: tokenAccount.toBase58() });
+}
+
+/**
+ * Hand the mint or freeze authority to another address, or revoke it
+ */
+export async function buildSetAuthorityTransaction(
+  connection: Connection,
+  params: SetAuthorityParams
+): Promise<UnsignedTransaction> {
+  const { mint, authorityType, currentAuthority, newAuthority } = params;
+  const payer = params.payer ?? currentAuthority;
+  const { mintInfo, programId } = await loadMint(connection, mint);
+
+  const existing = authorityType === 'mint' ? mintInfo.mintAuthority : mintInfo.freezeAuthority;
+  if (!existing) {
+    throw new TransactionBuildError(`This token has no ${authorityType} authority set`);
+  }
+  if (!existing.equals(currentAuthority)) {
+    throw new TransactionBuildError(`The ${authorityType} authority is ${existing.toBase58()}, not ${currentAuthority.toBase58()}`);
+  }
+
+  const instructions = [
+    createSetAuthorityInstruction(
+      mint,
+      currentAuthority,
+      authorityType === 'mint' ? AuthorityType.MintTokens : AuthorityType.FreezeAccount,
+      newAuthority,
+      [],
+      programId
+    ),
+  ];
+
+  const summary = newAuthority
+    ? `Transfer the ${authorityType} authority of ${mint.toBase58()} from ${currentAuthority.toBase58()} to ${newAuthority.toBase58()}.`
+    : `Permanently revoke the ${authorityType} authority of ${mint.toBase58()}. This cannot be undone.`;
+
+  return finalize(connection, payer, instructions, summary, {});
+}
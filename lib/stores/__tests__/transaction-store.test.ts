@@ -0,0 +1,94 @@
+import { TransactionExpiredBlockheightExceededError } from "@solana/web3.js"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { ProgramError } from "@/lib/solana/program-errors"
+import type { TransactionLifecycleEvent } from "@/lib/solana/transaction-engine"
+import { TransactionDetails, recordTransactionEvents, useTransactionStore } from "../transaction-store"
+
+// The store persists to localStorage, which has to exist before it is created
+vi.hoisted(() => {
+  const items = new Map<string, string>()
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  } as unknown as Storage
+})
+
+const details: TransactionDetails = {
+  type: "send",
+  tokenName: null,
+  tokenSymbol: null,
+  amount: 1,
+  mintAddress: "mint",
+  recipient: "recipient",
+  cluster: "devnet",
+  clusterEndpoint: "https://api.devnet.solana.com",
+  signer: "signer",
+}
+
+const base = { id: "tx-1", label: "Send" }
+const sent = (signature: string): TransactionLifecycleEvent => ({
+  ...base,
+  type: "sent",
+  signature,
+  attempt: 1,
+  lastValidBlockHeight: 100,
+  nonce: null,
+})
+const failed = (error: unknown): TransactionLifecycleEvent => ({
+  ...base,
+  type: "failed",
+  reason: "error",
+  message: (error as Error).message,
+  error,
+})
+
+const entry = (id: string) => useTransactionStore.getState().transactions.find((tx) => tx.id === id)
+
+describe("recordTransactionEvents", () => {
+  beforeEach(() => useTransactionStore.getState().clearTransactions())
+
+  it("records nothing until the transaction is sent", () => {
+    recordTransactionEvents(details)(failed(new Error("Wallet is not connected")))
+
+    expect(useTransactionStore.getState().transactions).toEqual([])
+  })
+
+  it("adds the real signature as pending once sent and marks it landed on confirmation", () => {
+    const record = recordTransactionEvents(details)
+
+    record(sent("sig1"))
+    expect(entry("sig1")).toMatchObject({ ...details, status: "pending", lastValidBlockHeight: 100 })
+
+    record({ ...base, type: "confirmed", signature: "sig1", commitment: "confirmed" })
+    expect(entry("sig1")?.status).toBe("success")
+  })
+
+  it("marks the sent signature as failed when it landed with an error", () => {
+    const record = recordTransactionEvents(details)
+    const error = new ProgramError(1, "InsufficientFunds", "Insufficient funds", 0, null, null, null, "sig1")
+
+    record(sent("sig1"))
+    record(failed(error))
+
+    expect(entry("sig1")).toMatchObject({ status: "error", error: error.message })
+  })
+
+  it("marks the sent signature as expired when it can no longer land", () => {
+    const record = recordTransactionEvents(details)
+
+    record(sent("sig1"))
+    record(failed(new TransactionExpiredBlockheightExceededError("sig1")))
+
+    expect(entry("sig1")?.status).toBe("expired")
+  })
+
+  it("leaves signatures that may still land pending for the reconciler", () => {
+    const record = recordTransactionEvents(details)
+
+    record(sent("sig1"))
+    record(failed(new Error("Transaction confirmation timeout")))
+
+    expect(entry("sig1")?.status).toBe("pending")
+  })
+})
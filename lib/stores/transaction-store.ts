@@ -2,9 +2,15 @@
 
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
+import { TransactionExpiredBlockheightExceededError } from "@solana/web3.js"
+import { CLUSTERS, ClusterName } from "@/lib/solana/cluster"
+import type { NonceReference } from "@/lib/solana/durable-nonce"
+import type { HistorySyncCursor } from "@/lib/solana/history-sync"
+import { ProgramError } from "@/lib/solana/program-errors"
+import type { TransactionEventListener } from "@/lib/solana/transaction-engine"
 
-export type TransactionType = "create" | "mint" | "send"
-export type TransactionStatus = "success" | "error" | "pending"
+export type TransactionType = "create" | "mint" | "send" | "set-authority" | "revoke-authority" | "freeze" | "thaw" | "burn" | "close" | "airdrop"
+export type TransactionStatus = "success" | "error" | "pending" | "expired"
 
 export interface Transaction {
   id: string
@@ -16,11 +22,32 @@ export interface Transaction {
   recipient: string | null
   timestamp: number
   status: TransactionStatus
+  // Network the transaction was sent on; the endpoint distinguishes custom RPCs
+  cluster: ClusterName
+  clusterEndpoint: string
+  // Public key of the wallet that signed, or "unknown" for entries recorded before tagging
+  signer: string
+  // Block height after which a pending transaction can no longer land
+  lastValidBlockHeight?: number
+  // Nonce a durable nonce transaction was built against; it expires once the nonce moves on
+  nonce?: NonceReference
+  // Failure reason for transactions that landed with an error
+  error?: string
 }
 
+export const UNKNOWN_SIGNER = "unknown"
+
+// Entries kept in localStorage, newest first
+const MAX_TRANSACTIONS = 500
+
 interface TransactionStore {
   transactions: Transaction[]
+  // Chain import progress, keyed by `${clusterEndpoint}:${address}`
+  syncCursors: Record<string, HistorySyncCursor>
   addTransaction: (transaction: Transaction) => void
+  importTransactions: (transactions: Transaction[]) => void
+  updateTransaction: (id: string, changes: Partial<Transaction>) => void
+  setSyncCursor: (key: string, cursor: HistorySyncCursor) => void
   clearTransactions: () => void
 }
 
@@ -28,15 +55,109 @@ export const useTransactionStore = create<TransactionStore>()(
   persist(
     (set) => ({
       transactions: [],
+      syncCursors: {},
       addTransaction: (transaction) =>
         set((state) => ({
-          transactions: [transaction, ...state.transactions].slice(0, 50), // Keep only the last 50 transactions
+          transactions: [transaction, ...state.transactions].slice(0, MAX_TRANSACTIONS),
+        })),
+      // Merge entries imported from chain, keeping local entries for signatures we already have
+      importTransactions: (transactions) =>
+        set((state) => {
+          const known = new Set(state.transactions.map((tx) => tx.id))
+          const added = transactions.filter((tx) => !known.has(tx.id))
+          return {
+            transactions: [...state.transactions, ...added]
+              .sort((a, b) => b.timestamp - a.timestamp)
+              .slice(0, MAX_TRANSACTIONS),
+          }
+        }),
+      updateTransaction: (id, changes) =>
+        set((state) => ({
+          transactions: state.transactions.map((tx) => (tx.id === id ? { ...tx, ...changes } : tx)),
         })),
-      clearTransactions: () => set({ transactions: [] }),
+      setSyncCursor: (key, cursor) =>
+        set((state) => ({ syncCursors: { ...state.syncCursors, [key]: cursor } })),
+      clearTransactions: () => set({ transactions: [], syncCursors: {} }),
     }),
     {
       name: "solana-token-manager-transactions",
+      version: 2,
+      migrate: (persistedState, version) => {
+        let state = persistedState as {
+          transactions?: Partial<Transaction>[]
+          syncCursors?: Record<string, string | HistorySyncCursor>
+        }
+
+        // v0 entries were always sent to devnet and did not record the signer
+        if (version < 1) {
+          state = {
+            ...state,
+            transactions: (state.transactions ?? []).map((transaction) => ({
+              ...transaction,
+              cluster: transaction.cluster ?? "devnet",
+              clusterEndpoint: transaction.clusterEndpoint ?? CLUSTERS.devnet.endpoint,
+              signer: transaction.signer ?? UNKNOWN_SIGNER,
+            })),
+          }
+        }
+
+        // v1 cursors were only the newest imported signature
+        if (version < 2) {
+          state = {
+            ...state,
+            syncCursors: Object.fromEntries(
+              Object.entries(state.syncCursors ?? {}).map(([key, cursor]) => [
+                key,
+                typeof cursor === "string" ? { until: cursor, before: null, head: null } : cursor,
+              ])
+            ),
+          }
+        }
+
+        return state as TransactionStore
+      },
     },
   ),
 )
 
+// What a history entry records about a send before it has a signature
+export type TransactionDetails = Omit<Transaction, "id" | "status" | "timestamp" | "lastValidBlockHeight" | "nonce" | "error">
+
+/**
+ * Listener that keeps the history in step with one send: each signature is
+ * added as pending as soon as it is sent, then marked as landed or failed.
+ * Signatures whose outcome isn't known yet stay pending for the background
+ * reconciler.
+ */
+export function recordTransactionEvents(details: TransactionDetails): TransactionEventListener {
+  let signature: string | null = null
+
+  return (event) => {
+    const { addTransaction, updateTransaction } = useTransactionStore.getState()
+
+    switch (event.type) {
+      case "sent":
+        signature = event.signature
+        addTransaction({
+          ...details,
+          id: event.signature,
+          status: "pending",
+          timestamp: Date.now(),
+          lastValidBlockHeight: event.lastValidBlockHeight,
+          nonce: event.nonce ?? undefined,
+        })
+        break
+      case "confirmed":
+        updateTransaction(event.signature, { status: "success" })
+        break
+      case "failed":
+        if (!signature) break
+        if (event.error instanceof ProgramError && event.error.signature === signature) {
+          updateTransaction(signature, { status: "error", error: event.message })
+        } else if (event.error instanceof TransactionExpiredBlockheightExceededError) {
+          updateTransaction(signature, { status: "expired", error: "Blockhash expired before the transaction landed" })
+        }
+        break
+    }
+  }
+}